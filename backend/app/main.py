@@ -2,6 +2,7 @@ from __future__ import annotations
 
 import json
 import os
+import re
 import shutil
 import uuid
 from datetime import datetime
@@ -57,6 +58,22 @@ class FinalizeResp(BaseModel):
     final_path: str
     size: int
 
+class StatusResp(BaseModel):
+    session_id: str
+    filename: str
+    status: str
+    size: Optional[int]
+    bytes_received: int
+
+
+_RANGE_RE = re.compile(r"^bytes (\d+)-(\d+)/(\d+|\*)$")
+
+def _range_start(content_range: str) -> int:
+    m = _RANGE_RE.match(content_range.strip())
+    if not m:
+        raise HTTPException(status_code=400, detail="malformed Content-Range")
+    return int(m.group(1))
+
 
 # --------- endpoints ---------
 
@@ -91,8 +108,8 @@ def start_session(req: StartReq):
 def upload_chunk(
     session_id: str,
     data: bytes = Body(..., media_type="application/octet-stream"),
-    content_range: Optional[str] = Header(default=None, convert_underscores=False),
-    upload_id: Optional[str] = Header(default=None, convert_underscores=False),
+    content_range: Optional[str] = Header(default=None, alias="Content-Range"),
+    upload_id: Optional[str] = Header(default=None, alias="Upload-Id"),
 ):
     db = _load_db()
     row = db["sessions"].get(session_id)
@@ -101,10 +118,22 @@ def upload_chunk(
     if upload_id and upload_id != row["upload_id"]:
         raise HTTPException(status_code=409, detail="upload_id mismatch")
 
+    if row["status"] != "uploading":
+        raise HTTPException(status_code=409, detail="session already finalized")
+
     tmp_file = Path(row["tmp_path"])
     if not tmp_file.parent.exists():
         tmp_file.parent.mkdir(parents=True, exist_ok=True)
 
+    # A resuming client must continue exactly where the server left off;
+    # it reads the offset from the 409 body or GET /v1/sessions/{id}.
+    received = tmp_file.stat().st_size if tmp_file.exists() else 0
+    if content_range is not None and _range_start(content_range) != received:
+        raise HTTPException(
+            status_code=409,
+            detail={"error": "offset mismatch", "bytes_received": received},
+        )
+
     # Append raw bytes
     with tmp_file.open("ab") as f:
         f.write(data)
@@ -114,6 +143,22 @@ def upload_chunk(
     return {"ok": True, "bytes_received": row["bytes_received"], "content_range": content_range}
 
 
+@app.get("/v1/sessions/{session_id}", response_model=StatusResp)
+def session_status(session_id: str):
+    db = _load_db()
+    row = db["sessions"].get(session_id)
+    if not row:
+        raise HTTPException(status_code=404, detail="session not found")
+
+    return StatusResp(
+        session_id=session_id,
+        filename=row["filename"],
+        status=row["status"],
+        size=row["size"],
+        bytes_received=row["bytes_received"],
+    )
+
+
 @app.post("/v1/sessions/{session_id}/finalize", response_model=FinalizeResp)
 def finalize(session_id: str):
     db = _load_db()
@@ -51,3 +51,63 @@ def test_chunked_upload_5mb(tmp_path):
     assert fin["size"] == len(payload)
     # clean up test artifact
     final_path.unlink(missing_ok=True)
+
+
+def test_resume_from_bytes_received():
+    payload = os.urandom(300 * 1024)
+    third = len(payload) // 3
+
+    r = client.post("/v1/sessions/start", json={
+        "filename": "dummy_resume.mp4",
+        "size": len(payload),
+        "mime": "video/mp4"
+    })
+    assert r.status_code == 200
+    sid = r.json()["session_id"]
+    upid = r.json()["upload_id"]
+
+    def send(start, end):
+        return client.post(f"/v1/sessions/{sid}/upload-chunk",
+                           data=payload[start:end],
+                           headers={"Upload-Id": upid,
+                                    "Content-Range": f"bytes {start}-{end-1}/{len(payload)}",
+                                    "Content-Type": "application/octet-stream"})
+
+    assert send(0, third).status_code == 200
+
+    # client "restarts" and asks where to continue
+    r = client.get(f"/v1/sessions/{sid}")
+    assert r.status_code == 200
+    assert r.json()["bytes_received"] == third
+    assert r.json()["status"] == "uploading"
+
+    # replaying the first chunk is rejected with the server's offset
+    r = send(0, third)
+    assert r.status_code == 409
+    assert r.json()["detail"]["bytes_received"] == third
+
+    assert send(third, len(payload)).status_code == 200
+
+    r = client.post(f"/v1/sessions/{sid}/finalize")
+    assert r.status_code == 200
+    final_path = Path(r.json()["final_path"])
+    assert final_path.read_bytes() == payload
+    final_path.unlink(missing_ok=True)
+
+
+def test_upload_id_mismatch():
+    r = client.post("/v1/sessions/start", json={"filename": "dummy_mismatch.mp4"})
+    sid = r.json()["session_id"]
+    tmp_path = Path(r.json()["tmp_path"])
+
+    r = client.post(f"/v1/sessions/{sid}/upload-chunk",
+                    data=b"abc",
+                    headers={"Upload-Id": "not-the-upload-id",
+                             "Content-Type": "application/octet-stream"})
+    assert r.status_code == 409
+    tmp_path.unlink(missing_ok=True)
+
+
+def test_status_unknown_session():
+    r = client.get("/v1/sessions/does-not-exist")
+    assert r.status_code == 404
@@ -1,75 +1,201 @@
-import { Image } from 'expo-image';
-import { Platform, StyleSheet } from 'react-native';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Pressable, RefreshControl, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { loadInsights, type Insights } from '../../modules/insights/local';
+import type { Count, TrendPoint } from '../../modules/insights/aggregate';
+import { onQueueChange } from '../../modules/processing/queue';
+import { BarChart } from '../../components/BarChart';
 
-import { HelloWave } from '@/components/HelloWave';
-import ParallaxScrollView from '@/components/ParallaxScrollView';
-import { ThemedText } from '@/components/ThemedText';
-import { ThemedView } from '@/components/ThemedView';
+const TREND_LABELS: Record<keyof Insights['trends'], { title: string; color: string }> = {
+  absolutist: { title: 'Absolutist language', color: '#e07a00' },
+  hedging: { title: 'Hedging', color: '#9b59b6' },
+  head_shake: { title: 'Head shakes', color: '#c0392b' },
+};
+
+function weekLabel(ms: number) {
+  const d = new Date(ms);
+  return `${d.getMonth() + 1}/${d.getDate()}`;
+}
+
+function Stat({ value, label }: { value: string; label: string }) {
+  return (
+    <View style={styles.stat}>
+      <Text style={styles.statValue}>{value}</Text>
+      <Text style={styles.statLabel}>{label}</Text>
+    </View>
+  );
+}
+
+function CountList({ items, empty }: { items: Count[]; empty: string }) {
+  if (!items.length) return <Text style={styles.muted}>{empty}</Text>;
+  const max = items[0].count;
+  return (
+    <View style={{ gap: 6 }}>
+      {items.map((c) => (
+        <View key={c.text} style={styles.countRow}>
+          <Text style={styles.countText} numberOfLines={1}>
+            {c.text}
+          </Text>
+          <View style={styles.countTrack}>
+            <View style={[styles.countFill, { width: `${(c.count / max) * 100}%` }]} />
+          </View>
+          <Text style={styles.countNum}>{c.count}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+function Trend({ points, color }: { points: TrendPoint[]; color: string }) {
+  const total = points.reduce((n, p) => n + p.count, 0);
+  if (!total) return <Text style={styles.muted}>None in the last {points.length} weeks.</Text>;
+  return (
+    <>
+      <BarChart
+        bars={points.map((p) => ({ label: weekLabel(p.weekStart), value: p.perTenMin }))}
+        color={color}
+        height={64}
+        format={(v) => v.toFixed(1)}
+      />
+      <Text style={styles.caption}>per 10 minutes recorded · {total} total</Text>
+    </>
+  );
+}
 
 export default function HomeScreen() {
+  const router = useRouter();
+  const [insights, setInsights] = useState<Insights | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const pending = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setInsights(await loadInsights());
+    } catch (e) {
+      console.warn('[Insights] load failed:', e);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+    }, [refresh])
+  );
+
+  useEffect(() => {
+    // the queue fires per stage; coalesce bursts into one reload
+    const off = onQueueChange(() => {
+      if (pending.current) clearTimeout(pending.current);
+      pending.current = setTimeout(refresh, 1_000);
+    });
+    return () => {
+      off();
+      if (pending.current) clearTimeout(pending.current);
+    };
+  }, [refresh]);
+
+  if (!insights) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  if (!insights.sessionCount) {
+    return (
+      <View style={styles.center}>
+        <Text style={styles.heading}>Your journal</Text>
+        <Text style={styles.muted}>Record your first entry to see streaks, themes and trends here.</Text>
+        <Pressable style={styles.cta} onPress={() => router.push('/record')}>
+          <Text style={styles.ctaText}>Start recording</Text>
+        </Pressable>
+      </View>
+    );
+  }
+
+  const { streak, weeks } = insights;
+
   return (
-    <ParallaxScrollView
-      headerBackgroundColor={{ light: '#A1CEDC', dark: '#1D3D47' }}
-      headerImage={
-        <Image
-          source={require('@/assets/images/partial-react-logo.png')}
-          style={styles.reactLogo}
+    <ScrollView
+      contentContainerStyle={styles.container}
+      refreshControl={
+        <RefreshControl
+          refreshing={refreshing}
+          onRefresh={async () => {
+            setRefreshing(true);
+            await refresh();
+            setRefreshing(false);
+          }}
         />
-      }>
-      <ThemedView style={styles.titleContainer}>
-        <ThemedText type="title">Welcome!</ThemedText>
-        <HelloWave />
-      </ThemedView>
-      <ThemedView style={styles.stepContainer}>
-        <ThemedText type="subtitle">Step 1: Try it</ThemedText>
-        <ThemedText>
-          Edit <ThemedText type="defaultSemiBold">app/(tabs)/index.tsx</ThemedText> to see changes.
-          Press{' '}
-          <ThemedText type="defaultSemiBold">
-            {Platform.select({
-              ios: 'cmd + d',
-              android: 'cmd + m',
-              web: 'F12',
-            })}
-          </ThemedText>{' '}
-          to open developer tools.
-        </ThemedText>
-      </ThemedView>
-      <ThemedView style={styles.stepContainer}>
-        <ThemedText type="subtitle">Step 2: Explore</ThemedText>
-        <ThemedText>
-          {`Tap the Explore tab to learn more about what's included in this starter app.`}
-        </ThemedText>
-      </ThemedView>
-      <ThemedView style={styles.stepContainer}>
-        <ThemedText type="subtitle">Step 3: Get a fresh start</ThemedText>
-        <ThemedText>
-          {`When you're ready, run `}
-          <ThemedText type="defaultSemiBold">npm run reset-project</ThemedText> to get a fresh{' '}
-          <ThemedText type="defaultSemiBold">app</ThemedText> directory. This will move the current{' '}
-          <ThemedText type="defaultSemiBold">app</ThemedText> to{' '}
-          <ThemedText type="defaultSemiBold">app-example</ThemedText>.
-        </ThemedText>
-      </ThemedView>
-    </ParallaxScrollView>
+      }
+    >
+      <Text style={styles.heading}>Your journal</Text>
+
+      <View style={styles.stats}>
+        <Stat value={String(streak.current)} label="day streak" />
+        <Stat value={String(streak.longest)} label="longest streak" />
+        <Stat value={String(insights.totalMinutes)} label="minutes" />
+        <Stat value={String(insights.sessionCount)} label="entries" />
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Entries per week</Text>
+        <BarChart bars={weeks.map((w) => ({ label: weekLabel(w.weekStart), value: w.sessions }))} />
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Minutes per week</Text>
+        <BarChart bars={weeks.map((w) => ({ label: weekLabel(w.weekStart), value: w.minutes }))} color="#4caf50" />
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Words you use most</Text>
+        <CountList items={insights.topWords} empty="Transcripts will show up here once processed." />
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Recurring phrases</Text>
+        <CountList items={insights.topPhrases} empty="No phrase has come up twice yet." />
+      </View>
+
+      {insights.byTemplate.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Entries by prompt</Text>
+          <CountList items={insights.byTemplate} empty="" />
+        </View>
+      )}
+
+      {(Object.keys(TREND_LABELS) as (keyof Insights['trends'])[]).map((rule) => (
+        <View key={rule} style={styles.card}>
+          <Text style={styles.cardTitle}>{TREND_LABELS[rule].title}</Text>
+          <Trend points={insights.trends[rule]} color={TREND_LABELS[rule].color} />
+        </View>
+      ))}
+
+      <Text style={styles.footnote}>Computed on this device from your recordings. Nothing is uploaded.</Text>
+    </ScrollView>
   );
 }
 
 const styles = StyleSheet.create({
-  titleContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 8,
-  },
-  stepContainer: {
-    gap: 8,
-    marginBottom: 8,
-  },
-  reactLogo: {
-    height: 178,
-    width: 290,
-    bottom: 0,
-    left: 0,
-    position: 'absolute',
-  },
+  container: { paddingTop: 56, paddingHorizontal: 12, paddingBottom: 96, gap: 12 },
+  center: { flex: 1, alignItems: 'center', justifyContent: 'center', padding: 24, gap: 12 },
+  heading: { fontSize: 26, fontWeight: '700', color: '#333' },
+  muted: { color: '#666', textAlign: 'center' },
+  cta: { paddingHorizontal: 20, paddingVertical: 12, borderRadius: 24, backgroundColor: '#0a7ea4' },
+  ctaText: { color: '#fff', fontWeight: '600' },
+  stats: { flexDirection: 'row', gap: 8 },
+  stat: { flex: 1, backgroundColor: '#fff', borderRadius: 12, paddingVertical: 12, alignItems: 'center', elevation: 2 },
+  statValue: { fontSize: 22, fontWeight: '700', color: '#0a7ea4', fontVariant: ['tabular-nums'] },
+  statLabel: { fontSize: 11, color: '#666', marginTop: 2 },
+  card: { backgroundColor: '#fff', borderRadius: 12, padding: 12, elevation: 2, gap: 8 },
+  cardTitle: { fontWeight: '600', color: '#333' },
+  caption: { fontSize: 11, color: '#888', textAlign: 'right' },
+  countRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  countText: { width: 120, color: '#333' },
+  countTrack: { flex: 1, height: 8, borderRadius: 4, backgroundColor: '#eef0f3', overflow: 'hidden' },
+  countFill: { height: 8, borderRadius: 4, backgroundColor: '#0a7ea4aa' },
+  countNum: { width: 28, textAlign: 'right', color: '#666', fontVariant: ['tabular-nums'] },
+  footnote: { fontSize: 11, color: '#999', textAlign: 'center', marginTop: 4 },
 });
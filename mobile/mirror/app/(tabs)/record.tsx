@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -8,202 +8,417 @@ import {
   View,
 } from 'react-native';
 import { useIsFocused } from '@react-navigation/native';
+import { useRouter } from 'expo-router';
+import { Audio } from 'expo-av';
 import {
   Camera,
   useCameraDevice,
+  useCameraFormat,
   useCameraPermission,
   useMicrophonePermission,
-  VideoFile,
 } from 'react-native-vision-camera';
-import * as FileSystem from 'expo-file-system';
 
 // NOTE: keep RELATIVE imports
-import { addSession, RECORDINGS_DIR } from '../../modules/sessions/local';
-import { processAndSaveTranscript } from '../../modules/asr/local';
-
-// Small helpers
-const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
-// YYYYMMDD_HHMMSS
-function tsId(d = new Date()) {
-  const pad = (n: number) => String(n).padStart(2, '0');
-  return [
-    d.getFullYear(),
-    pad(d.getMonth() + 1),
-    pad(d.getDate()),
-  ].join('') + '_' + [pad(d.getHours()), pad(d.getMinutes()), pad(d.getSeconds())].join('');
+import {
+  addSession,
+  createSession,
+  getSession,
+  newSessionId,
+  sessionFilePath,
+  type MediaKind,
+} from '../../modules/sessions/local';
+import { enqueueSession, onQueueChange } from '../../modules/processing/queue';
+import { debriefReady } from '../../modules/debrief/local';
+import { createNudgeEngine, type Nudge } from '../../modules/nudge/engine';
+import { createBookmarkRecorder } from '../../modules/nudge/bookmarks';
+import { getCueSource } from '../../modules/nudge/cues';
+import { configureLiveWhisper } from '../../modules/nudge/whisper';
+import { writeSessionBookmarks } from '../../modules/nudge/local';
+import { updateSettings, useSettings, type VideoQuality } from '../../modules/settings/settings';
+import {
+  createRecordingController,
+  type RecorderState,
+  type RecordingController,
+} from '../../modules/recording/controller';
+import { getSelectedPromptId, setSelectedPromptId, useTemplates } from '../../modules/prompts/local';
+import { holdIdleLock } from '../../modules/lock/lock';
+import { levelFromDb, METERING_INTERVAL_MS } from '../../modules/waveform/peaks';
+import { saveWaveform } from '../../modules/waveform/local';
+import { NudgeBubble } from '../../components/NudgeBubble';
+import { PromptCard } from '../../components/PromptCard';
+import { WaveformBars } from '../../components/Waveform';
+
+const QUALITY: Record<VideoQuality, { width: number; height: number; bitRate: 'low' | 'normal' | 'high' }> = {
+  low: { width: 640, height: 480, bitRate: 'low' },
+  medium: { width: 1280, height: 720, bitRate: 'normal' },
+  high: { width: 1920, height: 1080, bitRate: 'high' },
+};
+
+const COUNTDOWN_SEC = 3;
+// bars in the live level meter (~5s at the metering interval)
+const LIVE_BARS = 48;
+const IDLE_STATE: RecorderState = { phase: 'idle', countdown: null, elapsedMs: 0, remainingMs: null, warning: false };
+
+function msToClock(ms: number) {
+  const s = Math.floor(ms / 1000);
+  return `${String(Math.floor(s / 60)).padStart(2, '0')}:${String(s % 60).padStart(2, '0')}`;
 }
 
 export default function RecordScreen() {
+  const { recording: recordingSettings } = useSettings();
+  const quality = QUALITY[recordingSettings.quality];
+  // audio-only: the camera stays off and only the mic is needed
+  const audioOnly = recordingSettings.audioOnly;
+
   // Permissions
   const { hasPermission: hasCameraPermission, requestPermission: requestCameraPermission } = useCameraPermission();
   const { hasPermission: hasMicPermission, requestPermission: requestMicPermission } = useMicrophonePermission();
 
-  useEffect(() => {
-    (async () => {
-      if (!hasCameraPermission) await requestCameraPermission();
-      if (!hasMicPermission) await requestMicPermission();
-    })();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
-
   const requestAll = async () => {
-    if (!hasCameraPermission) await requestCameraPermission();
+    if (!audioOnly && !hasCameraPermission) await requestCameraPermission();
     if (!hasMicPermission) await requestMicPermission();
   };
 
+  useEffect(() => {
+    requestAll();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [audioOnly]);
+
   // Devices
   const front = useCameraDevice('front');
   const back = useCameraDevice('back');
-  const [position, setPosition] = useState<'front' | 'back'>(back ? 'back' : 'front');
+  const [position, setPosition] = useState<'front' | 'back'>(recordingSettings.cameraPosition);
+  useEffect(() => {
+    setPosition(recordingSettings.cameraPosition);
+  }, [recordingSettings.cameraPosition]);
   useEffect(() => {
     if (!back && front) setPosition('front');
     if (!front && back) setPosition('back');
   }, [front, back]);
   const device = position === 'front' ? front : back;
+  const format = useCameraFormat(device, [{ videoResolution: { width: quality.width, height: quality.height } }]);
 
   // Control
   const cameraRef = useRef<Camera>(null);
   const isFocused = useIsFocused();
 
   // State
-  const [isRecording, setIsRecording] = useState(false);
-  const [isProcessing, setIsProcessing] = useState(false);
+  const [recorder, setRecorder] = useState<RecorderState>(IDLE_STATE);
+  const controllerRef = useRef<RecordingController | null>(null);
+  const isRecording = recorder.phase === 'recording' || recorder.phase === 'paused' || recorder.phase === 'stopping';
   const [lastVideoPath, setLastVideoPath] = useState<string | null>(null);
   const [lastError, setLastError] = useState<string | null>(null);
-  const startedAtRef = useRef<number | null>(null);
+
+  // a hands-off recording must not trip the idle lock over the Record screen
+  const recorderActive = recorder.phase !== 'idle';
+  useEffect(() => (recorderActive ? holdIdleLock() : undefined), [recorderActive]);
+
+  // Audio-only recording and the levels metered for its waveform
+  const audioRef = useRef<Audio.Recording | null>(null);
+  const levelsRef = useRef<number[]>([]);
+  const [liveLevels, setLiveLevels] = useState<number[]>([]);
+
+  useEffect(
+    () => () => {
+      controllerRef.current?.dispose();
+      audioRef.current?.stopAndUnloadAsync().catch((e) => console.warn('[Record] audio not stopped:', e));
+    },
+    []
+  );
+
+  // Debrief opens once the last recording has been through the rules
+  const router = useRouter();
+  const [pendingDebrief, setPendingDebrief] = useState<string | null>(null);
+  const [debriefId, setDebriefId] = useState<string | null>(null);
+  useEffect(() => {
+    if (!pendingDebrief) return;
+    return onQueueChange(async (id) => {
+      if (id !== pendingDebrief) return;
+      const s = await getSession(id);
+      if (!s || !debriefReady(s)) return;
+      setPendingDebrief(null);
+      setDebriefId(id);
+    });
+  }, [pendingDebrief]);
+  useEffect(() => {
+    if (!debriefId || !isFocused || isRecording) return;
+    setDebriefId(null);
+    router.push({ pathname: '/debrief/[id]', params: { id: debriefId } });
+  }, [debriefId, isFocused, isRecording, router]);
+
+  // Live nudges + bookmarks, both on the recording clock
+  const nudgesRef = useRef(createNudgeEngine());
+  const bookmarksRef = useRef(createBookmarkRecorder(writeSessionBookmarks));
+  const [nudge, setNudge] = useState<Nudge | null>(null);
+  const [bookmarkCount, setBookmarkCount] = useState(0);
+
+  // Journaling prompt shown over the preview; its id is saved on the session
+  const templates = useTemplates();
+  const [promptId, setPromptId] = useState(getSelectedPromptId);
+  const [promptStep, setPromptStep] = useState(0);
+  const template = templates.find((t) => t.id === promptId);
+  const selectPrompt = (id: string | null) => {
+    setPromptId(id);
+    setSelectedPromptId(id);
+    setPromptStep(0);
+  };
+  const dismissNudge = useCallback(() => setNudge(null), []);
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const engine = nudgesRef.current;
+    engine.reset();
+    const controller = controllerRef.current;
+    const elapsed = () => controller?.elapsedMs() ?? 0;
+    const paused = () => controller?.state().phase === 'paused';
+    const show = (n: Nudge | null) => n && setNudge(n);
+
+    let tick: ReturnType<typeof setInterval> | undefined;
+    let stopSource: (() => Promise<void>) | null = null;
+    let cancelled = false;
+    configureLiveWhisper()
+      // re-stamped on the controller's clock: the source's own keeps running while paused
+      .then(() => getCueSource()?.start((cue) => !paused() && show(engine.push({ ...cue, t_ms: elapsed() }))))
+      .then((stop) => {
+        if (!stop) return;
+        if (cancelled) {
+          stop();
+          return;
+        }
+        stopSource = stop;
+        // silence only means something while a source is listening for speech
+        tick = setInterval(() => !paused() && show(engine.push({ type: 'tick', t_ms: elapsed() })), 1_000);
+      })
+      .catch((e) => console.warn('[Nudge] cue source failed to start:', e));
+
+    return () => {
+      cancelled = true;
+      clearInterval(tick);
+      stopSource?.().catch((e) => console.warn('[Nudge] cue source failed to stop:', e));
+      setNudge(null);
+    };
+  }, [isRecording]);
+
+  const addBookmark = () => {
+    if (!controllerRef.current || !isRecording) return;
+    bookmarksRef.current.add(controllerRef.current.elapsedMs(), nudge?.text);
+    setBookmarkCount(bookmarksRef.current.list().length);
+  };
 
   const togglePosition = () =>
     setPosition((p) => (p === 'front' ? 'back' : 'front'));
 
-  async function ensureDir() {
-    const info = await FileSystem.getInfoAsync(RECORDINGS_DIR);
-    if (!info.exists) {
-      await FileSystem.makeDirectoryAsync(RECORDINGS_DIR, { intermediates: true });
+  /**
+   * Register the session and hand the copy/ASR work to the processing queue.
+   * Returns the final file:// path the queue will persist the recording to.
+   */
+  async function queueRecordingAsync(args: {
+    sourcePath: string;
+    mediaKind: MediaKind;
+    createdAt: Date;
+    durationMs?: number;
+    levels?: number[];
+  }) {
+    const { mediaKind, createdAt, durationMs, levels } = args;
+    const id = newSessionId(createdAt.getTime());
+    const dst = sessionFilePath(id, mediaKind);
+    const src = args.sourcePath.startsWith('file://') ? args.sourcePath : `file://${args.sourcePath}`;
+
+    const session = await createSession({
+      id,
+      videoPath: dst,
+      createdAt: createdAt.getTime(),
+      durationMs,
+      promptId: template?.id,
+      ...(mediaKind === 'audio' ? { mediaKind } : { devicePosition: position }),
+      status: 'queued',
+      stage: 'persist',
+    });
+    console.log('[Record] createSession →', session);
+
+    // written once the row exists, so a failed insert leaves no orphan file;
+    // the list falls back to a placeholder, so a missing waveform is not a failure
+    if (levels?.length) {
+      try {
+        const waveformPath = await saveWaveform({ waveformPath: sessionFilePath(id, 'waveform'), levels, durationMs });
+        await addSession({ id, waveformPath });
+      } catch (e) {
+        console.warn('[Record] waveform not saved:', e);
+      }
+    }
+
+    try {
+      await bookmarksRef.current.flush(id);
+    } catch (e) {
+      console.warn('[Record] bookmarks not saved:', e);
     }
-  }
 
-  async function persistVideoAsync(video: VideoFile, createdAt: Date) {
-    await ensureDir();
-    const base = `${tsId(createdAt)}_session.mp4`;
-    const dst = `${RECORDINGS_DIR}/${base}`;
-    const src = video.path.startsWith('file://') ? video.path : `file://${video.path}`;
-    await FileSystem.copyAsync({ from: src, to: dst });
-    return dst; // file://...
+    setPendingDebrief(id);
+    await enqueueSession(id, { sourcePath: src });
+    return dst;
   }
 
-  const startRecording = async () => {
-    try {
-      if (!cameraRef.current || !device) return;
-      setIsRecording(true);
-      setIsProcessing(false);
-      setLastVideoPath(null);
-      setLastError(null);
-      startedAtRef.current = Date.now();
-
-      await cameraRef.current.startRecording({
+  /** vision-camera calls, driven by the recording controller */
+  const cameraDriver = {
+    start: async () => {
+      await cameraRef.current!.startRecording({
         fileType: 'mp4',
         flash: 'off',
         onRecordingFinished: async (video) => {
+          const measured = controllerRef.current?.finished();
           try {
             const createdAt = new Date();
-            const createdAtMs = createdAt.getTime();
-            const durationMs =
-              startedAtRef.current != null ? Date.now() - startedAtRef.current : undefined;
+            // the file's own duration; the controller's clock (pauses excluded) as a fallback
+            const durationMs = video.duration > 0 ? Math.round(video.duration * 1000) : measured;
 
-            // 1) Persist the video
-            const saved = await persistVideoAsync(video, createdAt);
+            // Copy, transcription and analysis run in the background queue
+            const saved = await queueRecordingAsync({ sourcePath: video.path, mediaKind: 'video', createdAt, durationMs });
             setLastVideoPath(saved);
-            console.log('[Record] Saved MP4 →', saved);
-
-            // 2) Upsert into index immediately (so Videos can see it)
-            const id = tsId(createdAt);
-            const first = await addSession({
-              id,
-              videoPath: saved,
-              createdAt: createdAtMs,
-              durationMs,
-              devicePosition: position,
-            });
-            console.log('[Record] addSession (pre-ASR) →', first);
-
-            // 3) Yield a frame so the overlay can appear
-            setIsProcessing(true);
-            await sleep(16); // ~1 frame
-
-            // 4) Produce a stub transcript next to the MP4 (ASR day’s placeholder)
-            const transcriptPath = await processAndSaveTranscript({
-              videoPath: saved,
-              durationMs,
-              devicePosition: position,
-            });
-            console.log('[Record] transcript saved →', transcriptPath);
-
-            // 5) Update the index with transcript path
-            const second = await addSession({
-              id,
-              videoPath: saved,
-              createdAt: createdAtMs,
-              durationMs,
-              devicePosition: position,
-              transcriptPath,
-            });
-            console.log('[Record] addSession (with transcript) →', second);
-
-            // (Optional) Log where the index lives for diagnostics
-            const indexPath = `${RECORDINGS_DIR}/index.json`;
-            console.log('[Record] index.json →', indexPath);
+            console.log('[Record] queued for processing →', saved);
           } catch (e: any) {
             console.error(e);
             setLastError(String(e?.message ?? e));
-            Alert.alert('Save/Process failed', String(e?.message ?? e));
-          } finally {
-            setIsRecording(false);
-            setIsProcessing(false);
-            startedAtRef.current = null;
+            Alert.alert('Save failed', String(e?.message ?? e));
           }
         },
         onRecordingError: (error) => {
-          setIsRecording(false);
-          setIsProcessing(false);
-          startedAtRef.current = null;
+          controllerRef.current?.finished();
           console.error(error);
           setLastError(String(error?.message ?? error));
           Alert.alert('Recording error', String(error?.message ?? error));
         },
       });
+    },
+    stop: async () => {
+      try {
+        await cameraRef.current?.stopRecording();
+      } catch (e) {
+        console.warn('stopRecording error (ignored):', e);
+      }
+    },
+    pause: () => cameraRef.current!.pauseRecording(),
+    resume: () => cameraRef.current!.resumeRecording(),
+  };
+
+  /** expo-av microphone calls for audio-only mode, same contract as the camera's */
+  const audioDriver = {
+    start: async () => {
+      const perm = await Audio.requestPermissionsAsync();
+      if (!perm.granted) throw new Error('Microphone permission denied');
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: true, playsInSilentModeIOS: true });
+      levelsRef.current = [];
+      setLiveLevels([]);
+      const rec = new Audio.Recording();
+      rec.setProgressUpdateInterval(METERING_INTERVAL_MS);
+      rec.setOnRecordingStatusUpdate((status) => {
+        // no reading where the recorder cannot meter; with none at all the
+        // session just gets no waveform
+        if (!status.isRecording || status.metering == null) return;
+        levelsRef.current.push(levelFromDb(status.metering));
+        setLiveLevels(levelsRef.current.slice(-LIVE_BARS));
+      });
+      await rec.prepareToRecordAsync({ ...Audio.RecordingOptionsPresets.HIGH_QUALITY, isMeteringEnabled: true });
+      await rec.startAsync();
+      audioRef.current = rec;
+    },
+    stop: async () => {
+      const rec = audioRef.current;
+      audioRef.current = null;
+      if (!rec) return;
+      let measured: number | undefined;
+      try {
+        const status = await rec.stopAndUnloadAsync();
+        measured = controllerRef.current?.finished();
+        await Audio.setAudioModeAsync({ allowsRecordingIOS: false });
+        const uri = rec.getURI();
+        if (!uri) throw new Error('The recording produced no file');
+        const createdAt = new Date();
+        // the recorder's own duration; the controller's clock (pauses excluded) as a fallback
+        const durationMs = status.durationMillis > 0 ? status.durationMillis : measured;
+
+        const saved = await queueRecordingAsync({
+          sourcePath: uri,
+          mediaKind: 'audio',
+          createdAt,
+          durationMs,
+          levels: levelsRef.current,
+        });
+        setLastVideoPath(saved);
+        console.log('[Record] queued for processing →', saved);
+      } catch (e: any) {
+        if (measured == null) controllerRef.current?.finished();
+        console.error(e);
+        setLastError(String(e?.message ?? e));
+        Alert.alert('Save failed', String(e?.message ?? e));
+      }
+    },
+    pause: async () => {
+      await audioRef.current!.pauseAsync();
+    },
+    resume: async () => {
+      await audioRef.current!.startAsync();
+    },
+  };
+
+  const startRecording = async () => {
+    if (recorder.phase !== 'idle') return;
+    if (!audioOnly && (!cameraRef.current || !device)) return;
+    setLastVideoPath(null);
+    setLastError(null);
+    bookmarksRef.current.clear();
+    setPromptStep(0);
+    setBookmarkCount(0);
+
+    controllerRef.current?.dispose();
+    const controller = createRecordingController(audioOnly ? audioDriver : cameraDriver, setRecorder, {
+      maxLengthMs: recordingSettings.maxLengthMs,
+      countdownSec: recordingSettings.countdown ? COUNTDOWN_SEC : 0,
+    });
+    controllerRef.current = controller;
+    try {
+      await controller.begin();
     } catch (e: any) {
-      setIsRecording(false);
-      setIsProcessing(false);
-      startedAtRef.current = null;
       setLastError(String(e?.message ?? e));
       Alert.alert('Could not start recording', String(e?.message ?? e));
     }
   };
 
-  const stopRecording = async () => {
+  const stopRecording = () => controllerRef.current?.stop();
+
+  const togglePause = async () => {
+    const controller = controllerRef.current;
     try {
-      await cameraRef.current?.stopRecording();
-    } catch (e) {
-      console.warn('stopRecording error (ignored):', e);
+      if (recorder.phase === 'paused') await controller?.resume();
+      else await controller?.pause();
+    } catch (e: any) {
+      // not every device/codec supports pausing
+      Alert.alert('Pause unavailable', String(e?.message ?? e));
     }
   };
 
-  if (!hasCameraPermission || !hasMicPermission) {
+  const toggleAudioOnly = () => updateSettings('recording', { audioOnly: !audioOnly });
+
+  if ((!audioOnly && !hasCameraPermission) || !hasMicPermission) {
     return (
       <View style={styles.center}>
         <Text style={styles.title}>Permissions needed</Text>
         <Text style={styles.mono}>
-          Camera: {hasCameraPermission ? 'granted' : 'missing'} · Mic:{' '}
+          {audioOnly ? '' : `Camera: ${hasCameraPermission ? 'granted' : 'missing'} · `}Mic:{' '}
           {hasMicPermission ? 'granted' : 'missing'}
         </Text>
         <Pressable style={styles.primaryBtn} onPress={requestAll}>
-          <Text style={styles.primaryText}>Grant Camera & Mic</Text>
+          <Text style={styles.primaryText}>{audioOnly ? 'Grant Mic' : 'Grant Camera & Mic'}</Text>
         </Pressable>
+        {!audioOnly && !hasCameraPermission && (
+          <Pressable style={styles.secondaryBtn} onPress={toggleAudioOnly}>
+            <Text style={styles.secondaryText}>Record audio only</Text>
+          </Pressable>
+        )}
       </View>
     );
   }
 
-  if (!front && !back) {
+  if (!audioOnly && !front && !back) {
     return (
       <View style={styles.center}>
         <ActivityIndicator />
@@ -216,11 +431,19 @@ export default function RecordScreen() {
 
   return (
     <View style={styles.container}>
-      {isFocused && device ? (
+      {audioOnly ? (
+        <View style={styles.audioStage}>
+          <Text style={styles.audioIcon}>♪</Text>
+          <WaveformBars peaks={isRecording ? liveLevels : []} style={styles.liveMeter} />
+          <Text style={styles.mono}>Audio only — the camera is off.</Text>
+        </View>
+      ) : isFocused && device ? (
         <Camera
           ref={cameraRef}
           style={StyleSheet.absoluteFill}
           device={device}
+          format={format}
+          videoBitRate={quality.bitRate}
           isActive
           video
           audio
@@ -235,34 +458,96 @@ export default function RecordScreen() {
         </View>
       )}
 
-      <View style={styles.controls}>
-        <Pressable
-          style={styles.secondaryBtn}
-          onPress={togglePosition}
-          disabled={!front || !back}
-        >
-          <Text
-            style={[
-              styles.secondaryText,
-              (!front || !back) && { opacity: 0.5 },
-            ]}
-          >
-            {position === 'front' ? 'Switch to Back Camera' : 'Switch to Front Camera'}
-          </Text>
+      {recorder.phase === 'countdown' && (
+        <Pressable style={styles.countdown} onPress={() => controllerRef.current?.cancel()}>
+          <Text style={styles.countdownText}>{recorder.countdown}</Text>
+          <Text style={styles.secondaryText}>Tap to cancel</Text>
         </Pressable>
+      )}
 
-        {isRecording ? (
-          <Pressable style={[styles.primaryBtn, styles.stopBtn]} onPress={stopRecording}>
-            <Text style={styles.primaryText}>Stop Recording</Text>
+      <NudgeBubble nudge={nudge} onDismiss={dismissNudge} />
+
+      <View style={styles.controls}>
+        {recorder.phase !== 'countdown' && (
+          <PromptCard
+            templates={templates}
+            template={template}
+            step={promptStep}
+            onStep={setPromptStep}
+            onSelect={selectPrompt}
+            locked={recorder.phase !== 'idle'}
+          />
+        )}
+
+        {isRecording && (
+          <View style={[styles.clock, recorder.warning && styles.clockWarning]}>
+            <Text style={styles.clockText}>
+              {recorder.phase === 'paused' ? 'Paused' : '● REC'} {msToClock(recorder.elapsedMs)}
+            </Text>
+            {recorder.remainingMs != null && (
+              <Text style={styles.clockSub}>
+                {recorder.warning
+                  ? `Stopping in ${Math.ceil(recorder.remainingMs / 1000)}s`
+                  : `${msToClock(recorder.remainingMs)} left`}
+              </Text>
+            )}
+          </View>
+        )}
+
+        <View style={styles.recordingRow}>
+          <Pressable style={styles.secondaryBtn} onPress={toggleAudioOnly} disabled={recorder.phase !== 'idle'}>
+            <Text style={[styles.secondaryText, recorder.phase !== 'idle' && { opacity: 0.5 }]}>
+              {audioOnly ? 'Record Video' : 'Audio Only'}
+            </Text>
           </Pressable>
+          {!audioOnly && (
+            <Pressable
+              style={styles.secondaryBtn}
+              onPress={togglePosition}
+              disabled={!front || !back}
+            >
+              <Text
+                style={[
+                  styles.secondaryText,
+                  (!front || !back) && { opacity: 0.5 },
+                ]}
+              >
+                {position === 'front' ? 'Switch to Back Camera' : 'Switch to Front Camera'}
+              </Text>
+            </Pressable>
+          )}
+        </View>
+
+        {isRecording ? (
+          <View style={styles.recordingRow}>
+            <Pressable style={styles.secondaryBtn} onPress={addBookmark}>
+              <Text style={styles.secondaryText}>
+                Bookmark{bookmarkCount ? ` (${bookmarkCount})` : ''}
+              </Text>
+            </Pressable>
+            <Pressable
+              style={styles.secondaryBtn}
+              onPress={togglePause}
+              disabled={recorder.phase === 'stopping'}
+            >
+              <Text style={styles.secondaryText}>{recorder.phase === 'paused' ? 'Resume' : 'Pause'}</Text>
+            </Pressable>
+            <Pressable
+              style={[styles.primaryBtn, styles.stopBtn]}
+              onPress={stopRecording}
+              disabled={recorder.phase === 'stopping'}
+            >
+              <Text style={styles.primaryText}>{recorder.phase === 'stopping' ? 'Saving…' : 'Stop'}</Text>
+            </Pressable>
+          </View>
         ) : (
           <Pressable
             style={styles.primaryBtn}
             onPress={startRecording}
-            disabled={!device}
+            disabled={(!audioOnly && !device) || recorder.phase !== 'idle'}
           >
-            <Text style={[styles.primaryText, !device && { opacity: 0.5 }]}>
-              Start Recording
+            <Text style={[styles.primaryText, !audioOnly && !device && { opacity: 0.5 }]}>
+              {audioOnly ? 'Start Audio Recording' : 'Start Recording'}
             </Text>
           </Pressable>
         )}
@@ -273,7 +558,7 @@ export default function RecordScreen() {
               Saved: {lastVideoPath.replace('file://', '')}
             </Text>
             <Text style={[styles.mono, { opacity: 0.7 }]}>
-              Transcript JSON will be created next to the MP4.
+              Processing in the background — your debrief opens when it&apos;s ready.
             </Text>
           </View>
         )}
@@ -284,13 +569,6 @@ export default function RecordScreen() {
           </Text>
         )}
       </View>
-
-      {isProcessing && (
-        <View style={styles.processing}>
-          <ActivityIndicator size="large" />
-          <Text style={styles.processingText}>Processing your entry…</Text>
-        </View>
-      )}
     </View>
   );
 }
@@ -323,14 +601,33 @@ const styles = StyleSheet.create({
   },
   secondaryText: { color: 'white' },
   stopBtn: { backgroundColor: '#b00020' },
+  recordingRow: { flexDirection: 'row', alignItems: 'center', gap: 10 },
   lastRow: { marginTop: 6, width: '100%' },
   mono: { color: 'white', opacity: 0.85, textAlign: 'center' },
-  processing: {
+  clock: {
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: '#00000099',
+  },
+  clockWarning: { backgroundColor: '#b00020cc' },
+  clockText: { color: 'white', fontWeight: '700', fontVariant: ['tabular-nums'] },
+  clockSub: { color: 'white', opacity: 0.85, fontSize: 12 },
+  countdown: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#00000066',
+  },
+  countdownText: { color: 'white', fontSize: 96, fontWeight: '800' },
+  audioStage: {
     ...StyleSheet.absoluteFillObject,
-    backgroundColor: 'rgba(0,0,0,0.55)',
     alignItems: 'center',
     justifyContent: 'center',
-    gap: 12,
+    gap: 16,
+    backgroundColor: '#1d3b47',
   },
-  processingText: { color: '#fff', fontSize: 16, fontWeight: '600' },
+  audioIcon: { color: '#ffffff88', fontSize: 64 },
+  liveMeter: { width: '80%', height: 80 },
 });
@@ -0,0 +1,329 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Pressable, ScrollView, StyleSheet, Switch, Text, TextInput, View, type AlertButton } from 'react-native';
+import { listAsrEngines } from '../../modules/asr/engine';
+import { clearPasscode, IDLE_TIMEOUT_CHOICES_MS, setLockConfig, setPasscode, useAppLock } from '../../modules/lock/lock';
+import {
+  MAX_LENGTH_CHOICES_MS,
+  RETENTION_CHOICES_DAYS,
+  updateSettings,
+  useSettings,
+  VIDEO_QUALITIES,
+  type Settings,
+  type SettingsSection,
+} from '../../modules/settings/settings';
+import { setSyncConfig } from '../../modules/sync/config';
+import { deleteOrphans, reconcileRecordings, type ReconcileReport } from '../../modules/sessions/reconcile';
+import { BackupPanel } from '../../components/BackupPanel';
+import { PromptTemplatesPanel } from '../../components/PromptTemplatesPanel';
+
+function minutesLabel(ms: number) {
+  if (!ms) return 'No limit';
+  return ms < 60_000 ? `${ms / 1000} s` : `${ms / 60_000} min`;
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      <View style={styles.card}>{children}</View>
+    </View>
+  );
+}
+
+function Row({ label, hint, children }: { label: string; hint?: string; children?: React.ReactNode }) {
+  return (
+    <View style={styles.row}>
+      <View style={{ flex: 1 }}>
+        <Text style={styles.label}>{label}</Text>
+        {hint && <Text style={styles.hint}>{hint}</Text>}
+      </View>
+      {children}
+    </View>
+  );
+}
+
+function Choices<T extends string | number>({
+  options,
+  value,
+  label,
+  onChange,
+}: {
+  options: readonly T[];
+  value: T;
+  label: (v: T) => string;
+  onChange: (v: T) => void;
+}) {
+  return (
+    <View style={styles.choices}>
+      {options.map((o) => (
+        <Pressable key={String(o)} style={[styles.choice, o === value && styles.choiceActive]} onPress={() => onChange(o)}>
+          <Text style={[styles.choiceText, o === value && styles.choiceTextActive]}>{label(o)}</Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+function describe(r: ReconcileReport) {
+  const lines = [`Checked ${r.scanned} files.`];
+  if (r.restored.length) lines.push(`Recovered ${r.restored.length} recording(s) missing from the list.`);
+  if (r.linked.length) lines.push(`Re-linked ${r.linked.length} transcript/analysis file(s).`);
+  if (r.unlinked.length) lines.push(`Cleared ${r.unlinked.length} link(s) to missing files.`);
+  if (r.damaged.length) lines.push(`Damaged: ${r.damaged.map((d) => `${d.name} (${d.problem})`).join(', ')}`);
+  if (r.orphans.length) lines.push(`${r.orphans.length} file(s) belong to no recording.`);
+  if (lines.length === 1) lines.push('Everything is in order.');
+  return lines.join('\n');
+}
+
+function IntegrityCheck() {
+  const [busy, setBusy] = useState(false);
+
+  async function run() {
+    setBusy(true);
+    try {
+      const report = await reconcileRecordings({ deep: true });
+      const buttons: AlertButton[] = [{ text: 'OK' }];
+      if (report.orphans.length) {
+        buttons.unshift({
+          text: 'Delete stray files',
+          style: 'destructive',
+          onPress: () => deleteOrphans(report.orphans).catch((e) => Alert.alert('Not deleted', String(e?.message ?? e))),
+        });
+      }
+      Alert.alert('Recordings check', describe(report), buttons);
+    } catch (e: any) {
+      Alert.alert('Check failed', String(e?.message ?? e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Row label="Check recordings" hint="Finds recordings missing from the list and damaged files.">
+      <Pressable style={styles.smallBtn} onPress={run} disabled={busy}>
+        <Text style={styles.smallBtnText}>{busy ? 'Checking…' : 'Check'}</Text>
+      </Pressable>
+    </Row>
+  );
+}
+
+// Surface validation errors from the settings schema instead of crashing.
+function save(fn: () => void) {
+  try {
+    fn();
+  } catch (e: any) {
+    Alert.alert('Not saved', String(e?.message ?? e));
+  }
+}
+
+function update<K extends SettingsSection>(section: K, patch: Partial<Settings[K]>) {
+  save(() => updateSettings(section, patch));
+}
+
+export default function SettingsScreen() {
+  const settings = useSettings();
+  const { config: lockConfig } = useAppLock();
+  const [serverUrl, setServerUrl] = useState(settings.sync.serverUrl);
+  const [newPasscode, setNewPasscode] = useState<string | null>(null);
+
+  useEffect(() => setServerUrl(settings.sync.serverUrl), [settings.sync.serverUrl]);
+
+  // Whisper is registered only by builds that bundle a model and an audio
+  // decoder (see modules/asr/whisper); elsewhere it is not offered
+  const whisperReady = listAsrEngines().includes('whisper');
+
+  async function savePasscode() {
+    try {
+      await setPasscode(newPasscode ?? '');
+      setNewPasscode(null);
+    } catch (e: any) {
+      Alert.alert('Passcode not set', String(e?.message ?? e));
+    }
+  }
+
+  function toggleLock(on: boolean) {
+    if (on || !lockConfig.enabled) {
+      setNewPasscode(on ? '' : null);
+      return;
+    }
+    Alert.alert('Turn off app lock?', 'Your passcode will be forgotten.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Turn off', style: 'destructive', onPress: () => clearPasscode() },
+    ]);
+  }
+
+  function chooseRetention(keepDays: number) {
+    if (!keepDays || (settings.retention.keepDays && keepDays > settings.retention.keepDays)) {
+      update('retention', { keepDays });
+      return;
+    }
+    Alert.alert(
+      'Delete old recordings?',
+      `Recordings older than ${keepDays} days, with their transcripts and debriefs, will be deleted from this device the next time Mirror starts.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Keep for ' + keepDays + ' days', style: 'destructive', onPress: () => update('retention', { keepDays }) },
+      ]
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+      <Text style={styles.heading}>Settings</Text>
+
+      <Section title="Recording">
+        <Row label="Default camera" />
+        <Choices
+          options={['front', 'back'] as const}
+          value={settings.recording.cameraPosition}
+          label={(v) => (v === 'front' ? 'Front' : 'Back')}
+          onChange={(cameraPosition) => update('recording', { cameraPosition })}
+        />
+        <Row label="Maximum length" hint="Recording stops on its own after this long, with a warning 30 seconds before." />
+        <Choices
+          options={MAX_LENGTH_CHOICES_MS}
+          value={settings.recording.maxLengthMs}
+          label={minutesLabel}
+          onChange={(maxLengthMs) => update('recording', { maxLengthMs })}
+        />
+        <Row label="Video quality" hint="Lower quality uses less storage." />
+        <Choices
+          options={VIDEO_QUALITIES}
+          value={settings.recording.quality}
+          label={(v) => ({ low: '480p', medium: '720p', high: '1080p' })[v]}
+          onChange={(quality) => update('recording', { quality })}
+        />
+        <Row label="3-2-1 countdown" hint="Count down before capture starts.">
+          <Switch value={settings.recording.countdown} onValueChange={(countdown) => update('recording', { countdown })} />
+        </Row>
+      </Section>
+
+      <Section title="Journaling prompts">
+        <PromptTemplatesPanel />
+      </Section>
+
+      <Section title="Transcription">
+        <Row
+          label="Speech recognition"
+          hint={
+            whisperReady
+              ? 'Runs on this device.'
+              : 'Not available in this build; recordings are saved without a transcript.'
+          }
+        />
+        {whisperReady && (
+          <Choices
+            options={['whisper', 'stub'] as const}
+            value={settings.asr.engine}
+            label={(v) => (v === 'whisper' ? 'Whisper' : 'Off')}
+            onChange={(engine) => update('asr', { engine })}
+          />
+        )}
+      </Section>
+
+      <Section title="Sync">
+        <Row label="Upload to my server" hint="Only encrypted files leave the device.">
+          <Switch value={settings.sync.enabled} onValueChange={(enabled) => save(() => setSyncConfig({ enabled }))} />
+        </Row>
+        <TextInput
+          style={styles.input}
+          value={serverUrl}
+          onChangeText={setServerUrl}
+          onEndEditing={() => serverUrl !== settings.sync.serverUrl && save(() => setSyncConfig({ serverUrl: serverUrl.trim() }))}
+          placeholder="https://your-server.example"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+        />
+      </Section>
+
+      <Section title="App lock">
+        <Row label="Require passcode">
+          <Switch value={lockConfig.enabled || newPasscode != null} onValueChange={toggleLock} />
+        </Row>
+        {newPasscode != null && (
+          <View style={styles.passcodeRow}>
+            <TextInput
+              style={[styles.input, { flex: 1 }]}
+              value={newPasscode}
+              onChangeText={(t) => setNewPasscode(t.replace(/\D/g, '').slice(0, 8))}
+              placeholder="4–8 digits"
+              keyboardType="number-pad"
+              secureTextEntry
+              autoFocus
+            />
+            <Pressable style={styles.smallBtn} onPress={() => setNewPasscode(null)}>
+              <Text style={styles.smallBtnText}>Cancel</Text>
+            </Pressable>
+            <Pressable style={[styles.smallBtn, styles.smallBtnPrimary]} onPress={savePasscode}>
+              <Text style={[styles.smallBtnText, { color: '#fff' }]}>Set</Text>
+            </Pressable>
+          </View>
+        )}
+        {lockConfig.enabled && (
+          <>
+            <Row label="Face / Touch ID">
+              <Switch value={lockConfig.biometrics} onValueChange={(biometrics) => save(() => setLockConfig({ biometrics }))} />
+            </Row>
+            <Row label="Allow recording while locked" hint="The Record tab stays usable; your archive does not.">
+              <Switch value={lockConfig.recordOnly} onValueChange={(recordOnly) => save(() => setLockConfig({ recordOnly }))} />
+            </Row>
+            <Row label="Lock after" />
+            <Choices
+              options={IDLE_TIMEOUT_CHOICES_MS}
+              value={lockConfig.idleTimeoutMs}
+              label={minutesLabel}
+              onChange={(idleTimeoutMs) => save(() => setLockConfig({ idleTimeoutMs }))}
+            />
+          </>
+        )}
+      </Section>
+
+      <Section title="Data retention">
+        <Row label="Keep recordings" hint="Older recordings are deleted from this device on launch." />
+        <Choices
+          options={RETENTION_CHOICES_DAYS}
+          value={settings.retention.keepDays}
+          label={(d) => (d ? (d === 365 ? '1 year' : `${d} days`) : 'Forever')}
+          onChange={chooseRetention}
+        />
+      </Section>
+
+      <Section title="Storage">
+        <IntegrityCheck />
+      </Section>
+
+      <Section title="Backup">
+        <BackupPanel />
+      </Section>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { paddingTop: 56, paddingHorizontal: 12, paddingBottom: 96, gap: 16 },
+  heading: { fontSize: 26, fontWeight: '700', color: '#333' },
+  section: { gap: 6 },
+  sectionTitle: { fontSize: 13, fontWeight: '600', color: '#888', textTransform: 'uppercase', marginLeft: 4 },
+  card: { backgroundColor: '#fff', borderRadius: 12, padding: 12, gap: 10, elevation: 2 },
+  row: { flexDirection: 'row', alignItems: 'center', gap: 12 },
+  label: { color: '#333', fontWeight: '500' },
+  hint: { color: '#888', fontSize: 12, marginTop: 2 },
+  choices: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  choice: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 999, backgroundColor: '#eef2ff' },
+  choiceActive: { backgroundColor: '#0a7ea4' },
+  choiceText: { color: '#0a7ea4', fontWeight: '600' },
+  choiceTextActive: { color: '#fff' },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: '#fff',
+  },
+  passcodeRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  smallBtn: { paddingHorizontal: 14, paddingVertical: 10, borderRadius: 10, backgroundColor: '#eef0f3' },
+  smallBtnPrimary: { backgroundColor: '#0a7ea4' },
+  smallBtnText: { fontWeight: '600', color: '#333' },
+});
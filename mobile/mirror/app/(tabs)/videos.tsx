@@ -1,7 +1,40 @@
-import React, { useEffect, useState } from 'react';
-import { View, Text, StyleSheet, FlatList } from 'react-native';
-import { Video, ResizeMode } from 'expo-av';
-import { listSessions, type Session } from '../../modules/sessions/local';
+import React, { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, FlatList, Pressable, Alert, ScrollView } from 'react-native';
+import { useRouter } from 'expo-router';
+import {
+  deleteSession,
+  listSessions,
+  updateSessionMeta,
+  DELETE_UNDO_MS,
+  type Session,
+  type SessionMeta,
+} from '../../modules/sessions/local';
+import { onQueueChange, retrySession } from '../../modules/processing/queue';
+import { debriefReady } from '../../modules/debrief/local';
+import { saveSessionToLibrary } from '../../modules/library/library';
+import { SessionMetaEditor } from '../../components/SessionMetaEditor';
+import { SessionThumbnail } from '../../components/SessionThumbnail';
+import { SessionWaveform } from '../../components/Waveform';
+import { CalendarMonth } from '../../components/CalendarMonth';
+import {
+  groupByDay,
+  periodRange,
+  shiftPeriod,
+  type DaySummary,
+  type Period,
+} from '../../modules/calendar/days';
+
+// Rows have a fixed height so the list can skip measuring (getItemLayout)
+const CARD_HEIGHT = 112;
+const CARD_GAP = 12;
+const ROW_HEIGHT = CARD_HEIGHT + CARD_GAP;
+const DAY_HEADER_HEIGHT = 36;
+const LIST_PADDING = 12;
+
+type Scope = 'all' | Period;
+type ListRow =
+  | { type: 'day'; key: string; day: DaySummary<Session> }
+  | { type: 'session'; key: string; session: Session };
 
 function msToClock(ms?: number) {
   if (!ms || ms <= 0) return '—';
@@ -11,6 +44,19 @@ function msToClock(ms?: number) {
   return `${String(mm).padStart(2, '0')}:${String(ss).padStart(2, '0')}`;
 }
 
+function statusLabel(s: Session) {
+  switch (s.status) {
+    case 'queued':
+      return s.stage === 'persist' ? 'Saving…' : 'Queued';
+    case 'processing':
+      return s.stage === 'transcribe' ? 'Transcribing…' : s.stage === 'persist' ? 'Saving…' : 'Processing…';
+    case 'failed':
+      return 'Failed · tap to retry';
+    default:
+      return null;
+  }
+}
+
 function basename(uri: string) {
   try {
     return decodeURIComponent(uri.split('/').pop() ?? uri);
@@ -19,7 +65,75 @@ function basename(uri: string) {
   }
 }
 
+function dayLabel(day: DaySummary) {
+  const date = new Date(day.start).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+  const n = day.sessions.length;
+  const minutes = Math.round(day.durationMs / 60_000);
+  return `${date} · ${n} ${n === 1 ? 'entry' : 'entries'}${minutes ? ` · ${minutes} min` : ''}`;
+}
+
+function periodLabel(scope: Period, anchor: number) {
+  const { start, end } = periodRange(scope, anchor);
+  if (scope === 'month') return new Date(start).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+  const fmt = (ms: number) => new Date(ms).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  return `${fmt(start)} – ${fmt(end - 1)}`;
+}
+
+function subtitle(s: Session) {
+  const tags = [s.mood, ...(s.tags ?? []).map((t) => `#${t}`)].filter(Boolean).join(' · ');
+  return tags || s.notes || '';
+}
+
+/**
+ * One list row: poster (waveform for audio-only sessions), title and
+ * status. No player here; the recording plays on the session screen.
+ */
+const SessionRow = memo(function SessionRow({
+  item,
+  onOpen,
+  onActions,
+}: {
+  item: Session;
+  onOpen: (s: Session) => void;
+  onActions: (s: Session) => void;
+}) {
+  const status = statusLabel(item);
+  return (
+    <Pressable style={styles.card} onPress={() => onOpen(item)} onLongPress={() => onActions(item)} delayLongPress={350}>
+      {item.mediaKind === 'audio' ? (
+        <SessionWaveform path={item.waveformPath} bars={24} style={styles.thumb} />
+      ) : (
+        <SessionThumbnail path={item.thumbnailPath} style={styles.thumb} />
+      )}
+      <View style={styles.body}>
+        <Text style={styles.name} numberOfLines={1}>
+          {item.title || basename(item.videoPath)}
+        </Text>
+        <Text style={styles.meta} numberOfLines={1}>
+          {new Date(item.createdAt).toLocaleString()}
+        </Text>
+        <Text style={styles.notes} numberOfLines={1}>
+          {subtitle(item)}
+        </Text>
+        <View style={styles.metaRow}>
+          <Text style={[styles.meta, styles.chip, { marginLeft: 0 }]}>{msToClock(item.durationMs)}</Text>
+          {status && (
+            <Text
+              style={[styles.meta, styles.chip, item.status === 'failed' && styles.failedChip]}
+              numberOfLines={1}
+              onPress={item.status === 'failed' ? () => retrySession(item.id) : undefined}
+            >
+              {status}
+            </Text>
+          )}
+        </View>
+      </View>
+    </Pressable>
+  );
+});
+
 export default function VideosScreen() {
+  const router = useRouter();
   const [items, setItems] = useState<Session[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -32,18 +146,136 @@ export default function VideosScreen() {
 
   useEffect(() => {
     refresh();
+    // status chips follow the background queue
+    return onQueueChange(() => {
+      listSessions().then(setItems);
+    });
+  }, []);
+
+  const [editing, setEditing] = useState<Session | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<{ session: Session; undo: () => Promise<void> } | null>(null);
+  const undoTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const onDelete = useCallback(async (session: Session) => {
+    const { undo } = await deleteSession(session.id);
+    setItems((rows) => rows.filter((r) => r.id !== session.id));
+    setPendingDelete({ session, undo });
+    if (undoTimer.current) clearTimeout(undoTimer.current);
+    undoTimer.current = setTimeout(() => setPendingDelete(null), DELETE_UNDO_MS);
+  }, []);
+
+  async function onUndo() {
+    if (!pendingDelete) return;
+    if (undoTimer.current) clearTimeout(undoTimer.current);
+    await pendingDelete.undo();
+    setPendingDelete(null);
+    setItems(await listSessions());
+  }
+
+  // the copy in Photos leaves the vault, so ask first
+  const onSaveToLibrary = useCallback((session: Session) => {
+    Alert.alert('Save to Photos?', 'The copy in your photo library is not encrypted or protected by the app lock.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Save',
+        onPress: () =>
+          saveSessionToLibrary(session)
+            .then(() => Alert.alert('Saved to Photos'))
+            .catch((e) => Alert.alert('Could not save', String(e?.message ?? e))),
+      },
+    ]);
   }, []);
 
+  async function onSaveMeta(meta: SessionMeta) {
+    if (!editing) return;
+    try {
+      await updateSessionMeta(editing.id, meta);
+      setItems(await listSessions());
+    } catch (e: any) {
+      Alert.alert('Could not save', String(e?.message ?? e));
+    }
+    setEditing(null);
+  }
+
+  const openActions = useCallback(
+    (session: Session) => {
+      Alert.alert(session.title || basename(session.videoPath), undefined, [
+        ...(debriefReady(session)
+          ? [{ text: 'Debrief', onPress: () => router.push({ pathname: '/debrief/[id]', params: { id: session.id } }) }]
+          : []),
+        { text: 'Edit details', onPress: () => setEditing(session) },
+        ...(session.mediaKind !== 'audio' ? [{ text: 'Save to Photos', onPress: () => onSaveToLibrary(session) }] : []),
+        { text: 'Delete', style: 'destructive', onPress: () => onDelete(session) },
+        { text: 'Cancel', style: 'cancel' },
+      ]);
+    },
+    [router, onDelete, onSaveToLibrary]
+  );
+
+  const openSession = useCallback(
+    (session: Session) => router.push({ pathname: '/session/[id]', params: { id: session.id } }),
+    [router]
+  );
+
+  // Timeline (grouped by local day of createdAt) or calendar, optionally
+  // narrowed to a week/month or to one day picked in the calendar
+  const [mode, setMode] = useState<'timeline' | 'calendar'>('timeline');
+  const [scope, setScope] = useState<Scope>('all');
+  const [anchor, setAnchor] = useState(() => Date.now());
+  const [day, setDay] = useState<string | null>(null);
+
+  const days = useMemo(() => groupByDay(items), [items]);
+  const daysByKey = useMemo(() => new Map(days.map((d) => [d.key, d])), [days]);
+
+  const { rows, offsets, sticky } = useMemo(() => {
+    const range = scope === 'all' ? null : periodRange(scope, anchor);
+    const shown = days.filter((d) => (day ? d.key === day : !range || (d.start >= range.start && d.start < range.end)));
+    const rows: ListRow[] = [];
+    const offsets: number[] = [];
+    const sticky: number[] = [];
+    let offset = LIST_PADDING;
+    for (const d of shown) {
+      sticky.push(rows.length);
+      rows.push({ type: 'day', key: `day:${d.key}`, day: d });
+      offsets.push(offset);
+      offset += DAY_HEADER_HEIGHT;
+      for (const session of d.sessions) {
+        rows.push({ type: 'session', key: session.id, session });
+        offsets.push(offset);
+        offset += ROW_HEIGHT;
+      }
+    }
+    return { rows, offsets, sticky };
+  }, [days, scope, anchor, day]);
+
+  const selectDay = (d: DaySummary) => {
+    setDay(d.key);
+    setMode('timeline');
+  };
+
+  const renderRow = useCallback(
+    ({ item }: { item: ListRow }) =>
+      item.type === 'day' ? (
+        <View style={styles.dayHeader}>
+          <Text style={styles.dayText} numberOfLines={1}>
+            {dayLabel(item.day)}
+          </Text>
+        </View>
+      ) : (
+        <SessionRow item={item.session} onOpen={openSession} onActions={openActions} />
+      ),
+    [openSession, openActions]
+  );
+
+  let content: React.ReactNode;
   if (loading) {
-    return (
+    content = (
       <View style={styles.empty}>
         <Text style={styles.emptyText}>Loading…</Text>
       </View>
     );
-  }
-
-  if (!items.length) {
-    return (
+  } else if (!items.length) {
+    content = (
       <View style={styles.empty}>
         <Text style={styles.emptyText}>No recordings yet.</Text>
         <Text style={[styles.emptyText, { opacity: 0.6 }]}>
@@ -51,49 +283,180 @@ export default function VideosScreen() {
         </Text>
       </View>
     );
+  } else if (mode === 'calendar') {
+    content = (
+      <ScrollView contentContainerStyle={{ padding: LIST_PADDING, paddingBottom: 48 }}>
+        <CalendarMonth
+          month={anchor}
+          days={daysByKey}
+          selected={day}
+          onSelect={selectDay}
+          onMonthChange={(by) => setAnchor((a) => shiftPeriod('month', a, by))}
+        />
+        <Text style={styles.hint}>Tap a day to see its entries.</Text>
+      </ScrollView>
+    );
+  } else if (!rows.length) {
+    content = (
+      <View style={styles.empty}>
+        <Text style={styles.emptyText}>Nothing recorded in this period.</Text>
+      </View>
+    );
+  } else {
+    content = (
+      <FlatList
+        data={rows}
+        keyExtractor={(r) => r.key}
+        contentContainerStyle={{ padding: LIST_PADDING, paddingBottom: 48 }}
+        renderItem={renderRow}
+        stickyHeaderIndices={sticky}
+        getItemLayout={(_, index) => ({
+          length: rows[index].type === 'day' ? DAY_HEADER_HEIGHT : ROW_HEIGHT,
+          offset: offsets[index],
+          index,
+        })}
+        initialNumToRender={8}
+        maxToRenderPerBatch={8}
+        windowSize={7}
+      />
+    );
   }
 
-  return (
-    <FlatList
-      data={items}
-      keyExtractor={(s) => s.id}
-      contentContainerStyle={{ padding: 12, paddingBottom: 48 }}
-      renderItem={({ item }) => (
-        <View style={styles.card}>
-          <Text style={styles.name}>{basename(item.videoPath)}</Text>
-          <Video
-            source={{ uri: item.videoPath }}
-            style={styles.video}
-            resizeMode={ResizeMode.CONTAIN}
-            useNativeControls
-            isLooping={false}
-          />
-          <View style={styles.metaRow}>
-            <Text style={styles.meta}>
-              {new Date(item.createdAt).toLocaleString()}
+  const toolbar = !!items.length && (
+    <View style={styles.toolbar}>
+      <View style={styles.segments}>
+        {(['timeline', 'calendar'] as const).map((m) => (
+          <Pressable key={m} style={[styles.segment, mode === m && styles.segmentOn]} onPress={() => setMode(m)}>
+            <Text style={[styles.segmentText, mode === m && styles.segmentTextOn]}>
+              {m === 'timeline' ? 'Timeline' : 'Calendar'}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+      {mode === 'timeline' &&
+        (day ? (
+          <Pressable style={[styles.segment, styles.segmentOn]} onPress={() => setDay(null)}>
+            <Text style={styles.segmentTextOn}>
+              {new Date(daysByKey.get(day)?.start ?? anchor).toLocaleDateString(undefined, {
+                month: 'short',
+                day: 'numeric',
+              })}{' '}
+              ✕
             </Text>
-            <View style={{ flex: 1 }} />
-            <Text style={[styles.meta, styles.chip]}>{msToClock(item.durationMs)}</Text>
+          </Pressable>
+        ) : (
+          <View style={styles.segments}>
+            {(['all', 'week', 'month'] as const).map((sc) => (
+              <Pressable
+                key={sc}
+                style={[styles.segment, scope === sc && styles.segmentOn]}
+                onPress={() => {
+                  setScope(sc);
+                  setAnchor(Date.now());
+                }}
+              >
+                <Text style={[styles.segmentText, scope === sc && styles.segmentTextOn]}>
+                  {sc === 'all' ? 'All' : sc === 'week' ? 'Week' : 'Month'}
+                </Text>
+              </Pressable>
+            ))}
           </View>
+        ))}
+    </View>
+  );
+
+  const periodNav = mode === 'timeline' && !day && scope !== 'all' && (
+    <View style={styles.periodNav}>
+      <Pressable onPress={() => setAnchor((a) => shiftPeriod(scope, a, -1))} hitSlop={12}>
+        <Text style={styles.periodArrow}>‹</Text>
+      </Pressable>
+      <Text style={styles.periodText}>{periodLabel(scope, anchor)}</Text>
+      <Pressable
+        onPress={() => setAnchor((a) => shiftPeriod(scope, a, 1))}
+        disabled={periodRange(scope, anchor).end > Date.now()}
+        hitSlop={12}
+      >
+        <Text style={[styles.periodArrow, periodRange(scope, anchor).end > Date.now() && { opacity: 0.3 }]}>›</Text>
+      </Pressable>
+    </View>
+  );
+
+  return (
+    <View style={{ flex: 1 }}>
+      <View style={styles.searchRow}>
+        <Pressable style={styles.searchBar} onPress={() => router.push('/search')}>
+          <Text style={styles.searchText}>Search your journal…</Text>
+        </Pressable>
+        <Pressable style={styles.importBtn} onPress={() => router.push('/import')}>
+          <Text style={styles.importText}>Import</Text>
+        </Pressable>
+      </View>
+      {toolbar}
+      {periodNav}
+      {content}
+
+      {pendingDelete && (
+        <View style={styles.undoBar}>
+          <Text style={styles.undoText} numberOfLines={1}>
+            Deleted {pendingDelete.session.title || basename(pendingDelete.session.videoPath)}
+          </Text>
+          <Pressable onPress={onUndo} hitSlop={8}>
+            <Text style={styles.undoAction}>UNDO</Text>
+          </Pressable>
         </View>
       )}
-    />
+
+      <SessionMetaEditor session={editing} onCancel={() => setEditing(null)} onSave={onSaveMeta} />
+    </View>
   );
 }
 
 const styles = StyleSheet.create({
+  searchRow: { flexDirection: 'row', gap: 8, marginHorizontal: 12, marginTop: 56 },
+  searchBar: {
+    flex: 1,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#eef0f3',
+  },
+  searchText: { color: '#777' },
+  importBtn: { justifyContent: 'center', paddingHorizontal: 14, borderRadius: 10, backgroundColor: '#0a7ea4' },
+  importText: { color: '#fff', fontWeight: '600' },
+  toolbar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginHorizontal: 12,
+    marginTop: 10,
+  },
+  segments: { flexDirection: 'row', gap: 4 },
+  segment: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 999, backgroundColor: '#eef0f3' },
+  segmentOn: { backgroundColor: '#0a7ea4' },
+  segmentText: { color: '#333' },
+  segmentTextOn: { color: '#fff', fontWeight: '600' },
+  periodNav: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 16, marginTop: 8 },
+  periodArrow: { fontSize: 24, color: '#0a7ea4' },
+  periodText: { fontWeight: '600', color: '#333', minWidth: 140, textAlign: 'center' },
+  dayHeader: { height: DAY_HEADER_HEIGHT, justifyContent: 'center', backgroundColor: '#f2f2f2' },
+  dayText: { fontWeight: '700', color: '#555' },
+  hint: { color: '#888', fontSize: 12, textAlign: 'center', marginTop: 10 },
   empty: { flex: 1, alignItems: 'center', justifyContent: 'center' },
   emptyText: { fontSize: 16, color: '#666' },
   card: {
+    height: CARD_HEIGHT,
+    flexDirection: 'row',
+    gap: 10,
     backgroundColor: '#fff',
     borderRadius: 12,
-    padding: 10,
-    marginBottom: 14,
+    padding: 8,
+    marginBottom: CARD_GAP,
     elevation: 2,
   },
-  name: { fontWeight: '600', marginBottom: 8, color: '#333' },
-  video: { width: '100%', height: 220, backgroundColor: '#000', borderRadius: 8 },
-  metaRow: { flexDirection: 'row', alignItems: 'center', marginTop: 8 },
+  thumb: { width: 72, height: CARD_HEIGHT - 16, borderRadius: 8 },
+  body: { flex: 1, justifyContent: 'space-between' },
+  name: { fontWeight: '600', color: '#333' },
+  metaRow: { flexDirection: 'row', alignItems: 'center' },
   meta: { color: '#373a3a' },
   chip: {
     backgroundColor: '#eef2ff',
@@ -102,5 +465,23 @@ const styles = StyleSheet.create({
     paddingVertical: 4,
     fontWeight: '600',
     overflow: 'hidden',
+    marginLeft: 6,
+  },
+  failedChip: { backgroundColor: '#fde2e4', color: '#b00020' },
+  notes: { color: '#555' },
+  undoBar: {
+    position: 'absolute',
+    left: 12,
+    right: 12,
+    bottom: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#222',
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
   },
+  undoText: { color: '#fff', flex: 1 },
+  undoAction: { color: '#7fd3ff', fontWeight: '700' },
 });
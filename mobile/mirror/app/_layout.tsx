@@ -1,74 +1,146 @@
-import { Tabs } from 'expo-router';
-import React from 'react';
-import { Platform } from 'react-native';
+import { Tabs, usePathname, useRouter } from 'expo-router';
+import { BlurView } from 'expo-blur';
+import React, { useEffect, useState } from 'react';
+import { AppState, Platform, StyleSheet, View } from 'react-native';
 
 import { HapticTab } from '@/components/HapticTab';
+import { LockScreen } from '@/components/LockScreen';
 import { IconSymbol } from '@/components/ui/IconSymbol';
 import TabBarBackground from '@/components/ui/TabBarBackground';
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { checkIdle, lock, touch, useAppLock } from '@/modules/lock/lock';
+import { applyAsrSettings } from '@/modules/asr/local';
+import { kickQueue, resumeQueue } from '@/modules/processing/queue';
+import { rebuildSearchIndex } from '@/modules/search/local';
+import {
+  expireOldSessions,
+  migrateSessionIds,
+  pruneMissingSessions,
+  purgeDeletedSessions,
+} from '@/modules/sessions/local';
+import { reconcileRecordings } from '@/modules/sessions/reconcile';
+import { getSettings, onSettingsChange } from '@/modules/settings/settings';
+import { clearThumbnailCache } from '@/modules/thumbnails/thumbnails';
+import { migratePlaintextSessions } from '@/modules/vault/migrate';
+import { clearPlaintextCache } from '@/modules/vault/vault';
+import { clearWaveformCache } from '@/modules/waveform/local';
 
 export default function TabLayout() {
   const colorScheme = useColorScheme();
+  const pathname = usePathname();
+  const router = useRouter();
+  const { locked, config: lockConfig } = useAppLock();
+  // covers the UI while the app is in the switcher so the snapshot is blurred
+  const [obscured, setObscured] = useState(false);
+
+  // Pick up processing jobs interrupted by the last shutdown
+  useEffect(() => {
+    applyAsrSettings();
+    const offSettings = onSettingsChange(applyAsrSettings);
+    clearPlaintextCache()
+      .then(() => purgeDeletedSessions())
+      .then(() => expireOldSessions(getSettings().retention.keepDays))
+      .then(() => pruneMissingSessions())
+      .then(() => migratePlaintextSessions())
+      .then(() => migrateSessionIds())
+      .then((renamed) => (renamed ? rebuildSearchIndex() : undefined))
+      .then(() => reconcileRecordings())
+      .catch((e) => console.warn('[Sessions] startup maintenance failed:', e))
+      .finally(() => resumeQueue());
+    const sub = AppState.addEventListener('change', (state) => {
+      setObscured(state !== 'active');
+      if (state === 'background') {
+        lock();
+        clearThumbnailCache();
+        clearWaveformCache();
+      }
+      if (state === 'active') kickQueue();
+    });
+    const idle = setInterval(() => checkIdle(), 5_000);
+    return () => {
+      offSettings();
+      sub.remove();
+      clearInterval(idle);
+    };
+  }, []);
+
+  // record-only mode: the Record tab stays usable while the archive is locked
+  const showLock = locked && !(lockConfig.recordOnly && pathname === '/record');
 
   return (
-    <Tabs
-      screenOptions={{
-        tabBarActiveTintColor: Colors[colorScheme ?? 'light'].tint,
-        headerShown: false,
-        tabBarButton: HapticTab,
-        tabBarBackground: TabBarBackground,
-        tabBarStyle: Platform.select({
-          ios: { position: 'absolute' },
-          default: {},
-        }),
+    <View
+      style={{ flex: 1 }}
+      onStartShouldSetResponderCapture={() => {
+        touch();
+        return false;
       }}
     >
-      <Tabs.Screen
-        name="index"
-        options={{
-          title: 'Home',
-          tabBarIcon: ({ color }) => (
-            <IconSymbol size={28} name="house.fill" color={color} />
-          ),
-        }}
-      />
-      <Tabs.Screen
-        name="explore"
-        options={{
-          title: 'Explore',
-          tabBarIcon: ({ color }) => (
-            <IconSymbol size={28} name="paperplane.fill" color={color} />
-          ),
-        }}
-      />
-      <Tabs.Screen
-        name="record"
-        options={{
-          title: 'Record',
-          tabBarIcon: ({ color }) => (
-            <IconSymbol size={28} name="camera.fill" color={color} />
-          ),
+      <Tabs
+        screenOptions={{
+          tabBarActiveTintColor: Colors[colorScheme ?? 'light'].tint,
+          headerShown: false,
+          tabBarButton: HapticTab,
+          tabBarBackground: TabBarBackground,
+          tabBarStyle: Platform.select({
+            ios: { position: 'absolute' },
+            default: {},
+          }),
         }}
-      />
-      <Tabs.Screen
-        name="videos"
-        options={{
-          title: 'Videos',
-          tabBarIcon: ({ color }) => (
-            <IconSymbol size={28} name="film.stack.fill" color={color} />
-          ),
-        }}
-      />
-      <Tabs.Screen
-        name="settings"
-        options={{
-          title: 'Settings',
-          tabBarIcon: ({ color }) => (
-            <IconSymbol size={28} name="gearshape.fill" color={color} />
-          ),
-        }}
-      />
-    </Tabs>
+      >
+        <Tabs.Screen
+          name="index"
+          options={{
+            title: 'Home',
+            tabBarIcon: ({ color }) => (
+              <IconSymbol size={28} name="house.fill" color={color} />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="explore"
+          options={{
+            title: 'Explore',
+            tabBarIcon: ({ color }) => (
+              <IconSymbol size={28} name="paperplane.fill" color={color} />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="record"
+          options={{
+            title: 'Record',
+            tabBarIcon: ({ color }) => (
+              <IconSymbol size={28} name="camera.fill" color={color} />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="videos"
+          options={{
+            title: 'Videos',
+            tabBarIcon: ({ color }) => (
+              <IconSymbol size={28} name="film.stack.fill" color={color} />
+            ),
+          }}
+        />
+        <Tabs.Screen
+          name="settings"
+          options={{
+            title: 'Settings',
+            tabBarIcon: ({ color }) => (
+              <IconSymbol size={28} name="gearshape.fill" color={color} />
+            ),
+          }}
+        />
+        <Tabs.Screen name="debrief/[id]" options={{ href: null, tabBarStyle: { display: 'none' } }} />
+        <Tabs.Screen name="session/[id]" options={{ href: null }} />
+        <Tabs.Screen name="search" options={{ href: null }} />
+        <Tabs.Screen name="import" options={{ href: null, tabBarStyle: { display: 'none' } }} />
+      </Tabs>
+
+      {showLock && <LockScreen onRecordOnly={() => router.navigate('/record')} />}
+      {obscured && <BlurView intensity={60} tint="dark" style={StyleSheet.absoluteFill} />}
+    </View>
   );
 }
@@ -0,0 +1,246 @@
+import { Audio } from 'expo-av';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+
+import { VaultVideo } from '@/components/VaultVideo';
+import { answerQuestion, debriefReady, openDebrief, saveVoiceAnswer, type Debrief } from '@/modules/debrief/local';
+import { onQueueChange } from '@/modules/processing/queue';
+import { getSession, type Session } from '@/modules/sessions/local';
+
+// start playback a little before the moment a question is about
+const LEAD_IN_MS = 1_500;
+
+function msToClock(ms: number) {
+  const s = Math.round(ms / 1000);
+  return `${String(Math.floor(s / 60)).padStart(2, '0')}:${String(s % 60).padStart(2, '0')}`;
+}
+
+export default function DebriefScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const [session, setSession] = useState<Session | null>(null);
+  const [debrief, setDebrief] = useState<Debrief | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [index, setIndex] = useState(0);
+  const [text, setText] = useState('');
+  const [busy, setBusy] = useState(false);
+  const recordingRef = useRef<Audio.Recording | null>(null);
+  const [recording, setRecording] = useState(false);
+  const openedRef = useRef(false);
+
+  // wait for the queue to get past the rules stage, then open the debrief
+  useEffect(() => {
+    let cancelled = false;
+    async function load() {
+      if (openedRef.current) return;
+      const s = await getSession(id);
+      if (cancelled) return;
+      if (!s) {
+        setError('This recording no longer exists.');
+        return;
+      }
+      setSession(s);
+      if (!debriefReady(s)) return;
+      try {
+        const d = await openDebrief(id);
+        if (cancelled || openedRef.current) return;
+        openedRef.current = true;
+        setDebrief(d);
+        const firstOpen = d.questions.findIndex((q) => !d.answers.some((a) => a.questionId === q.id));
+        setIndex(firstOpen === -1 ? 0 : firstOpen);
+      } catch (e: any) {
+        setError(String(e?.message ?? e));
+      }
+    }
+    load();
+    const off = onQueueChange((changed) => {
+      if (changed === id) load();
+    });
+    return () => {
+      cancelled = true;
+      off();
+    };
+  }, [id]);
+
+  useEffect(() => {
+    return () => {
+      recordingRef.current?.stopAndUnloadAsync().catch(() => undefined);
+    };
+  }, []);
+
+  const question = debrief?.questions[index];
+  const answer = question && debrief?.answers.find((a) => a.questionId === question.id);
+
+  useEffect(() => {
+    setText(answer?.text ?? '');
+  }, [answer, question?.id]);
+
+  function next() {
+    if (!debrief) return;
+    if (index + 1 < debrief.questions.length) setIndex(index + 1);
+    else router.back();
+  }
+
+  async function act(status: 'answered' | 'skipped' | 'bookmarked', extra: { text?: string; audioPath?: string } = {}) {
+    if (!question) return;
+    setBusy(true);
+    try {
+      setDebrief(await answerQuestion(id, question, { status, ...extra }));
+      next();
+    } catch (e: any) {
+      Alert.alert('Could not save', String(e?.message ?? e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function toggleVoice() {
+    if (!question) return;
+    if (!recording) {
+      const perm = await Audio.requestPermissionsAsync();
+      if (!perm.granted) {
+        Alert.alert('Microphone needed', 'Allow microphone access to answer by voice.');
+        return;
+      }
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: true, playsInSilentModeIOS: true });
+      const { recording: rec } = await Audio.Recording.createAsync(Audio.RecordingOptionsPresets.HIGH_QUALITY);
+      recordingRef.current = rec;
+      setRecording(true);
+      return;
+    }
+    const rec = recordingRef.current;
+    recordingRef.current = null;
+    setRecording(false);
+    if (!rec) return;
+    setBusy(true);
+    try {
+      await rec.stopAndUnloadAsync();
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: false });
+      const uri = rec.getURI();
+      if (!uri) throw new Error('no audio was recorded');
+      const voice = await saveVoiceAnswer(id, question, uri);
+      await act('answered', { audioPath: voice.audioPath, text: [text.trim(), voice.text].filter(Boolean).join('\n') || undefined });
+    } catch (e: any) {
+      Alert.alert('Voice answer failed', String(e?.message ?? e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (error) {
+    return (
+      <View style={styles.center}>
+        <Text style={styles.muted}>{error}</Text>
+      </View>
+    );
+  }
+
+  if (!session || !debrief) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator />
+        <Text style={styles.muted}>
+          {session?.status === 'failed' ? 'Processing failed — retry from the Videos tab.' : 'Preparing your debrief…'}
+        </Text>
+      </View>
+    );
+  }
+
+  if (!question) {
+    return (
+      <View style={styles.center}>
+        <Text style={styles.title}>Nothing to reflect on this time.</Text>
+        <Pressable style={styles.primaryBtn} onPress={() => router.back()}>
+          <Text style={styles.primaryText}>Done</Text>
+        </Pressable>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={{ flex: 1 }} contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+      <Text style={styles.heading}>Debrief</Text>
+      <VaultVideo
+        uri={session.videoPath}
+        style={session.mediaKind === 'audio' ? styles.audio : styles.video}
+        autoOpen
+        positionMs={Math.max(0, question.t_ms - LEAD_IN_MS)}
+      />
+
+      <Text style={styles.counter}>
+        Question {index + 1} of {debrief.questions.length} · {msToClock(question.t_ms)}
+        {answer ? ` · ${answer.status}` : ''}
+      </Text>
+      <Text style={styles.prompt}>{question.prompt}</Text>
+
+      <TextInput
+        style={styles.input}
+        value={text}
+        onChangeText={setText}
+        placeholder="Type an answer, or answer by voice"
+        multiline
+        editable={!busy && !recording}
+      />
+
+      <View style={styles.row}>
+        <Pressable style={styles.secondaryBtn} onPress={() => act('skipped')} disabled={busy || recording}>
+          <Text style={styles.secondaryText}>Skip</Text>
+        </Pressable>
+        <Pressable style={styles.secondaryBtn} onPress={() => act('bookmarked', { text: text.trim() || undefined })} disabled={busy || recording}>
+          <Text style={styles.secondaryText}>Bookmark</Text>
+        </Pressable>
+        <Pressable style={[styles.secondaryBtn, recording && styles.recordingBtn]} onPress={toggleVoice} disabled={busy}>
+          <Text style={[styles.secondaryText, recording && { color: '#fff' }]}>{recording ? 'Stop' : 'Voice'}</Text>
+        </Pressable>
+      </View>
+
+      <Pressable
+        style={[styles.primaryBtn, (!text.trim() || busy || recording) && { opacity: 0.4 }]}
+        onPress={() => act('answered', { text: text.trim() })}
+        disabled={!text.trim() || busy || recording}
+      >
+        <Text style={styles.primaryText}>{index + 1 < debrief.questions.length ? 'Save & next' : 'Save & finish'}</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: { flex: 1, alignItems: 'center', justifyContent: 'center', padding: 24, gap: 12 },
+  container: { padding: 16, paddingTop: 56, paddingBottom: 48, gap: 12 },
+  heading: { fontSize: 24, fontWeight: '700', color: '#333' },
+  title: { fontSize: 18, fontWeight: '600', color: '#333', textAlign: 'center' },
+  muted: { color: '#666', textAlign: 'center' },
+  video: { width: '100%', height: 220, backgroundColor: '#000', borderRadius: 8 },
+  audio: { width: '100%', height: 64, backgroundColor: '#1d3b47', borderRadius: 8 },
+  counter: { color: '#666', fontWeight: '600' },
+  prompt: { fontSize: 18, color: '#222' },
+  input: {
+    minHeight: 90,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 10,
+    padding: 10,
+    textAlignVertical: 'top',
+    backgroundColor: '#fff',
+  },
+  row: { flexDirection: 'row', gap: 10 },
+  secondaryBtn: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 22,
+    backgroundColor: '#eef2ff',
+  },
+  secondaryText: { color: '#0a7ea4', fontWeight: '600' },
+  recordingBtn: { backgroundColor: '#b00020' },
+  primaryBtn: {
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderRadius: 28,
+    backgroundColor: '#0a7ea4',
+  },
+  primaryText: { color: '#fff', fontWeight: '700' },
+});
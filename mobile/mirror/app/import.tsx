@@ -0,0 +1,206 @@
+import { Image } from 'expo-image';
+import { useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, Pressable, StyleSheet, Text, View } from 'react-native';
+
+import {
+  importedAssetIds,
+  importLibraryVideos,
+  listLibraryVideos,
+  type LibraryVideo,
+} from '@/modules/library/library';
+
+const COLUMNS = 3;
+
+function secondsToClock(sec: number) {
+  const s = Math.round(sec);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Pick videos from the photo library to import as journal sessions. Videos
+ * imported before are marked and can't be picked again.
+ */
+export default function ImportScreen() {
+  const router = useRouter();
+  const [videos, setVideos] = useState<LibraryVideo[]>([]);
+  const [next, setNext] = useState<string | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [imported, setImported] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const loadPage = useCallback(async (after?: string) => {
+    setLoading(true);
+    try {
+      const page = await listLibraryVideos(after);
+      setVideos((v) => (after ? [...v, ...page.videos] : page.videos));
+      setNext(page.next);
+      setError(null);
+    } catch (e: any) {
+      setError(String(e?.message ?? e));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPage();
+    importedAssetIds()
+      .then(setImported)
+      .catch((e) => console.warn('[Import] imported ids not loaded:', e));
+  }, [loadPage]);
+
+  const toggle = (id: string) =>
+    setSelected((prev) => {
+      const out = new Set(prev);
+      if (!out.delete(id)) out.add(id);
+      return out;
+    });
+
+  async function onImport() {
+    const picked = videos.filter((v) => selected.has(v.id));
+    setProgress({ done: 0, total: picked.length });
+    try {
+      const result = await importLibraryVideos(picked, (done, total) => setProgress({ done, total }));
+      const n = result.imported.length;
+      const notes: string[] = [];
+      if (n) notes.push('They are being transcribed and analyzed in the background.');
+      if (result.failed.length) notes.push(`${result.failed.length} could not be read: ${result.failed[0].error}`);
+      Alert.alert(n ? `Imported ${n} video${n === 1 ? '' : 's'}` : 'Nothing imported', notes.join('\n\n') || undefined);
+      router.back();
+    } catch (e: any) {
+      Alert.alert('Import failed', String(e?.message ?? e));
+    } finally {
+      setProgress(null);
+    }
+  }
+
+  const renderItem = ({ item }: { item: LibraryVideo }) => {
+    const done = imported.has(item.id);
+    const on = selected.has(item.id);
+    return (
+      <Pressable style={styles.cell} onPress={() => toggle(item.id)} disabled={done || !!progress}>
+        <Image source={{ uri: item.uri }} style={StyleSheet.absoluteFill} contentFit="cover" recyclingKey={item.id} />
+        <Text style={styles.duration}>{secondsToClock(item.duration)}</Text>
+        <Text style={styles.date} numberOfLines={1}>
+          {new Date(item.creationTime).toLocaleDateString()}
+        </Text>
+        {done && (
+          <View style={styles.imported}>
+            <Text style={styles.importedText}>Imported</Text>
+          </View>
+        )}
+        {on && (
+          <View style={styles.check}>
+            <Text style={styles.checkText}>✓</Text>
+          </View>
+        )}
+      </Pressable>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} hitSlop={12} disabled={!!progress}>
+          <Text style={styles.link}>Cancel</Text>
+        </Pressable>
+        <Text style={styles.heading}>Import videos</Text>
+        <View style={{ width: 52 }} />
+      </View>
+
+      {error ? (
+        <View style={styles.state}>
+          <Text style={styles.muted}>{error}</Text>
+          <Pressable style={styles.retryBtn} onPress={() => loadPage()}>
+            <Text style={styles.retryText}>Try again</Text>
+          </Pressable>
+        </View>
+      ) : !loading && !videos.length ? (
+        <View style={styles.state}>
+          <Text style={styles.muted}>No videos in your photo library.</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={videos}
+          keyExtractor={(v) => v.id}
+          renderItem={renderItem}
+          numColumns={COLUMNS}
+          contentContainerStyle={styles.grid}
+          columnWrapperStyle={styles.row}
+          onEndReached={() => next && !loading && loadPage(next)}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={loading ? <ActivityIndicator style={{ margin: 16 }} /> : null}
+        />
+      )}
+
+      <View style={styles.footer}>
+        {progress ? (
+          <Text style={styles.muted}>
+            Importing {progress.done} of {progress.total}…
+          </Text>
+        ) : (
+          <Pressable style={[styles.primaryBtn, !selected.size && { opacity: 0.4 }]} onPress={onImport} disabled={!selected.size}>
+            <Text style={styles.primaryText}>
+              {selected.size ? `Import ${selected.size} video${selected.size === 1 ? '' : 's'}` : 'Select videos'}
+            </Text>
+          </Pressable>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, paddingTop: 56 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 10,
+  },
+  heading: { fontSize: 20, fontWeight: '700', color: '#333' },
+  link: { color: '#0a7ea4', fontSize: 16 },
+  grid: { padding: 2, paddingBottom: 96 },
+  row: { gap: 2 },
+  cell: { flex: 1 / COLUMNS, aspectRatio: 1, marginBottom: 2, backgroundColor: '#000', overflow: 'hidden' },
+  duration: {
+    position: 'absolute',
+    right: 4,
+    bottom: 4,
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+    fontVariant: ['tabular-nums'],
+  },
+  date: { position: 'absolute', left: 4, bottom: 4, right: 40, color: '#ffffffcc', fontSize: 11 },
+  imported: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#000000aa',
+  },
+  importedText: { color: '#fff', fontWeight: '600' },
+  check: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#0a7ea4',
+  },
+  checkText: { color: '#fff', fontWeight: '700' },
+  state: { flex: 1, alignItems: 'center', justifyContent: 'center', gap: 10, padding: 24 },
+  muted: { color: '#666', textAlign: 'center' },
+  retryBtn: { paddingHorizontal: 18, paddingVertical: 10, borderRadius: 20, backgroundColor: '#eef0f3' },
+  retryText: { color: '#0a7ea4', fontWeight: '600' },
+  footer: { position: 'absolute', left: 16, right: 16, bottom: 24, alignItems: 'center' },
+  primaryBtn: { paddingHorizontal: 24, paddingVertical: 14, borderRadius: 28, backgroundColor: '#0a7ea4' },
+  primaryText: { color: '#fff', fontWeight: '700' },
+});
@@ -0,0 +1,146 @@
+import { useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, FlatList, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+
+import { searchJournal } from '@/modules/search/local';
+import type { SearchHit, Snippet } from '@/modules/search/engine';
+import { getSession, type Session } from '@/modules/sessions/local';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RANGES = [
+  { label: 'Any time', days: null },
+  { label: 'Past week', days: 7 },
+  { label: 'Past month', days: 31 },
+  { label: 'Past year', days: 365 },
+] as const;
+
+function msToClock(ms: number) {
+  const s = Math.round(ms / 1000);
+  return `${String(Math.floor(s / 60)).padStart(2, '0')}:${String(s % 60).padStart(2, '0')}`;
+}
+
+function Highlighted({ snippet }: { snippet: Snippet }) {
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  snippet.highlights.forEach(([start, end], i) => {
+    if (start > at) parts.push(snippet.text.slice(at, start));
+    parts.push(
+      <Text key={i} style={styles.mark}>
+        {snippet.text.slice(start, end)}
+      </Text>
+    );
+    at = end;
+  });
+  parts.push(snippet.text.slice(at));
+  return <Text style={styles.snippetText}>{parts}</Text>;
+}
+
+export default function SearchScreen() {
+  const router = useRouter();
+  const [query, setQuery] = useState('');
+  const [range, setRange] = useState<(typeof RANGES)[number]>(RANGES[0]);
+  const [hits, setHits] = useState<(SearchHit & { session: Session })[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setHits(null);
+      return;
+    }
+    let cancelled = false;
+    // debounce typing
+    const t = setTimeout(async () => {
+      setBusy(true);
+      try {
+        const from = range.days ? Date.now() - range.days * DAY_MS : undefined;
+        const found = await searchJournal(query, { from });
+        const withSessions = await Promise.all(
+          found.map(async (h) => ({ ...h, session: (await getSession(h.sessionId))! }))
+        );
+        if (!cancelled) setHits(withSessions.filter((h) => h.session));
+      } catch (e) {
+        console.warn('[Search] query failed:', e);
+        if (!cancelled) setHits([]);
+      } finally {
+        if (!cancelled) setBusy(false);
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(t);
+    };
+  }, [query, range]);
+
+  const open = (sessionId: string, t_ms: number) =>
+    router.push({ pathname: '/session/[id]', params: { id: sessionId, t: String(t_ms) } });
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        style={styles.input}
+        value={query}
+        onChangeText={setQuery}
+        placeholder='Search your journal — "exact phrase" works too'
+        autoFocus
+        autoCapitalize="none"
+        returnKeyType="search"
+        clearButtonMode="while-editing"
+      />
+      <View style={styles.ranges}>
+        {RANGES.map((r) => (
+          <Pressable key={r.label} style={[styles.range, r === range && styles.rangeActive]} onPress={() => setRange(r)}>
+            <Text style={[styles.rangeText, r === range && styles.rangeTextActive]}>{r.label}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {busy && !hits && <ActivityIndicator style={{ marginTop: 24 }} />}
+      {hits && !hits.length && !busy && <Text style={styles.muted}>No entries match.</Text>}
+
+      <FlatList
+        data={hits ?? []}
+        keyExtractor={(h) => h.sessionId}
+        keyboardShouldPersistTaps="handled"
+        contentContainerStyle={{ paddingBottom: 48 }}
+        renderItem={({ item }) => (
+          <View style={styles.card}>
+            <Text style={styles.title} onPress={() => open(item.sessionId, item.snippets[0]?.start_ms ?? 0)}>
+              {item.session.title || new Date(item.createdAt).toLocaleString()}
+            </Text>
+            {item.snippets.map((s) => (
+              <Pressable key={s.start_ms} style={styles.snippet} onPress={() => open(item.sessionId, s.start_ms)}>
+                <Text style={styles.time}>{msToClock(s.start_ms)}</Text>
+                <Highlighted snippet={s} />
+              </Pressable>
+            ))}
+          </View>
+        )}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, paddingTop: 56, paddingHorizontal: 12 },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    backgroundColor: '#fff',
+  },
+  ranges: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginVertical: 10 },
+  range: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 999, backgroundColor: '#eef2ff' },
+  rangeActive: { backgroundColor: '#0a7ea4' },
+  rangeText: { color: '#0a7ea4', fontWeight: '600' },
+  rangeTextActive: { color: '#fff' },
+  muted: { color: '#666', textAlign: 'center', marginTop: 24 },
+  card: { backgroundColor: '#fff', borderRadius: 12, padding: 12, marginBottom: 12, elevation: 2 },
+  title: { fontWeight: '600', color: '#333', marginBottom: 6 },
+  snippet: { flexDirection: 'row', gap: 8, paddingVertical: 4 },
+  time: { color: '#0a7ea4', fontVariant: ['tabular-nums'], fontWeight: '600' },
+  snippetText: { flex: 1, color: '#444' },
+  mark: { backgroundColor: '#ffe58a', color: '#000' },
+});
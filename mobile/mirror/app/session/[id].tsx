@@ -0,0 +1,186 @@
+import { useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from 'react-native';
+
+import { EventScrubber } from '@/components/EventScrubber';
+import { TranscriptView } from '@/components/TranscriptView';
+import { VaultVideo, type VaultVideoHandle } from '@/components/VaultVideo';
+import { SessionWaveform } from '@/components/Waveform';
+import { loadTranscript, TranscriptError, type Transcript } from '@/modules/asr/transcript';
+import { onQueueChange, retrySession } from '@/modules/processing/queue';
+import type { Event } from '@/modules/rules/events';
+import { loadEvents } from '@/modules/rules/local';
+import { getSession, type Session } from '@/modules/sessions/local';
+
+type TranscriptState =
+  | { kind: 'loading' }
+  | { kind: 'processing' }
+  | { kind: 'missing' }
+  | { kind: 'error'; message: string }
+  | { kind: 'ready'; transcript: Transcript };
+
+// before the transcribe stage has finished there is nothing to load yet
+function stillTranscribing(s: Session) {
+  return (s.status === 'queued' || s.status === 'processing') && (s.stage === 'persist' || s.stage === 'transcribe');
+}
+
+export default function SessionScreen() {
+  // `t` (ms) starts playback at a moment, e.g. from a search result
+  const { id, t } = useLocalSearchParams<{ id: string; t?: string }>();
+  const startMs = t ? Number(t) || 0 : undefined;
+  const [session, setSession] = useState<Session | null | undefined>(undefined);
+  const [transcript, setTranscript] = useState<TranscriptState>({ kind: 'loading' });
+  const [events, setEvents] = useState<Event[]>([]);
+  const [positionMs, setPositionMs] = useState(startMs ?? 0);
+  const [durationMs, setDurationMs] = useState(0);
+  const videoRef = useRef<VaultVideoHandle>(null);
+
+  const load = useCallback(async () => {
+    const s = (await getSession(id)) ?? null;
+    setSession(s);
+    if (!s) return;
+    if (s.durationMs) setDurationMs((d) => d || s.durationMs!);
+
+    if (s.transcriptPath) {
+      try {
+        setTranscript({ kind: 'ready', transcript: await loadTranscript(s.transcriptPath) });
+      } catch (e: any) {
+        setTranscript({
+          kind: 'error',
+          message: e instanceof TranscriptError && e.code === 'not_found' ? 'The transcript file is missing.' : String(e?.message ?? e),
+        });
+      }
+    } else {
+      setTranscript({ kind: stillTranscribing(s) ? 'processing' : 'missing' });
+    }
+
+    if (s.eventsPath) {
+      try {
+        setEvents((await loadEvents(s.eventsPath)).events);
+      } catch (e) {
+        console.warn('[Session] events not loaded:', e);
+      }
+    }
+  }, [id]);
+
+  useEffect(() => {
+    load();
+    return onQueueChange((changed) => {
+      if (changed === id) load();
+    });
+  }, [id, load]);
+
+  const seek = useCallback((ms: number) => {
+    setPositionMs(ms);
+    videoRef.current?.seek(ms);
+  }, []);
+
+  if (session === undefined) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+  if (session === null) {
+    return (
+      <View style={styles.center}>
+        <Text style={styles.muted}>This recording no longer exists.</Text>
+      </View>
+    );
+  }
+
+  let body: React.ReactNode;
+  switch (transcript.kind) {
+    case 'loading':
+      body = <ActivityIndicator style={{ marginTop: 24 }} />;
+      break;
+    case 'processing':
+      body = (
+        <View style={styles.state}>
+          <ActivityIndicator />
+          <Text style={styles.muted}>Transcribing… this can take a minute.</Text>
+        </View>
+      );
+      break;
+    case 'missing':
+      body = (
+        <View style={styles.state}>
+          <Text style={styles.muted}>
+            {session.status === 'failed' ? 'Processing failed before a transcript was made.' : 'No transcript for this recording.'}
+          </Text>
+          {session.status === 'failed' && (
+            <Pressable style={styles.retryBtn} onPress={() => retrySession(session.id)}>
+              <Text style={styles.retryText}>Retry</Text>
+            </Pressable>
+          )}
+        </View>
+      );
+      break;
+    case 'error':
+      body = (
+        <View style={styles.state}>
+          <Text style={styles.muted}>Could not open the transcript.</Text>
+          <Text style={[styles.muted, { fontSize: 12 }]}>{transcript.message}</Text>
+        </View>
+      );
+      break;
+    case 'ready':
+      body = transcript.transcript.words.length ? (
+        <TranscriptView
+          style={{ flex: 1 }}
+          words={transcript.transcript.words}
+          segments={transcript.transcript.segments}
+          positionMs={positionMs}
+          onSeek={seek}
+        />
+      ) : (
+        <View style={styles.state}>
+          <Text style={styles.muted}>No speech was detected.</Text>
+        </View>
+      );
+      break;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.heading} numberOfLines={1}>
+        {session.title || new Date(session.createdAt).toLocaleString()}
+      </Text>
+      {session.mediaKind === 'audio' && (
+        <SessionWaveform
+          path={session.waveformPath}
+          progress={durationMs ? positionMs / durationMs : undefined}
+          style={styles.waveform}
+        />
+      )}
+      <VaultVideo
+        ref={videoRef}
+        uri={session.videoPath}
+        style={session.mediaKind === 'audio' ? styles.audio : styles.video}
+        autoOpen
+        positionMs={startMs}
+        onProgress={(pos, dur) => {
+          setPositionMs(pos);
+          if (dur) setDurationMs(dur);
+        }}
+      />
+      <EventScrubber positionMs={positionMs} durationMs={durationMs} events={events} onSeek={seek} />
+      {body}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, paddingTop: 56, gap: 8 },
+  center: { flex: 1, alignItems: 'center', justifyContent: 'center', padding: 24 },
+  heading: { fontSize: 20, fontWeight: '700', color: '#333', paddingHorizontal: 16 },
+  video: { width: '100%', height: 240, backgroundColor: '#000' },
+  // audio-only: the waveform above stands in for the picture, this is just the controls
+  waveform: { width: '100%', height: 120 },
+  audio: { width: '100%', height: 64, backgroundColor: '#1d3b47' },
+  state: { alignItems: 'center', gap: 10, padding: 24 },
+  muted: { color: '#666', textAlign: 'center' },
+  retryBtn: { paddingHorizontal: 18, paddingVertical: 10, borderRadius: 20, backgroundColor: '#fde2e4' },
+  retryText: { color: '#b00020', fontWeight: '600' },
+});
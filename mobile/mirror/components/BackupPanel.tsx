@@ -0,0 +1,119 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+
+import { importJournal, inspectArchive, shareJournalExport } from '@/modules/archive/local';
+
+/**
+ * Export the journal to a shareable archive, or import one. The optional
+ * passphrase encrypts the export and unlocks an encrypted import.
+ */
+export function BackupPanel() {
+  const [passphrase, setPassphrase] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+
+  const onProgress = (done: number, total: number) => setProgress(total > 0 ? done / total : 0);
+
+  async function runExport() {
+    const go = async () => {
+      setBusy('Exporting…');
+      setProgress(0);
+      try {
+        await shareJournalExport({ passphrase: passphrase || undefined, onProgress });
+      } catch (e: any) {
+        Alert.alert('Export failed', String(e?.message ?? e));
+      } finally {
+        setBusy(null);
+      }
+    };
+    if (passphrase) return go();
+    Alert.alert(
+      'Export without a passphrase?',
+      'Anyone with the file will be able to watch your recordings and read your transcripts.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Export anyway', onPress: go },
+      ]
+    );
+  }
+
+  async function runImport() {
+    const picked = await DocumentPicker.getDocumentAsync({ copyToCacheDirectory: true, type: '*/*' });
+    if (picked.canceled || !picked.assets[0]) return;
+    const uri = picked.assets[0].uri;
+    setBusy('Importing…');
+    setProgress(0);
+    try {
+      const { encrypted } = await inspectArchive(uri);
+      if (encrypted && !passphrase) {
+        Alert.alert('Passphrase needed', 'This archive is encrypted. Enter its passphrase above and import again.');
+        return;
+      }
+      const { imported, skipped } = await importJournal(uri, { passphrase: passphrase || undefined, onProgress });
+      Alert.alert(
+        'Import finished',
+        `${imported.length} recording${imported.length === 1 ? '' : 's'} added` +
+          (skipped.length ? `, ${skipped.length} already on this device` : '') +
+          '.'
+      );
+    } catch (e: any) {
+      Alert.alert('Import failed', String(e?.message ?? e));
+    } finally {
+      setBusy(null);
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+    }
+  }
+
+  return (
+    <View style={{ gap: 10 }}>
+      <TextInput
+        style={styles.input}
+        value={passphrase}
+        onChangeText={setPassphrase}
+        placeholder="Passphrase (recommended)"
+        secureTextEntry
+        autoCapitalize="none"
+        autoCorrect={false}
+        editable={!busy}
+      />
+      {busy ? (
+        <View style={styles.busy}>
+          <ActivityIndicator />
+          <Text style={styles.busyText}>
+            {busy} {Math.round(progress * 100)}%
+          </Text>
+        </View>
+      ) : (
+        <View style={styles.buttons}>
+          <Pressable style={[styles.btn, styles.btnPrimary]} onPress={runExport}>
+            <Text style={[styles.btnText, { color: '#fff' }]}>Export journal</Text>
+          </Pressable>
+          <Pressable style={styles.btn} onPress={runImport}>
+            <Text style={styles.btnText}>Import…</Text>
+          </Pressable>
+        </View>
+      )}
+      <Text style={styles.hint}>Recordings already on this device are skipped when importing.</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: '#fff',
+  },
+  buttons: { flexDirection: 'row', gap: 8 },
+  btn: { flex: 1, alignItems: 'center', paddingVertical: 10, borderRadius: 10, backgroundColor: '#eef0f3' },
+  btnPrimary: { backgroundColor: '#0a7ea4' },
+  btnText: { fontWeight: '600', color: '#333' },
+  busy: { flexDirection: 'row', alignItems: 'center', gap: 10, paddingVertical: 6 },
+  busyText: { color: '#555' },
+  hint: { color: '#888', fontSize: 12 },
+});
@@ -0,0 +1,57 @@
+import { StyleSheet, Text, View, type StyleProp, type ViewStyle } from 'react-native';
+
+export type Bar = { label: string; value: number | null };
+
+/**
+ * Minimal vertical bar chart drawn with Views. `null` values (no data, as
+ * opposed to zero) render as an empty slot.
+ */
+export function BarChart({
+  bars,
+  color = '#0a7ea4',
+  height = 96,
+  format = (v) => String(Math.round(v)),
+  style,
+}: {
+  bars: Bar[];
+  color?: string;
+  height?: number;
+  format?: (v: number) => string;
+  style?: StyleProp<ViewStyle>;
+}) {
+  const max = Math.max(0, ...bars.map((b) => b.value ?? 0));
+
+  return (
+    <View style={[styles.row, style]}>
+      {bars.map((b, i) => (
+        <View key={`${b.label}#${i}`} style={styles.col}>
+          <Text style={styles.value} numberOfLines={1}>
+            {b.value ? format(b.value) : ''}
+          </Text>
+          <View style={[styles.slot, { height }]}>
+            {b.value != null && (
+              <View
+                style={[
+                  styles.bar,
+                  { height: max > 0 ? Math.max(2, (b.value / max) * height) : 2, backgroundColor: color },
+                ]}
+              />
+            )}
+          </View>
+          <Text style={styles.label} numberOfLines={1}>
+            {b.label}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: { flexDirection: 'row', alignItems: 'flex-end', gap: 6 },
+  col: { flex: 1, alignItems: 'center' },
+  value: { fontSize: 10, color: '#666', marginBottom: 2 },
+  slot: { width: '100%', justifyContent: 'flex-end' },
+  bar: { width: '100%', borderTopLeftRadius: 4, borderTopRightRadius: 4 },
+  label: { fontSize: 10, color: '#888', marginTop: 4 },
+});
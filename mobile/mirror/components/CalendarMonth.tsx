@@ -0,0 +1,113 @@
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+
+import { dayKey, monthGrid, type DaySummary } from '@/modules/calendar/days';
+import type { Mood } from '@/modules/sessions/local';
+
+export const MOOD_COLORS: Record<Mood, string> = {
+  great: '#2e9e5b',
+  good: '#7cc36b',
+  okay: '#e0b000',
+  low: '#e07a00',
+  rough: '#c0392b',
+};
+
+const WEEKDAYS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+function minutes(ms: number) {
+  const m = Math.round(ms / 60_000);
+  return m ? `${m}m` : '<1m';
+}
+
+/**
+ * One month, Monday first. Days with entries show how many, how long and
+ * the day's most common mood; tapping one calls `onSelect`.
+ */
+export function CalendarMonth({
+  month,
+  days,
+  selected,
+  onSelect,
+  onMonthChange,
+}: {
+  month: number;
+  days: Map<string, DaySummary>;
+  selected?: string | null;
+  onSelect: (day: DaySummary) => void;
+  onMonthChange: (by: number) => void;
+}) {
+  const today = dayKey(Date.now());
+  const title = new Date(month).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Pressable onPress={() => onMonthChange(-1)} hitSlop={12}>
+          <Text style={styles.nav}>‹</Text>
+        </Pressable>
+        <Text style={styles.title}>{title}</Text>
+        <Pressable onPress={() => onMonthChange(1)} hitSlop={12}>
+          <Text style={styles.nav}>›</Text>
+        </Pressable>
+      </View>
+      <View style={styles.week}>
+        {WEEKDAYS.map((d, i) => (
+          <Text key={i} style={[styles.cell, styles.weekday]}>
+            {d}
+          </Text>
+        ))}
+      </View>
+      {monthGrid(month).map((week) => (
+        <View key={week[0].key} style={styles.week}>
+          {week.map((cell) => {
+            const day = days.get(cell.key);
+            return (
+              <Pressable
+                key={cell.key}
+                style={[styles.cell, styles.day, cell.key === selected && styles.selected]}
+                disabled={!day}
+                onPress={() => day && onSelect(day)}
+              >
+                <Text
+                  style={[
+                    styles.date,
+                    !cell.inMonth && { opacity: 0.3 },
+                    cell.key === today && styles.today,
+                  ]}
+                >
+                  {cell.day}
+                </Text>
+                {day && (
+                  <>
+                    <View
+                      style={[styles.dot, { backgroundColor: day.mood ? MOOD_COLORS[day.mood as Mood] : '#0a7ea4' }]}
+                    >
+                      <Text style={styles.count}>{day.sessions.length}</Text>
+                    </View>
+                    <Text style={styles.minutes}>{minutes(day.durationMs)}</Text>
+                  </>
+                )}
+              </Pressable>
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { backgroundColor: '#fff', borderRadius: 12, padding: 8, elevation: 2 },
+  header: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingHorizontal: 8 },
+  nav: { fontSize: 26, color: '#0a7ea4', paddingHorizontal: 8 },
+  title: { fontWeight: '700', fontSize: 16, color: '#333' },
+  week: { flexDirection: 'row' },
+  cell: { flex: 1, alignItems: 'center' },
+  weekday: { color: '#888', fontSize: 12, paddingVertical: 6 },
+  day: { height: 64, paddingTop: 4, gap: 2, borderRadius: 8 },
+  selected: { backgroundColor: '#d9eef5' },
+  date: { color: '#333', fontVariant: ['tabular-nums'] },
+  today: { color: '#0a7ea4', fontWeight: '700' },
+  dot: { minWidth: 18, height: 18, borderRadius: 9, alignItems: 'center', justifyContent: 'center', paddingHorizontal: 4 },
+  count: { color: '#fff', fontSize: 11, fontWeight: '700' },
+  minutes: { color: '#666', fontSize: 10 },
+});
@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import type { Event } from '@/modules/rules/events';
+
+const MARKER_COLORS: Record<string, string> = {
+  bookmark: '#0a7ea4',
+  absolutist: '#e07a00',
+  hedging: '#9b59b6',
+  head_shake: '#c0392b',
+  shake_while_yes: '#c0392b',
+};
+
+/**
+ * Playback bar with a marker per event (bookmarks and rule hits). Tapping the
+ * bar seeks there; tapping a marker seeks to its event.
+ */
+export function EventScrubber({
+  positionMs,
+  durationMs,
+  events,
+  onSeek,
+}: {
+  positionMs: number;
+  durationMs: number;
+  events: Event[];
+  onSeek: (ms: number) => void;
+}) {
+  const [width, setWidth] = useState(0);
+  const frac = (ms: number) => (durationMs > 0 ? Math.min(1, Math.max(0, ms / durationMs)) : 0);
+
+  return (
+    <Pressable
+      style={styles.track}
+      onLayout={(e) => setWidth(e.nativeEvent.layout.width)}
+      onPress={(e) => width > 0 && onSeek((e.nativeEvent.locationX / width) * durationMs)}
+    >
+      <View style={styles.rail} />
+      <View style={[styles.fill, { width: `${frac(positionMs) * 100}%` }]} />
+      {events.map((ev, i) => (
+        <Pressable
+          key={`${ev.rule}@${ev.start_ms}#${i}`}
+          hitSlop={10}
+          onPress={() => onSeek(ev.start_ms)}
+          style={[
+            styles.marker,
+            { left: `${frac(ev.start_ms) * 100}%`, backgroundColor: MARKER_COLORS[ev.rule] ?? '#555' },
+          ]}
+        />
+      ))}
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  track: {
+    height: 24,
+    justifyContent: 'center',
+    marginHorizontal: 16,
+  },
+  rail: { position: 'absolute', left: 0, right: 0, height: 4, borderRadius: 2, backgroundColor: '#ddd' },
+  fill: { position: 'absolute', left: 0, height: 4, borderRadius: 2, backgroundColor: '#0a7ea4aa' },
+  marker: { position: 'absolute', width: 6, height: 18, marginLeft: -3, borderRadius: 3 },
+});
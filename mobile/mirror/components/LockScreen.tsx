@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+
+import {
+  biometricsAvailable,
+  resetWithDeviceAuth,
+  unlockWithBiometrics,
+  unlockWithPasscode,
+  useAppLock,
+} from '@/modules/lock/lock';
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'bio', '0', 'del'];
+
+/**
+ * Full-screen passcode pad shown by the root layout while the app is locked.
+ * Tries biometrics once on mount when enabled.
+ */
+export function LockScreen({ onRecordOnly }: { onRecordOnly?: () => void }) {
+  const { config, cooldownUntil } = useAppLock();
+  const [code, setCode] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [canUseBio, setCanUseBio] = useState(false);
+  const [noPasscode, setNoPasscode] = useState(false);
+
+  const tryBiometrics = useCallback(async () => {
+    try {
+      await unlockWithBiometrics();
+    } catch (e) {
+      console.warn('[Lock] biometrics failed:', e);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!config.biometrics) return;
+    biometricsAvailable().then((ok) => {
+      setCanUseBio(ok);
+      if (ok) tryBiometrics();
+    });
+  }, [config.biometrics, tryBiometrics]);
+
+  async function submit() {
+    const res = await unlockWithPasscode(code);
+    setCode('');
+    if (res === 'wrong') setMessage('Wrong passcode');
+    if (res === 'cooldown') setMessage('Too many attempts — try again in a moment');
+    if (res === 'no-passcode') {
+      setNoPasscode(true);
+      setMessage(canUseBio ? 'Passcode missing — unlock with Face/Touch ID' : 'Passcode missing — reset it below');
+    }
+  }
+
+  async function reset() {
+    try {
+      if (!(await resetWithDeviceAuth())) setMessage('Could not confirm it is you');
+    } catch (e) {
+      console.warn('[Lock] reset failed:', e);
+      setMessage('Could not confirm it is you');
+    }
+  }
+
+  function press(key: string) {
+    if (key === 'bio') {
+      if (canUseBio) tryBiometrics();
+      return;
+    }
+    if (key === 'del') {
+      setCode((c) => c.slice(0, -1));
+      return;
+    }
+    setMessage(null);
+    setCode((c) => (c + key).slice(0, 8));
+  }
+
+  const coolingDown = Date.now() < cooldownUntil;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Mirror is locked</Text>
+      <View style={styles.dots}>
+        {Array.from({ length: Math.max(4, code.length) }).map((_, i) => (
+          <View key={i} style={[styles.dot, i < code.length && styles.dotFilled]} />
+        ))}
+      </View>
+      <Text style={styles.message}>{message ?? ' '}</Text>
+
+      <View style={styles.pad}>
+        {KEYS.map((k) => (
+          <Pressable
+            key={k}
+            style={styles.key}
+            onPress={() => press(k)}
+            disabled={coolingDown || (k === 'bio' && !canUseBio)}
+          >
+            <Text style={styles.keyText}>
+              {k === 'bio' ? (canUseBio ? 'Face/Touch' : '') : k === 'del' ? '⌫' : k}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <Pressable
+        style={[styles.unlockBtn, (code.length < 4 || coolingDown) && { opacity: 0.4 }]}
+        onPress={submit}
+        disabled={code.length < 4 || coolingDown}
+      >
+        <Text style={styles.recordText}>Unlock</Text>
+      </Pressable>
+
+      {noPasscode && (
+        <Pressable style={styles.recordBtn} onPress={reset}>
+          <Text style={styles.recordText}>Reset with device passcode</Text>
+        </Pressable>
+      )}
+
+      {config.recordOnly && onRecordOnly && (
+        <Pressable style={styles.recordBtn} onPress={onRecordOnly}>
+          <Text style={styles.recordText}>Record without unlocking</Text>
+        </Pressable>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: '#0b0b0f',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  title: { color: '#fff', fontSize: 20, fontWeight: '600', marginBottom: 18 },
+  dots: { flexDirection: 'row', gap: 12 },
+  dot: { width: 14, height: 14, borderRadius: 7, borderWidth: 1.5, borderColor: '#fff' },
+  dotFilled: { backgroundColor: '#fff' },
+  message: { color: '#ff8080', marginTop: 12, minHeight: 20 },
+  pad: { flexDirection: 'row', flexWrap: 'wrap', width: 270, marginTop: 18 },
+  key: { width: 90, height: 72, alignItems: 'center', justifyContent: 'center' },
+  keyText: { color: '#fff', fontSize: 26 },
+  unlockBtn: {
+    marginTop: 12,
+    paddingHorizontal: 28,
+    paddingVertical: 12,
+    borderRadius: 24,
+    backgroundColor: '#0a7ea4',
+  },
+  recordBtn: {
+    marginTop: 24,
+    paddingHorizontal: 18,
+    paddingVertical: 12,
+    borderRadius: 24,
+    backgroundColor: '#ffffff1f',
+  },
+  recordText: { color: '#fff', fontWeight: '600' },
+});
@@ -0,0 +1,39 @@
+import { useEffect } from 'react';
+import { Pressable, StyleSheet, Text } from 'react-native';
+import Animated, { FadeIn, FadeOut } from 'react-native-reanimated';
+
+import type { Nudge } from '@/modules/nudge/engine';
+
+const VISIBLE_MS = 8_000;
+
+/** One gentle prompt over the camera preview; fades out on its own or on tap. */
+export function NudgeBubble({ nudge, onDismiss }: { nudge: Nudge | null; onDismiss: () => void }) {
+  useEffect(() => {
+    if (!nudge) return;
+    const t = setTimeout(onDismiss, VISIBLE_MS);
+    return () => clearTimeout(t);
+  }, [nudge, onDismiss]);
+
+  if (!nudge) return null;
+  return (
+    <Animated.View entering={FadeIn} exiting={FadeOut} style={styles.bubble}>
+      <Pressable onPress={onDismiss} hitSlop={8}>
+        <Text style={styles.text}>{nudge.text}</Text>
+      </Pressable>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bubble: {
+    position: 'absolute',
+    top: 64,
+    left: 24,
+    right: 24,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 18,
+    backgroundColor: '#000000b3',
+  },
+  text: { color: '#fff', fontSize: 16, textAlign: 'center' },
+});
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { Modal, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+
+import type { PromptTemplate } from '@/modules/prompts/templates';
+
+type Props = {
+  templates: PromptTemplate[];
+  template: PromptTemplate | undefined;
+  step: number;
+  onStep: (step: number) => void;
+  onSelect: (id: string | null) => void;
+  /** Choosing another template is only allowed before recording starts. */
+  locked?: boolean;
+};
+
+/**
+ * The current journaling prompt over the camera preview, with back/next for
+ * multi-part templates and a picker for choosing one.
+ */
+export function PromptCard({ templates, template, step, onStep, onSelect, locked }: Props) {
+  const [picking, setPicking] = useState(false);
+
+  const choose = (id: string | null) => {
+    setPicking(false);
+    onSelect(id);
+  };
+
+  const picker = (
+    <Modal visible={picking} transparent animationType="slide" onRequestClose={() => setPicking(false)}>
+      <Pressable style={styles.backdrop} onPress={() => setPicking(false)} />
+      <View style={styles.sheet}>
+        <Text style={styles.sheetTitle}>What do you want to talk about?</Text>
+        <ScrollView contentContainerStyle={{ gap: 8 }}>
+          <Pressable style={[styles.option, !template && styles.optionOn]} onPress={() => choose(null)}>
+            <Text style={styles.optionTitle}>Free recording</Text>
+            <Text style={styles.optionHint}>No prompt</Text>
+          </Pressable>
+          {templates.map((t) => (
+            <Pressable
+              key={t.id}
+              style={[styles.option, template?.id === t.id && styles.optionOn]}
+              onPress={() => choose(t.id)}
+            >
+              <Text style={styles.optionTitle}>{t.title}</Text>
+              <Text style={styles.optionHint} numberOfLines={1}>
+                {t.parts.length > 1 ? `${t.parts.length} parts · ` : ''}
+                {t.parts[0]}
+              </Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+        <Text style={styles.optionHint}>Write your own templates in Settings.</Text>
+      </View>
+    </Modal>
+  );
+
+  if (!template) {
+    return (
+      <>
+        {!locked && (
+          <Pressable style={styles.pill} onPress={() => setPicking(true)}>
+            <Text style={styles.pillText}>Choose a prompt</Text>
+          </Pressable>
+        )}
+        {picker}
+      </>
+    );
+  }
+
+  const last = template.parts.length - 1;
+  const index = Math.min(step, last);
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Pressable disabled={locked} onPress={() => setPicking(true)} hitSlop={8}>
+          <Text style={styles.title}>
+            {template.title}
+            {locked ? '' : ' ▾'}
+          </Text>
+        </Pressable>
+        {last > 0 && (
+          <Text style={styles.counter}>
+            {index + 1}/{template.parts.length}
+          </Text>
+        )}
+      </View>
+      <Text style={styles.text}>{template.parts[index]}</Text>
+      {last > 0 && (
+        <View style={styles.steps}>
+          <Pressable style={styles.stepBtn} disabled={index === 0} onPress={() => onStep(index - 1)}>
+            <Text style={[styles.stepText, index === 0 && { opacity: 0.4 }]}>Back</Text>
+          </Pressable>
+          <Pressable style={styles.stepBtn} disabled={index === last} onPress={() => onStep(index + 1)}>
+            <Text style={[styles.stepText, index === last && { opacity: 0.4 }]}>Next</Text>
+          </Pressable>
+        </View>
+      )}
+      {picker}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: { width: '100%', padding: 12, borderRadius: 16, backgroundColor: '#000000b3', gap: 6 },
+  header: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  title: { color: '#9fd8ea', fontWeight: '700' },
+  counter: { color: 'white', opacity: 0.7, fontVariant: ['tabular-nums'] },
+  text: { color: 'white', fontSize: 16 },
+  steps: { flexDirection: 'row', justifyContent: 'space-between' },
+  stepBtn: { paddingHorizontal: 12, paddingVertical: 6 },
+  stepText: { color: 'white', fontWeight: '600' },
+  pill: { paddingHorizontal: 14, paddingVertical: 8, borderRadius: 18, backgroundColor: '#00000099' },
+  pillText: { color: 'white' },
+  backdrop: { flex: 1, backgroundColor: '#00000066' },
+  sheet: {
+    maxHeight: '70%',
+    padding: 16,
+    paddingBottom: 28,
+    gap: 12,
+    borderTopLeftRadius: 18,
+    borderTopRightRadius: 18,
+    backgroundColor: '#fff',
+  },
+  sheetTitle: { fontSize: 17, fontWeight: '700', color: '#333' },
+  option: { padding: 12, borderRadius: 12, backgroundColor: '#f3f4f6' },
+  optionOn: { backgroundColor: '#d9eef5' },
+  optionTitle: { fontWeight: '600', color: '#333' },
+  optionHint: { color: '#666', fontSize: 12, marginTop: 2 },
+});
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Alert, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+
+import { deleteTemplate, saveTemplate, useTemplates } from '@/modules/prompts/local';
+import { MAX_TEMPLATE_PARTS, newTemplateId, partsFromText } from '@/modules/prompts/templates';
+
+type Draft = { id: string; title: string; parts: string };
+
+/** Write, edit and delete custom journaling templates. */
+export function PromptTemplatesPanel() {
+  const custom = useTemplates().filter((t) => !t.builtIn);
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  function save() {
+    if (!draft) return;
+    try {
+      saveTemplate({ id: draft.id, title: draft.title, parts: partsFromText(draft.parts) });
+      setDraft(null);
+    } catch (e: any) {
+      Alert.alert('Template not saved', String(e?.message ?? e));
+    }
+  }
+
+  function remove(id: string, title: string) {
+    Alert.alert(`Delete "${title}"?`, 'Entries recorded with it are kept.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => deleteTemplate(id) },
+    ]);
+  }
+
+  if (draft) {
+    return (
+      <View style={{ gap: 10 }}>
+        <TextInput
+          style={styles.input}
+          value={draft.title}
+          onChangeText={(title) => setDraft({ ...draft, title })}
+          placeholder="Title, e.g. Morning pages"
+          maxLength={60}
+        />
+        <TextInput
+          style={[styles.input, styles.multiline]}
+          value={draft.parts}
+          onChangeText={(parts) => setDraft({ ...draft, parts })}
+          placeholder={'One prompt per line.\nEach line is shown as its own step.'}
+          multiline
+          textAlignVertical="top"
+        />
+        <Text style={styles.hint}>Up to {MAX_TEMPLATE_PARTS} prompts.</Text>
+        <View style={styles.buttons}>
+          <Pressable style={styles.btn} onPress={() => setDraft(null)}>
+            <Text style={styles.btnText}>Cancel</Text>
+          </Pressable>
+          <Pressable style={[styles.btn, styles.btnPrimary]} onPress={save}>
+            <Text style={[styles.btnText, { color: '#fff' }]}>Save template</Text>
+          </Pressable>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={{ gap: 10 }}>
+      {custom.map((t) => (
+        <View key={t.id} style={styles.item}>
+          <Pressable
+            style={{ flex: 1 }}
+            onPress={() => setDraft({ id: t.id, title: t.title, parts: t.parts.join('\n') })}
+          >
+            <Text style={styles.itemTitle}>{t.title}</Text>
+            <Text style={styles.hint} numberOfLines={1}>
+              {t.parts.length} prompt{t.parts.length === 1 ? '' : 's'} · {t.parts[0]}
+            </Text>
+          </Pressable>
+          <Pressable onPress={() => remove(t.id, t.title)} hitSlop={8}>
+            <Text style={styles.delete}>Delete</Text>
+          </Pressable>
+        </View>
+      ))}
+      <Pressable style={styles.btn} onPress={() => setDraft({ id: newTemplateId(), title: '', parts: '' })}>
+        <Text style={styles.btnText}>New template</Text>
+      </Pressable>
+      <Text style={styles.hint}>Pick a template on the Record tab before you start recording.</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: '#fff',
+  },
+  multiline: { minHeight: 110 },
+  buttons: { flexDirection: 'row', gap: 8 },
+  btn: { flex: 1, alignItems: 'center', paddingVertical: 10, borderRadius: 10, backgroundColor: '#eef0f3' },
+  btnPrimary: { backgroundColor: '#0a7ea4' },
+  btnText: { fontWeight: '600', color: '#333' },
+  item: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+  itemTitle: { fontWeight: '600', color: '#333' },
+  delete: { color: '#b00020', fontWeight: '600' },
+  hint: { color: '#888', fontSize: 12 },
+});
@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react';
+import { Modal, Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+
+import { MOODS, type Mood, type Session, type SessionMeta } from '@/modules/sessions/local';
+
+/**
+ * Bottom-sheet style editor for a session's title, notes, tags and mood.
+ * Tags are typed comma-separated and normalized by `updateSessionMeta`.
+ */
+export function SessionMetaEditor({
+  session,
+  onCancel,
+  onSave,
+}: {
+  session: Session | null;
+  onCancel: () => void;
+  onSave: (meta: SessionMeta) => void;
+}) {
+  const [title, setTitle] = useState('');
+  const [notes, setNotes] = useState('');
+  const [tags, setTags] = useState('');
+  const [mood, setMood] = useState<Mood | undefined>();
+
+  useEffect(() => {
+    setTitle(session?.title ?? '');
+    setNotes(session?.notes ?? '');
+    setTags(session?.tags?.join(', ') ?? '');
+    setMood(session?.mood);
+  }, [session]);
+
+  return (
+    <Modal visible={!!session} transparent animationType="slide" onRequestClose={onCancel}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <Text style={styles.heading}>Edit entry</Text>
+
+          <Text style={styles.label}>Title</Text>
+          <TextInput style={styles.input} value={title} onChangeText={setTitle} placeholder="Untitled" />
+
+          <Text style={styles.label}>Notes</Text>
+          <TextInput
+            style={[styles.input, styles.multiline]}
+            value={notes}
+            onChangeText={setNotes}
+            multiline
+            placeholder="Anything to remember about this entry"
+          />
+
+          <Text style={styles.label}>Tags</Text>
+          <TextInput
+            style={styles.input}
+            value={tags}
+            onChangeText={setTags}
+            autoCapitalize="none"
+            placeholder="work, family"
+          />
+
+          <Text style={styles.label}>Mood</Text>
+          <View style={styles.moodRow}>
+            {MOODS.map((m) => (
+              <Pressable
+                key={m}
+                style={[styles.mood, mood === m && styles.moodActive]}
+                onPress={() => setMood(mood === m ? undefined : m)}
+              >
+                <Text style={[styles.moodText, mood === m && styles.moodTextActive]}>{m}</Text>
+              </Pressable>
+            ))}
+          </View>
+
+          <View style={styles.actions}>
+            <Pressable style={styles.secondaryBtn} onPress={onCancel}>
+              <Text style={styles.secondaryText}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              style={styles.primaryBtn}
+              onPress={() => onSave({ title, notes, tags: tags.split(','), mood })}
+            >
+              <Text style={styles.primaryText}>Save</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: { flex: 1, justifyContent: 'flex-end', backgroundColor: 'rgba(0,0,0,0.35)' },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 16,
+    paddingBottom: 32,
+    gap: 6,
+  },
+  heading: { fontSize: 18, fontWeight: '700', marginBottom: 6, color: '#222' },
+  label: { color: '#555', fontWeight: '600', marginTop: 6 },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    color: '#222',
+  },
+  multiline: { minHeight: 72, textAlignVertical: 'top' },
+  moodRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 6 },
+  mood: { paddingHorizontal: 10, paddingVertical: 6, borderRadius: 999, backgroundColor: '#f1f1f4' },
+  moodActive: { backgroundColor: '#0a7ea4' },
+  moodText: { color: '#333' },
+  moodTextActive: { color: '#fff', fontWeight: '600' },
+  actions: { flexDirection: 'row', justifyContent: 'flex-end', gap: 10, marginTop: 12 },
+  primaryBtn: { paddingHorizontal: 18, paddingVertical: 10, borderRadius: 20, backgroundColor: '#0a7ea4' },
+  primaryText: { color: '#fff', fontWeight: '700' },
+  secondaryBtn: { paddingHorizontal: 18, paddingVertical: 10, borderRadius: 20, backgroundColor: '#eee' },
+  secondaryText: { color: '#333' },
+});
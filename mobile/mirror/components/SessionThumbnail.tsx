@@ -0,0 +1,40 @@
+import { Image } from 'expo-image';
+import { useEffect, useState } from 'react';
+import { StyleSheet, Text, View, type StyleProp, type ViewStyle } from 'react-native';
+
+import { loadThumbnail } from '@/modules/thumbnails/thumbnails';
+
+/**
+ * Poster frame of a recording (decrypted into memory), or a plain
+ * placeholder for recordings without one yet.
+ */
+export function SessionThumbnail({ path, style }: { path?: string; style?: StyleProp<ViewStyle> }) {
+  const [uri, setUri] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUri(null);
+    if (!path) return;
+    let cancelled = false;
+    loadThumbnail(path)
+      .then((u) => !cancelled && setUri(u))
+      .catch((e) => console.warn('[Thumbnail] load failed:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [path]);
+
+  return (
+    <View style={[styles.frame, style]}>
+      {uri ? (
+        <Image source={{ uri }} style={StyleSheet.absoluteFill} contentFit="cover" recyclingKey={path} transition={100} />
+      ) : (
+        <Text style={styles.placeholder}>▶</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  frame: { backgroundColor: '#000', alignItems: 'center', justifyContent: 'center', overflow: 'hidden' },
+  placeholder: { color: '#ffffff88', fontSize: 22 },
+});
@@ -0,0 +1,107 @@
+import { memo, useEffect, useMemo, useRef } from 'react';
+import { ScrollView, StyleSheet, Text, View, type StyleProp, type ViewStyle } from 'react-native';
+
+import type { TranscriptSegment, TranscriptWord } from '@/modules/asr/transcript';
+
+/** Index of the word being spoken at `ms` (last word starting at or before it), or -1. */
+export function wordIndexAt(words: TranscriptWord[], ms: number): number {
+  let lo = 0;
+  let hi = words.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (words[mid].t_ms <= ms) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+type Paragraph = { start_ms: number; from: number; to: number }; // word index range [from, to)
+
+/** Group words into the transcript's segments (one paragraph each). */
+function paragraphs(words: TranscriptWord[], segments: TranscriptSegment[]): Paragraph[] {
+  if (!segments.length) return words.length ? [{ start_ms: words[0].t_ms, from: 0, to: words.length }] : [];
+  const out: Paragraph[] = [];
+  let i = 0;
+  segments.forEach((seg, k) => {
+    const next = segments[k + 1]?.start_ms ?? Infinity;
+    const from = i;
+    while (i < words.length && words[i].t_ms < next) i++;
+    if (i > from) out.push({ start_ms: seg.start_ms, from, to: i });
+  });
+  return out;
+}
+
+const Para = memo(function Para({
+  words,
+  para,
+  active,
+  onSeek,
+}: {
+  words: TranscriptWord[];
+  para: Paragraph;
+  active: number; // global word index, or -1 when not in this paragraph
+  onSeek: (ms: number) => void;
+}) {
+  return (
+    <Text style={styles.para}>
+      {words.slice(para.from, para.to).map((w, k) => {
+        const idx = para.from + k;
+        return (
+          <Text key={idx} style={idx === active && styles.active} onPress={() => onSeek(w.t_ms)} suppressHighlighting>
+            {w.word}{' '}
+          </Text>
+        );
+      })}
+    </Text>
+  );
+});
+
+/**
+ * Scrolling transcript that highlights the word at `positionMs` and keeps
+ * its paragraph in view. Tapping a word calls `onSeek` with its start time.
+ */
+export function TranscriptView({
+  words,
+  segments,
+  positionMs,
+  onSeek,
+  style,
+}: {
+  words: TranscriptWord[];
+  segments: TranscriptSegment[];
+  positionMs: number;
+  onSeek: (ms: number) => void;
+  style?: StyleProp<ViewStyle>;
+}) {
+  const paras = useMemo(() => paragraphs(words, segments), [words, segments]);
+  const active = wordIndexAt(words, positionMs);
+  const activePara = paras.findIndex((p) => active >= p.from && active < p.to);
+
+  const scrollRef = useRef<ScrollView>(null);
+  const offsets = useRef<number[]>([]);
+  useEffect(() => {
+    const y = offsets.current[activePara];
+    if (y != null) scrollRef.current?.scrollTo({ y: Math.max(0, y - 40), animated: true });
+  }, [activePara]);
+
+  return (
+    <ScrollView ref={scrollRef} style={style} contentContainerStyle={styles.content}>
+      {paras.map((p, i) => (
+        <View key={p.from} onLayout={(e) => (offsets.current[i] = e.nativeEvent.layout.y)}>
+          <Para words={words} para={p} active={i === activePara ? active : -1} onSeek={onSeek} />
+        </View>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: { padding: 16, gap: 12 },
+  para: { fontSize: 17, lineHeight: 26, color: '#333' },
+  active: { backgroundColor: '#ffe58a', color: '#000' },
+});
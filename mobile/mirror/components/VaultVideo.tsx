@@ -0,0 +1,114 @@
+import { useEffect, useImperativeHandle, useRef, useState, type Ref } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, Text, View, type StyleProp, type ViewStyle } from 'react-native';
+import { ResizeMode, Video } from 'expo-av';
+
+import { decryptToCache, releasePlaintext } from '@/modules/vault/vault';
+
+export type VaultVideoHandle = {
+  /** Seek (and keep playing); ignored until the recording is open. */
+  seek(positionMs: number): void;
+};
+
+const SEEK_EXACT = { toleranceMillisBefore: 0, toleranceMillisAfter: 0 };
+
+/**
+ * Player for an encrypted recording. Nothing is decrypted until the user taps
+ * play (or `autoOpen` is set); the plaintext copy lives in the cache only
+ * while this is mounted. Changing `positionMs` (or calling `ref.seek`) seeks
+ * the player; `onProgress` reports the playhead while it plays.
+ */
+export function VaultVideo({
+  uri,
+  style,
+  positionMs,
+  autoOpen = false,
+  onProgress,
+  ref,
+}: {
+  uri: string;
+  style?: StyleProp<ViewStyle>;
+  positionMs?: number;
+  autoOpen?: boolean;
+  onProgress?: (positionMs: number, durationMs?: number) => void;
+  ref?: Ref<VaultVideoHandle>;
+}) {
+  const [state, setState] = useState<'idle' | 'decrypting' | 'ready' | 'error'>('idle');
+  const [plainUri, setPlainUri] = useState<string | null>(null);
+  const plainRef = useRef<string | null>(null);
+  const videoRef = useRef<Video>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    if (autoOpen) open();
+    return () => {
+      if (plainRef.current) releasePlaintext(plainRef.current);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  function seek(ms: number) {
+    videoRef.current?.setPositionAsync(ms, SEEK_EXACT).catch((e) => console.warn('[VaultVideo] seek failed:', e));
+  }
+
+  useImperativeHandle(ref, () => ({
+    seek: (ms) => {
+      if (loaded) seek(ms);
+    },
+  }));
+
+  useEffect(() => {
+    if (loaded && positionMs != null) seek(positionMs);
+  }, [loaded, positionMs]);
+
+  async function open() {
+    setState('decrypting');
+    try {
+      const plain = await decryptToCache(uri);
+      plainRef.current = plain;
+      setPlainUri(plain);
+      setState('ready');
+    } catch (e) {
+      console.warn('[VaultVideo] decrypt failed:', e);
+      setState('error');
+    }
+  }
+
+  if (state === 'ready' && plainUri) {
+    return (
+      <Video
+        ref={videoRef}
+        source={{ uri: plainUri }}
+        onLoad={() => setLoaded(true)}
+        progressUpdateIntervalMillis={200}
+        onPlaybackStatusUpdate={(status) => {
+          if (status.isLoaded) onProgress?.(status.positionMillis, status.durationMillis);
+        }}
+        style={style}
+        resizeMode={ResizeMode.CONTAIN}
+        useNativeControls
+        shouldPlay
+        isLooping={false}
+      />
+    );
+  }
+
+  return (
+    <Pressable style={[style, styles.placeholder]} onPress={open} disabled={state === 'decrypting'}>
+      {state === 'decrypting' ? (
+        <ActivityIndicator color="#fff" />
+      ) : (
+        <View style={styles.center}>
+          <Text style={styles.play}>▶</Text>
+          {state === 'error' && <Text style={styles.error}>Could not open this recording</Text>}
+        </View>
+      )}
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  placeholder: { alignItems: 'center', justifyContent: 'center' },
+  center: { alignItems: 'center', gap: 6 },
+  play: { color: '#fff', fontSize: 36 },
+  error: { color: '#ff8080' },
+});
@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import { StyleSheet, Text, View, type StyleProp, type ViewStyle } from 'react-native';
+
+import { downsample } from '@/modules/waveform/peaks';
+import { loadWaveform } from '@/modules/waveform/local';
+
+/**
+ * Bars for 0…1 levels, centred vertically. With `progress` (0…1) the bars
+ * before the playhead are drawn in `activeColor`.
+ */
+export function WaveformBars({
+  peaks,
+  bars = peaks.length,
+  progress,
+  color = '#ffffff88',
+  activeColor = '#fff',
+  style,
+}: {
+  peaks: number[];
+  bars?: number;
+  progress?: number;
+  color?: string;
+  activeColor?: string;
+  style?: StyleProp<ViewStyle>;
+}) {
+  const shown = downsample(peaks, bars);
+  const played = progress == null ? 0 : Math.round(progress * shown.length);
+  return (
+    <View style={[styles.bars, style]}>
+      {shown.map((p, i) => (
+        <View
+          key={i}
+          style={[styles.bar, { height: `${Math.max(4, p * 100)}%`, backgroundColor: i < played ? activeColor : color }]}
+        />
+      ))}
+    </View>
+  );
+}
+
+/**
+ * Waveform of an audio-only session (decrypted into memory), or a plain
+ * placeholder while it loads or if the session has none.
+ */
+export function SessionWaveform({
+  path,
+  bars,
+  progress,
+  style,
+}: {
+  path?: string;
+  bars?: number;
+  progress?: number;
+  style?: StyleProp<ViewStyle>;
+}) {
+  const [peaks, setPeaks] = useState<number[] | null>(null);
+
+  useEffect(() => {
+    setPeaks(null);
+    if (!path) return;
+    let cancelled = false;
+    loadWaveform(path)
+      .then((w) => !cancelled && setPeaks(w.peaks))
+      .catch((e) => console.warn('[Waveform] load failed:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [path]);
+
+  return (
+    <View style={[styles.frame, style]}>
+      {peaks ? (
+        <WaveformBars peaks={peaks} bars={bars} progress={progress} style={StyleSheet.absoluteFill} />
+      ) : (
+        <Text style={styles.placeholder}>♪</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  frame: { backgroundColor: '#1d3b47', alignItems: 'center', justifyContent: 'center', overflow: 'hidden' },
+  bars: { flexDirection: 'row', alignItems: 'center', gap: 1, padding: 6 },
+  bar: { flex: 1, borderRadius: 1 },
+  placeholder: { color: '#ffffff88', fontSize: 22 },
+});
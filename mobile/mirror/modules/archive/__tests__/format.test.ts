@@ -0,0 +1,59 @@
+import { ArchiveError, ARCHIVE_VERSION, belongsTo, isSafeFileName, parseManifest } from '../format';
+
+const SHA = 'a'.repeat(64);
+
+function manifest(files: { name: string; sessionId: string }[], ids = ['A1', 'B2']) {
+  return JSON.stringify({
+    format: 'mirror-journal',
+    version: ARCHIVE_VERSION,
+    createdAt: 1,
+    recordingsDir: 'file:///old/recordings',
+    sessions: ids.map((id) => ({ id, createdAt: 1, videoPath: '/anywhere' })),
+    files: files.map((f) => ({ ...f, size: 1, sha256: SHA })),
+  });
+}
+
+describe('archive manifest', () => {
+  it('accepts files named after their session', () => {
+    const m = parseManifest(
+      manifest([
+        { name: 'A1_session.mp4', sessionId: 'A1' },
+        { name: 'A1.transcript.json', sessionId: 'A1' },
+        { name: 'B2_session.m4a', sessionId: 'B2' },
+      ])
+    );
+    expect(m.files).toHaveLength(3);
+  });
+
+  it("rejects a file that is not its session's", () => {
+    expect(() => parseManifest(manifest([{ name: 'B2_session.mp4', sessionId: 'A1' }]))).toThrow(ArchiveError);
+    expect(() => parseManifest(manifest([{ name: 'A1session.mp4', sessionId: 'A1' }]))).toThrow('not a file of session');
+  });
+
+  it('rejects unsafe names, unknown sessions and duplicates', () => {
+    expect(() => parseManifest(manifest([{ name: '../A1_session.mp4', sessionId: 'A1' }]))).toThrow('invalid manifest');
+    expect(() => parseManifest(manifest([{ name: 'C3_session.mp4', sessionId: 'C3' }]))).toThrow('unknown session');
+    expect(() =>
+      parseManifest(
+        manifest([
+          { name: 'A1_session.mp4', sessionId: 'A1' },
+          { name: 'A1_session.mp4', sessionId: 'A1' },
+        ])
+      )
+    ).toThrow('listed twice');
+  });
+
+  it('rejects session ids that are not plain file names', () => {
+    expect(() => parseManifest(manifest([], ['../x']))).toThrow('invalid manifest');
+  });
+});
+
+describe('file names', () => {
+  it('matches only `<id>.` and `<id>_` prefixes', () => {
+    expect(belongsTo('A1.face.json', 'A1')).toBe(true);
+    expect(belongsTo('A1_session.mp4', 'A1')).toBe(true);
+    expect(belongsTo('A12_session.mp4', 'A1')).toBe(false);
+    expect(isSafeFileName('a/b')).toBe(false);
+    expect(isSafeFileName('.hidden')).toBe(false);
+  });
+});
@@ -0,0 +1,193 @@
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { bytesToUtf8, utf8ToBytes } from '@noble/ciphers/utils';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { z } from 'zod';
+
+/**
+ * Journal archive (.mirror): a single file holding every session's files and
+ * a manifest, for backups and moving to another device.
+ *
+ *   "MJAR" | version u8 | flags u8
+ *   [if encrypted: salt (16) | scrypt logN u8 | r u8 | p u8]
+ *   then frames: type u8 | length u32be | payload
+ *
+ * Frames are FILE (JSON `{name}`), DATA (up to 1 MiB of that file), MANIFEST
+ * and a closing END, so a truncated archive is detected. With a passphrase
+ * each payload is nonce (24) | XChaCha20-Poly1305(data + tag), with the frame
+ * index and type as AAD so frames cannot be reordered or swapped.
+ *
+ * File contents are stored decrypted from the device vault (the vault key
+ * never leaves the device), which is why the passphrase variant exists.
+ */
+
+export const ARCHIVE_VERSION = 1;
+export const ARCHIVE_EXT = 'mirror';
+export const FRAME_DATA_BYTES = 1024 * 1024;
+
+const MAGIC = [0x4d, 0x4a, 0x41, 0x52]; // "MJAR"
+const FLAG_ENCRYPTED = 1;
+const SALT_BYTES = 16;
+const NONCE_BYTES = 24;
+export const FRAME_HEADER_BYTES = 5;
+
+export const FRAME_TYPES = { file: 1, data: 2, manifest: 3, end: 0x7f } as const;
+export type FrameType = (typeof FRAME_TYPES)[keyof typeof FRAME_TYPES];
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+// ---- manifest ---------------------------------------------------------------
+
+// plain file names only: nothing that could escape the recordings directory
+export const isSafeFileName = (name: string) => /^(?!\.)[^/\\]+$/.test(name);
+// every file of session <id> is `<id>.…` or `<id>_…` (as in purgeSession)
+export const belongsTo = (name: string, id: string) => name.startsWith(`${id}.`) || name.startsWith(`${id}_`);
+const FileNameSchema = z.string().refine(isSafeFileName, 'invalid file name');
+
+const ManifestFileSchema = z.object({
+  name: FileNameSchema,
+  sessionId: z.string(),
+  size: z.number().int().nonnegative(),
+  sha256: z.string().regex(/^[0-9a-f]{64}$/),
+});
+
+export const ManifestSchema = z.object({
+  format: z.literal('mirror-journal'),
+  version: z.literal(ARCHIVE_VERSION),
+  createdAt: z.number(),
+  recordingsDir: z.string(),        // exporting device's dir, rewritten on import
+  // rows as exported; their path fields are not trusted on import (see merge in ./local)
+  sessions: z.array(z.looseObject({ id: FileNameSchema, createdAt: z.number() })),
+  files: z.array(ManifestFileSchema),
+});
+
+export type ArchiveManifest = z.infer<typeof ManifestSchema>;
+export type ArchiveFile = z.infer<typeof ManifestFileSchema>;
+
+export function parseManifest(text: string): ArchiveManifest {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ArchiveError('manifest is not JSON');
+  }
+  const parsed = ManifestSchema.safeParse(raw);
+  if (!parsed.success) throw new ArchiveError(`invalid manifest: ${z.prettifyError(parsed.error)}`);
+  const ids = new Set(parsed.data.sessions.map((s) => s.id));
+  const names = new Set<string>();
+  for (const f of parsed.data.files) {
+    if (!ids.has(f.sessionId)) throw new ArchiveError(`manifest: ${f.name} belongs to unknown session ${f.sessionId}`);
+    if (!belongsTo(f.name, f.sessionId)) throw new ArchiveError(`manifest: ${f.name} is not a file of session ${f.sessionId}`);
+    if (names.has(f.name)) throw new ArchiveError(`manifest: ${f.name} listed twice`);
+    names.add(f.name);
+  }
+  return parsed.data;
+}
+
+// ---- header -----------------------------------------------------------------
+
+export type KdfParams = { salt: Uint8Array; logN: number; r: number; p: number };
+
+// ~16 MiB and a few seconds in Hermes; recorded per archive so it can change
+export const DEFAULT_KDF = { logN: 14, r: 8, p: 1 };
+
+export function encodeHeader(kdf: KdfParams | null): Uint8Array {
+  const out = new Uint8Array(6 + (kdf ? SALT_BYTES + 3 : 0));
+  out.set(MAGIC, 0);
+  out[4] = ARCHIVE_VERSION;
+  out[5] = kdf ? FLAG_ENCRYPTED : 0;
+  if (kdf) {
+    out.set(kdf.salt, 6);
+    out.set([kdf.logN, kdf.r, kdf.p], 6 + SALT_BYTES);
+  }
+  return out;
+}
+
+/** Bytes needed to decode the header, given its first 6 bytes. */
+export function headerLength(first6: Uint8Array): number {
+  if (first6.length < 6 || !MAGIC.every((b, i) => first6[i] === b)) throw new ArchiveError('not a Mirror archive');
+  if (first6[4] !== ARCHIVE_VERSION) throw new ArchiveError(`unsupported archive version ${first6[4]}`);
+  return first6[5] & FLAG_ENCRYPTED ? 6 + SALT_BYTES + 3 : 6;
+}
+
+export function decodeHeader(bytes: Uint8Array): { kdf: KdfParams | null } {
+  const len = headerLength(bytes.subarray(0, 6));
+  if (bytes.length < len) throw new ArchiveError('truncated header');
+  if (len === 6) return { kdf: null };
+  const [logN, r, p] = bytes.subarray(6 + SALT_BYTES, len);
+  if (logN < 10 || logN > 20 || !r || !p) throw new ArchiveError('invalid key derivation parameters');
+  return { kdf: { salt: bytes.slice(6, 6 + SALT_BYTES), logN, r, p } };
+}
+
+export function deriveArchiveKey(passphrase: string, kdf: KdfParams): Promise<Uint8Array> {
+  return scryptAsync(utf8ToBytes(passphrase.normalize('NFKC')), kdf.salt, {
+    N: 2 ** kdf.logN,
+    r: kdf.r,
+    p: kdf.p,
+    dkLen: 32,
+  });
+}
+
+export const newKdfParams = (randomBytes: (n: number) => Uint8Array): KdfParams => ({
+  salt: randomBytes(SALT_BYTES),
+  ...DEFAULT_KDF,
+});
+
+// ---- frames -----------------------------------------------------------------
+
+function frameAad(index: number, type: FrameType) {
+  const out = new Uint8Array(5);
+  new DataView(out.buffer).setUint32(0, index);
+  out[4] = type;
+  return out;
+}
+
+/** Frame `payload` (sealing it when `key` is set). Returns the bytes to write. */
+export function sealFrame(
+  type: FrameType,
+  index: number,
+  payload: Uint8Array,
+  key: Uint8Array | null,
+  randomBytes: (n: number) => Uint8Array
+): Uint8Array {
+  let body = payload;
+  if (key) {
+    const nonce = randomBytes(NONCE_BYTES);
+    const sealed = xchacha20poly1305(key, nonce, frameAad(index, type)).encrypt(payload);
+    body = new Uint8Array(NONCE_BYTES + sealed.length);
+    body.set(nonce);
+    body.set(sealed, NONCE_BYTES);
+  }
+  const out = new Uint8Array(FRAME_HEADER_BYTES + body.length);
+  out[0] = type;
+  new DataView(out.buffer).setUint32(1, body.length);
+  out.set(body, FRAME_HEADER_BYTES);
+  return out;
+}
+
+export function decodeFrameHeader(bytes: Uint8Array): { type: FrameType; length: number } {
+  const type = bytes[0] as FrameType;
+  if (!Object.values(FRAME_TYPES).includes(type)) throw new ArchiveError(`unknown frame type ${type}`);
+  const length = new DataView(bytes.buffer, bytes.byteOffset).getUint32(1);
+  // largest legitimate frame is a sealed DATA frame; also bounds the manifest
+  if (length > FRAME_DATA_BYTES * 16) throw new ArchiveError('frame too large');
+  return { type, length };
+}
+
+export function openFrame(type: FrameType, index: number, body: Uint8Array, key: Uint8Array | null): Uint8Array {
+  if (!key) return body;
+  if (body.length < NONCE_BYTES) throw new ArchiveError('truncated frame');
+  try {
+    return xchacha20poly1305(key, body.subarray(0, NONCE_BYTES), frameAad(index, type)).decrypt(body.subarray(NONCE_BYTES));
+  } catch {
+    // the first frame failing almost always means a wrong passphrase
+    throw new ArchiveError(index === 0 ? 'wrong passphrase' : `frame ${index} failed authentication`);
+  }
+}
+
+export const jsonBytes = (value: unknown) => utf8ToBytes(JSON.stringify(value));
+export const bytesJson = (bytes: Uint8Array) => JSON.parse(bytesToUtf8(bytes)) as unknown;
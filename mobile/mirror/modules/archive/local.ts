@@ -0,0 +1,322 @@
+import * as FileSystem from 'expo-file-system';
+import { File } from 'expo-file-system/next';
+import * as Crypto from 'expo-crypto';
+import * as Sharing from 'expo-sharing';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, bytesToUtf8 } from '@noble/hashes/utils';
+import { loadTranscript } from '../asr/transcript';
+import { indexTranscript } from '../search/local';
+import { recordingOf, SESSION_FILES, sessionFileName, type SessionFile } from '../sessions/ids';
+import { addSession, getSession, listSessions, RECORDINGS_DIR, SESSION_PATH_FIELDS, type Session } from '../sessions/local';
+import { createVaultWriter, isVaultScratch, readPlainChunks, readText, writeText, type VaultWriter } from '../vault/vault';
+import {
+  ARCHIVE_EXT,
+  ARCHIVE_VERSION,
+  ArchiveError,
+  belongsTo,
+  bytesJson,
+  decodeFrameHeader,
+  decodeHeader,
+  deriveArchiveKey,
+  encodeHeader,
+  FRAME_HEADER_BYTES,
+  FRAME_TYPES,
+  headerLength,
+  isSafeFileName,
+  jsonBytes,
+  newKdfParams,
+  openFrame,
+  parseManifest,
+  sealFrame,
+  type ArchiveFile,
+  type ArchiveManifest,
+  type FrameType,
+} from './format';
+
+/**
+ * Export the whole journal to one archive file (see ./format) and import one
+ * back, merging it into this device's session store and vault.
+ */
+
+const EXPORT_DIR = `${FileSystem.cacheDirectory}export`;
+const STAGING_DIR = `${RECORDINGS_DIR}/.import`;
+
+export type ArchiveProgress = (doneBytes: number, totalBytes: number) => void;
+export type ImportResult = { imported: string[]; skipped: string[] };
+
+function filesOf(id: string, names: string[]) {
+  return names.filter((n) => belongsTo(n, id) && !isVaultScratch(n));
+}
+
+// upload state points at this device's server session; it does not travel
+function exportRow({ upload: _upload, ...row }: Session) {
+  return row;
+}
+
+function stamp(d = new Date()) {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}_${pad(d.getHours())}${pad(d.getMinutes())}`;
+}
+
+/**
+ * Write every session and its files to an archive in the cache directory and
+ * return its uri. Without a passphrase the archive is NOT encrypted.
+ */
+export async function exportJournal(opts: { passphrase?: string; onProgress?: ArchiveProgress } = {}): Promise<string> {
+  const sessions = await listSessions();
+  const names = (await FileSystem.getInfoAsync(RECORDINGS_DIR)).exists
+    ? await FileSystem.readDirectoryAsync(RECORDINGS_DIR)
+    : [];
+  const entries = sessions.flatMap((s) => filesOf(s.id, names).map((name) => ({ name, sessionId: s.id })));
+  const total = entries.reduce((n, e) => n + (new File(`${RECORDINGS_DIR}/${e.name}`).size ?? 0), 0);
+
+  const kdf = opts.passphrase ? newKdfParams(Crypto.getRandomBytes) : null;
+  const key = kdf ? await deriveArchiveKey(opts.passphrase!, kdf) : null;
+
+  const uri = `${EXPORT_DIR}/mirror-journal-${stamp()}.${ARCHIVE_EXT}`;
+  const out = new File(uri);
+  out.create({ overwrite: true, intermediates: true });
+  const handle = out.open();
+  let index = 0;
+  const frame = (type: FrameType, payload: Uint8Array) =>
+    handle.writeBytes(sealFrame(type, index++, payload, key, Crypto.getRandomBytes));
+
+  try {
+    handle.writeBytes(encodeHeader(kdf));
+    const files: ArchiveFile[] = [];
+    let done = 0;
+    for (const { name, sessionId } of entries) {
+      const fileUri = `${RECORDINGS_DIR}/${name}`;
+      const hash = sha256.create();
+      let size = 0;
+      frame(FRAME_TYPES.file, jsonBytes({ name }));
+      await readPlainChunks(fileUri, (chunk) => {
+        frame(FRAME_TYPES.data, chunk); // vault chunks are at most FRAME_DATA_BYTES
+        hash.update(chunk);
+        size += chunk.length;
+      });
+      files.push({ name, sessionId, size, sha256: bytesToHex(hash.digest()) });
+      done += new File(fileUri).size ?? 0;
+      opts.onProgress?.(done, total);
+    }
+
+    const manifest: ArchiveManifest = {
+      format: 'mirror-journal',
+      version: ARCHIVE_VERSION,
+      createdAt: Date.now(),
+      recordingsDir: RECORDINGS_DIR,
+      sessions: sessions.map(exportRow),
+      files,
+    };
+    frame(FRAME_TYPES.manifest, jsonBytes(manifest));
+    frame(FRAME_TYPES.end, new Uint8Array(0));
+  } catch (e) {
+    handle.close();
+    out.delete();
+    throw e;
+  }
+  handle.close();
+  console.log(`[Archive] exported ${sessions.length} sessions, ${entries.length} files → ${uri}`);
+  return uri;
+}
+
+/** Export, open the share sheet, and remove the archive afterwards. */
+export async function shareJournalExport(opts: { passphrase?: string; onProgress?: ArchiveProgress } = {}) {
+  if (!(await Sharing.isAvailableAsync())) throw new Error('shareJournalExport: sharing is not available');
+  const uri = await exportJournal(opts);
+  try {
+    await Sharing.shareAsync(uri, {
+      mimeType: 'application/octet-stream',
+      UTI: 'public.data',
+      dialogTitle: 'Export journal',
+    });
+  } finally {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  }
+}
+
+// ---- import -----------------------------------------------------------------
+
+function openArchive(uri: string) {
+  const file = new File(uri);
+  if (!file.exists) throw new ArchiveError('archive file not found');
+  const size = file.size ?? 0;
+  const handle = file.open();
+  let pos = 0;
+  return {
+    size,
+    get pos() {
+      return pos;
+    },
+    read(n: number) {
+      if (pos + n > size) throw new ArchiveError('archive is truncated');
+      pos += n;
+      return handle.readBytes(n);
+    },
+    close: () => handle.close(),
+  };
+}
+
+function readHeader(archive: ReturnType<typeof openArchive>) {
+  const first = archive.read(6);
+  const rest = archive.read(headerLength(first) - 6);
+  const bytes = new Uint8Array(first.length + rest.length);
+  bytes.set(first);
+  bytes.set(rest, first.length);
+  return decodeHeader(bytes);
+}
+
+/** Whether an archive needs a passphrase. Throws if it is not an archive. */
+export async function inspectArchive(uri: string): Promise<{ encrypted: boolean }> {
+  const archive = openArchive(uri);
+  try {
+    return { encrypted: !!readHeader(archive).kdf };
+  } finally {
+    archive.close();
+  }
+}
+
+// Paths inside JSON files name the exporting device's directory.
+const rebase = (text: string, fromDir: string) => (fromDir === RECORDINGS_DIR ? text : text.split(fromDir).join(RECORDINGS_DIR));
+
+/**
+ * Unpack every file into a staging directory (re-encrypted with this
+ * device's vault key) while checking it against the manifest, then merge:
+ * sessions whose id already exists here (or whose files would replace
+ * another session's) are skipped, the rest are moved in and added to the
+ * store. Nothing is merged unless the whole archive checks
+ * out.
+ */
+export async function importJournal(
+  uri: string,
+  opts: { passphrase?: string; onProgress?: ArchiveProgress } = {}
+): Promise<ImportResult> {
+  const archive = openArchive(uri);
+  let current: { name: string; writer: VaultWriter; hash: ReturnType<typeof sha256.create>; size: number } | null = null;
+  const staged = new Map<string, { size: number; sha256: string }>();
+
+  await FileSystem.deleteAsync(STAGING_DIR, { idempotent: true });
+  await FileSystem.makeDirectoryAsync(STAGING_DIR, { intermediates: true });
+
+  const finishFile = async () => {
+    if (!current) return;
+    await current.writer.close();
+    staged.set(current.name, { size: current.size, sha256: bytesToHex(current.hash.digest()) });
+    current = null;
+  };
+
+  try {
+    const { kdf } = readHeader(archive);
+    if (kdf && !opts.passphrase) throw new ArchiveError('this archive needs its passphrase');
+    const key = kdf ? await deriveArchiveKey(opts.passphrase!, kdf) : null;
+
+    let manifest: ArchiveManifest | null = null;
+    for (let index = 0; ; index++) {
+      const { type, length } = decodeFrameHeader(archive.read(FRAME_HEADER_BYTES));
+      const payload = openFrame(type, index, archive.read(length), key);
+      if (type === FRAME_TYPES.end) break;
+      if (manifest) throw new ArchiveError('data after the manifest');
+
+      if (type === FRAME_TYPES.file) {
+        await finishFile();
+        const { name } = bytesJson(payload) as { name: unknown };
+        if (typeof name !== 'string' || !isSafeFileName(name)) throw new ArchiveError('invalid file name');
+        if (staged.has(name)) throw new ArchiveError(`${name} appears twice`);
+        current = { name, writer: await createVaultWriter(`${STAGING_DIR}/${name}`), hash: sha256.create(), size: 0 };
+      } else if (type === FRAME_TYPES.data) {
+        if (!current) throw new ArchiveError('data outside a file');
+        await current.writer.write(payload);
+        current.hash.update(payload);
+        current.size += payload.length;
+      } else {
+        await finishFile();
+        manifest = parseManifest(bytesToUtf8(payload));
+      }
+      opts.onProgress?.(archive.pos, archive.size);
+    }
+    if (!manifest) throw new ArchiveError('manifest missing');
+
+    for (const f of manifest.files) {
+      const got = staged.get(f.name);
+      if (!got) throw new ArchiveError(`${f.name} is missing from the archive`);
+      if (got.size !== f.size || got.sha256 !== f.sha256) throw new ArchiveError(`${f.name} failed its checksum`);
+    }
+    if (staged.size !== manifest.files.length) throw new ArchiveError('archive holds files not in its manifest');
+
+    return await merge(manifest);
+  } catch (e) {
+    current?.writer.abort();
+    throw e;
+  } finally {
+    archive.close();
+    await FileSystem.deleteAsync(STAGING_DIR, { idempotent: true });
+  }
+}
+
+/**
+ * An imported row with every path rebuilt from the session's file names.
+ * Paths in the archive could point anywhere, and purgeSession/retention
+ * delete what they point at. Null if the archive has no recording for it.
+ */
+function importedRow(raw: ArchiveManifest['sessions'][number], names: string[]): Session | null {
+  const row: Record<string, unknown> = { ...raw };
+  for (const field of Object.values(SESSION_PATH_FIELDS)) delete row[field];
+  delete row.upload;
+  delete row.mediaKind;
+  const recording = names.find((name) => recordingOf(name)?.id === raw.id);
+  if (!recording) return null;
+  row.videoPath = `${RECORDINGS_DIR}/${recording}`;
+  if (recordingOf(recording)!.mediaKind === 'audio') row.mediaKind = 'audio';
+  for (const kind of Object.keys(SESSION_FILES) as SessionFile[]) {
+    if (kind === 'video' || kind === 'audio') continue;
+    const name = sessionFileName(raw.id, kind);
+    if (names.includes(name)) row[SESSION_PATH_FIELDS[kind]] = `${RECORDINGS_DIR}/${name}`;
+  }
+  return row as Session;
+}
+
+async function merge(manifest: ArchiveManifest): Promise<ImportResult> {
+  const result: ImportResult = { imported: [], skipped: [] };
+  const owners = (await listSessions({ includeDeleted: true })).map((s) => s.id);
+  for (const raw of manifest.sessions) {
+    if (await getSession(raw.id)) {
+      result.skipped.push(raw.id);
+      continue;
+    }
+    const files = manifest.files.filter((f) => f.sessionId === raw.id);
+    const row = importedRow(raw, files.map((f) => f.name));
+    // never replace a file another session here owns
+    const taken = files.find((f) => owners.some((id) => belongsTo(f.name, id)));
+    if (!row || taken) {
+      console.warn(`[Archive] skipping ${raw.id}: ${taken ? `${taken.name} belongs to another session` : 'no recording'}`);
+      result.skipped.push(raw.id);
+      continue;
+    }
+
+    for (const f of files) {
+      const dst = `${RECORDINGS_DIR}/${f.name}`;
+      await FileSystem.deleteAsync(dst, { idempotent: true }); // an orphan nobody owns
+      await FileSystem.moveAsync({ from: `${STAGING_DIR}/${f.name}`, to: dst });
+      if (f.name.endsWith('.json')) await writeText(dst, rebase(await readText(dst), manifest.recordingsDir));
+    }
+
+    // the queue that was working on it is on the other device
+    if (row.status === 'queued' || row.status === 'processing') {
+      row.status = 'failed';
+      row.processingError = 'Imported before processing finished';
+    }
+    const session = await addSession(row);
+    owners.push(session.id);
+    result.imported.push(session.id);
+
+    if (session.transcriptPath) {
+      try {
+        await indexTranscript(session, await loadTranscript(session.transcriptPath));
+      } catch (e) {
+        console.warn(`[Archive] ${session.id} not indexed:`, e);
+      }
+    }
+  }
+  console.log(`[Archive] imported ${result.imported.length} sessions, skipped ${result.skipped.length}`);
+  return result;
+}
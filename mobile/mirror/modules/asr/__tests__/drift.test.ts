@@ -0,0 +1,81 @@
+import { DRIFT_TOLERANCE_MS, measureDrift, runDriftHarness } from '../drift';
+import { getAsrEngine, setAsrEngine, type AsrEngine } from '../engine';
+import { createFixtureEngine, registerFixtureEngine } from '../fixture';
+
+// the fixture engine and the harness only read `<clip>.reference.json`
+jest.mock('expo-file-system', () => ({
+  readAsStringAsync: async (uri: string) =>
+    jest.requireActual<typeof import('fs')>('fs').readFileSync(uri.replace(/^file:\/\//, ''), 'utf8'),
+}));
+
+/**
+ * Clips in ./fixtures are named by their reference alignment only: the
+ * fixture engine never decodes the media, so no audio is checked in. These
+ * tests check the measuring, not an ASR model: the fixture engine replays the
+ * reference, so its drift is whatever offset it is given. Running the Whisper
+ * engine over real clips needs audio, an extractor and a model, none of which
+ * this repo has yet.
+ */
+const CLIPS = ['journal', 'absolutist'].map((name) => `file://${__dirname}/fixtures/${name}.mp4`);
+
+const word = (t_ms: number, w: string) => ({ t_ms, word: w, conf: 1 });
+
+describe('measureDrift', () => {
+  it('matches words by normalized text and reports start-time deltas', () => {
+    const ref = [
+      { t_ms: 0, word: 'Hello' },
+      { t_ms: 500, word: "don't" },
+      { t_ms: 1000, word: 'go' },
+    ];
+    const report = measureDrift([word(40, 'hello,'), word(600, "Don't"), word(900, 'um'), word(1200, 'go.')], ref);
+    expect(report).toEqual({ refWords: 3, hypWords: 4, matched: 3, coverage: 1, meanMs: 113, p95Ms: 200, maxMs: 200 });
+  });
+
+  it('counts reference words the engine missed against coverage', () => {
+    const ref = ['a', 'b', 'c', 'd'].map((w, i) => ({ t_ms: i * 100, word: w }));
+    const report = measureDrift([word(0, 'a'), word(300, 'd')], ref);
+    expect(report.matched).toBe(2);
+    expect(report.coverage).toBe(0.5);
+    expect(report.maxMs).toBe(0);
+  });
+
+  it('is empty-safe', () => {
+    expect(measureDrift([], [])).toMatchObject({ matched: 0, coverage: 1, meanMs: 0, p95Ms: 0, maxMs: 0 });
+  });
+});
+
+describe('drift harness', () => {
+  it.todo('passes the Whisper engine on recorded fixture audio');
+
+  it('passes the fixture engine within tolerance', async () => {
+    registerFixtureEngine();
+    setAsrEngine('fixture');
+    const results = await runDriftHarness(getAsrEngine(), CLIPS);
+    expect(results.map((r) => [r.pass, r.maxMs, r.coverage])).toEqual([
+      [true, 0, 1],
+      [true, 0, 1],
+    ]);
+    expect(results[0].refWords).toBeGreaterThan(100);
+  });
+
+  it('fails clips that drift past the acceptance threshold', async () => {
+    const late = await runDriftHarness(createFixtureEngine({ offsetMs: DRIFT_TOLERANCE_MS }), CLIPS);
+    expect(late.map((r) => r.pass)).toEqual([false, false]);
+    const close = await runDriftHarness(createFixtureEngine({ offsetMs: DRIFT_TOLERANCE_MS - 50 }), CLIPS);
+    expect(close.map((r) => r.pass)).toEqual([true, true]);
+  });
+
+  it('fails clips where too few words were recognised', async () => {
+    const fixture = createFixtureEngine();
+    const halfDeaf: AsrEngine = {
+      id: 'fixture',
+      async transcribe(input) {
+        const out = await fixture.transcribe(input);
+        return { ...out, words: out.words.filter((_, i) => i % 2) };
+      },
+    };
+    const [journal] = await runDriftHarness(halfDeaf, CLIPS.slice(0, 1));
+    expect(journal.pass).toBe(false);
+    expect(journal.coverage).toBeLessThan(0.8);
+  });
+});
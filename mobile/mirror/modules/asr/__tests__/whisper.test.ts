@@ -0,0 +1,29 @@
+import { wordsFromTokens } from '../whisper';
+
+jest.mock('whisper.rn', () => ({}));
+jest.mock('expo-file-system', () => ({}));
+
+describe('wordsFromTokens', () => {
+  it('joins tokens into words at leading spaces, in 10 ms ticks', () => {
+    const { words, ends } = wordsFromTokens([
+      { text: ' Hel', t0: 0, t1: 20 },
+      { text: 'lo', t0: 20, t1: 35 },
+      { text: ' world', t0: 40, t1: 80 },
+      { text: '.', t0: 80, t1: 82 },
+    ]);
+    expect(words).toEqual([
+      { t_ms: 0, word: 'Hello', conf: 1 },
+      { t_ms: 400, word: 'world.', conf: 1 },
+    ]);
+    expect(ends).toEqual([350, 820]);
+  });
+
+  it('drops bracketed markers and blank tokens', () => {
+    const { words } = wordsFromTokens([
+      { text: ' [BLANK_AUDIO]', t0: 0, t1: 100 },
+      { text: ' ', t0: 100, t1: 101 },
+      { text: ' ok', t0: 120, t1: 140 },
+    ]);
+    expect(words.map((w) => w.word)).toEqual(['ok']);
+  });
+});
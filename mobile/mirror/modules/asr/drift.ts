@@ -0,0 +1,96 @@
+import type { AsrEngine, TranscriptWord } from './engine';
+import { loadReference, type ReferenceAlignment } from './fixture';
+
+/**
+ * Timestamp drift between an engine's words and a reference alignment.
+ * Words are matched by normalized text (LCS), then compared on start time.
+ */
+export type DriftReport = {
+  refWords: number;
+  hypWords: number;
+  matched: number;
+  coverage: number;   // matched / refWords
+  meanMs: number;
+  p95Ms: number;
+  maxMs: number;
+};
+
+const norm = (w: string) => w.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+function lcsPairs(a: string[], b: string[]): [number, number][] {
+  const dp: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      dp[i][j] = a[i] === b[j] ? dp[i + 1][j + 1] + 1 : Math.max(dp[i + 1][j], dp[i][j + 1]);
+    }
+  }
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (dp[i + 1][j] >= dp[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+export function measureDrift(
+  hyp: TranscriptWord[],
+  ref: ReferenceAlignment['words']
+): DriftReport {
+  const h = hyp.filter((w) => norm(w.word));
+  const r = ref.filter((w) => norm(w.word));
+  const pairs = lcsPairs(r.map((w) => norm(w.word)), h.map((w) => norm(w.word)));
+  const deltas = pairs
+    .map(([ri, hi]) => Math.abs(h[hi].t_ms - r[ri].t_ms))
+    .sort((x, y) => x - y);
+
+  const mean = deltas.length ? deltas.reduce((s, d) => s + d, 0) / deltas.length : 0;
+  const p95 = deltas.length ? deltas[Math.min(deltas.length - 1, Math.ceil(deltas.length * 0.95) - 1)] : 0;
+
+  return {
+    refWords: r.length,
+    hypWords: h.length,
+    matched: pairs.length,
+    coverage: r.length ? pairs.length / r.length : 1,
+    meanMs: Math.round(mean),
+    p95Ms: p95,
+    maxMs: deltas.length ? deltas[deltas.length - 1] : 0,
+  };
+}
+
+// docs/ACCEPTANCE.md: "60s clip → word timestamps, drift < 250ms"
+export const DRIFT_TOLERANCE_MS = 250;
+const MIN_COVERAGE = 0.8;
+
+export type HarnessResult = DriftReport & { mediaPath: string; pass: boolean };
+
+/**
+ * Run `engine` over each fixture clip (with a `<clip>.reference.json` next to
+ * it) and check drift against the acceptance threshold.
+ */
+export async function runDriftHarness(
+  engine: AsrEngine,
+  mediaPaths: string[],
+  toleranceMs = DRIFT_TOLERANCE_MS
+): Promise<HarnessResult[]> {
+  const results: HarnessResult[] = [];
+  for (const mediaPath of mediaPaths) {
+    const ref = await loadReference(mediaPath);
+    const out = await engine.transcribe({ mediaPath });
+    const report = measureDrift(out.words, ref.words);
+    results.push({
+      ...report,
+      mediaPath,
+      pass: report.maxMs < toleranceMs && report.coverage >= MIN_COVERAGE,
+    });
+  }
+  return results;
+}
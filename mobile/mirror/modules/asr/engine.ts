@@ -0,0 +1,96 @@
+/**
+ * Pluggable ASR engines.
+ *
+ * An engine turns a recorded media file into word timings + segments.
+ * `processAndSaveTranscript` asks the registry for the active engine, so the
+ * stub, the on-device Whisper model and the fixture engine used by the drift
+ * harness are interchangeable at runtime.
+ */
+import type { TranscriptSegment, TranscriptWord } from './transcript';
+
+export type { TranscriptSegment, TranscriptWord };
+
+export type AsrEngineId = 'stub' | 'whisper' | 'fixture';
+
+export type AsrInput = {
+  mediaPath: string;   // file://…/recordings/<id>_session.mp4
+  durationMs?: number;
+};
+
+export type AsrResult = {
+  model: string;       // written to transcript.model
+  words: TranscriptWord[];
+  segments: TranscriptSegment[];
+  meta?: Record<string, unknown>;
+};
+
+export type AsrEngine = {
+  id: AsrEngineId;
+  transcribe(input: AsrInput): Promise<AsrResult>;
+};
+
+/** Writes an empty transcript; the pipeline still works end to end. */
+export const stubEngine: AsrEngine = {
+  id: 'stub',
+  async transcribe() {
+    return {
+      model: 'stub-local',
+      words: [],
+      segments: [],
+      meta: { source: 'on-device (stub)' },
+    };
+  },
+};
+
+const engines = new Map<AsrEngineId, AsrEngine>([['stub', stubEngine]]);
+let activeId: AsrEngineId = 'stub';
+
+export function registerAsrEngine(engine: AsrEngine) {
+  engines.set(engine.id, engine);
+}
+
+/** Select the engine used by later `processAndSaveTranscript` calls. */
+export function setAsrEngine(id: AsrEngineId) {
+  if (!engines.has(id)) throw new Error(`setAsrEngine: engine "${id}" is not registered`);
+  activeId = id;
+}
+
+export function getAsrEngine(): AsrEngine {
+  return engines.get(activeId) ?? stubEngine;
+}
+
+export function listAsrEngines(): AsrEngineId[] {
+  return [...engines.keys()];
+}
+
+// Sentence-ish grouping: break on terminal punctuation or a long pause.
+const SEGMENT_PAUSE_MS = 700;
+
+/**
+ * Build `segments[]` from word timings for engines that only return words.
+ * `wordEndMs` gives the end time of each word when known; otherwise the next
+ * word's start is used.
+ */
+export function segmentsFromWords(
+  words: TranscriptWord[],
+  wordEndMs?: number[]
+): TranscriptSegment[] {
+  const out: TranscriptSegment[] = [];
+  let cur: { start_ms: number; end_ms: number; parts: string[] } | null = null;
+  const flush = () => {
+    if (cur) out.push({ start_ms: cur.start_ms, end_ms: cur.end_ms, text: cur.parts.join(' ') });
+    cur = null;
+  };
+
+  for (let i = 0; i < words.length; i++) {
+    const w = words[i];
+    const end = wordEndMs?.[i] ?? words[i + 1]?.t_ms ?? w.t_ms;
+    if (cur && w.t_ms - cur.end_ms > SEGMENT_PAUSE_MS) flush();
+    cur ??= { start_ms: w.t_ms, end_ms: end, parts: [] };
+    cur.parts.push(w.word);
+    cur.end_ms = Math.max(cur.end_ms, end);
+    if (/[.!?]$/.test(w.word)) flush();
+  }
+  flush();
+  return out;
+}
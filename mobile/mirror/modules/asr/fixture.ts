@@ -0,0 +1,52 @@
+import * as FileSystem from 'expo-file-system';
+import { registerAsrEngine, segmentsFromWords, type AsrEngine, type TranscriptWord } from './engine';
+
+/**
+ * Reference alignment for a test clip, stored next to it:
+ *   …/<clip>.mp4  ->  …/<clip>.reference.json
+ */
+export type ReferenceAlignment = {
+  words: { word: string; t_ms: number }[];
+};
+
+export function referencePathFor(mediaPath: string) {
+  return mediaPath.replace(/\.[^./]+$/, '.reference.json');
+}
+
+export async function loadReference(mediaPath: string): Promise<ReferenceAlignment> {
+  const raw = await FileSystem.readAsStringAsync(referencePathFor(mediaPath));
+  const parsed = JSON.parse(raw) as ReferenceAlignment;
+  if (!Array.isArray(parsed?.words)) {
+    throw new Error(`loadReference: no words[] in ${referencePathFor(mediaPath)}`);
+  }
+  return parsed;
+}
+
+/**
+ * Deterministic engine for tests: "recognises" the clip by returning its
+ * reference alignment, optionally shifted by `offsetMs`.
+ */
+export function createFixtureEngine(opts: { offsetMs?: number } = {}): AsrEngine {
+  const offset = opts.offsetMs ?? 0;
+  return {
+    id: 'fixture',
+    async transcribe({ mediaPath }) {
+      const ref = await loadReference(mediaPath);
+      const words: TranscriptWord[] = ref.words.map((w) => ({
+        t_ms: Math.max(0, w.t_ms + offset),
+        word: w.word,
+        conf: 1,
+      }));
+      return {
+        model: 'fixture',
+        words,
+        segments: segmentsFromWords(words),
+        meta: { source: 'fixture', offsetMs: offset },
+      };
+    },
+  };
+}
+
+export function registerFixtureEngine(opts?: { offsetMs?: number }) {
+  registerAsrEngine(createFixtureEngine(opts));
+}
@@ -1,31 +1,53 @@
-import * as FileSystem from 'expo-file-system';
 import type { DevicePos } from '../sessions/local';
+import { getAsrEngine, listAsrEngines, setAsrEngine, type AsrEngine } from './engine';
+import { getSettings } from '../settings/settings';
+import { saveTranscript, TRANSCRIPT_SCHEMA_VERSION, type Transcript } from './transcript';
+import { withPlaintext } from '../vault/vault';
 
 /**
- * Stub “ASR” that writes a tiny transcript JSON next to the MP4.
+ * Run the active ASR engine (see ./engine) over the recording and write the
+ * transcript JSON to `transcriptPath`. Until a build registers the Whisper
+ * engine (see ./whisper) that is the stub, which writes no words.
  * Returns the file:// path to the JSON.
  */
 export async function processAndSaveTranscript(args: {
   videoPath: string;
+  transcriptPath: string;
   durationMs?: number;
   devicePosition?: DevicePos;
+  engine?: AsrEngine;
 }): Promise<string> {
-  const { videoPath, durationMs, devicePosition } = args;
+  const { videoPath, transcriptPath, durationMs, devicePosition } = args;
+  const engine = args.engine ?? getAsrEngine();
 
-  // …/<id>_session.mp4  ->  …/<id>.transcript.json
-  const transcriptPath = videoPath.replace(/_session\.mp4$/i, '.transcript.json');
+  // engines need a readable file; the recording itself is encrypted at rest
+  const result = await withPlaintext(videoPath, (mediaPath) =>
+    engine.transcribe({ mediaPath, durationMs })
+  );
 
-  const payload = {
+  const payload: Transcript = {
+    schemaVersion: TRANSCRIPT_SCHEMA_VERSION,
     type: 'transcript',
-    model: 'stub-local',
+    model: result.model,
     createdAt: Date.now(),
     durationMs,
     devicePosition,
-    words: [] as Array<{ t_ms: number; word: string; conf: number }>,
-    segments: [] as Array<{ start_ms: number; end_ms: number; text: string }>,
-    meta: { source: 'on-device (stub)' },
+    words: result.words,
+    segments: result.segments,
+    meta: { engine: engine.id, ...result.meta },
   };
 
-  await FileSystem.writeAsStringAsync(transcriptPath, JSON.stringify(payload, null, 2));
+  await saveTranscript(transcriptPath, payload);
   return transcriptPath;
 }
+
+/**
+ * Switch to the engine chosen in Settings if it has been registered (the
+ * Whisper engine needs its model configured first); otherwise keep the
+ * current one.
+ */
+export function applyAsrSettings() {
+  const { engine } = getSettings().asr;
+  if (listAsrEngines().includes(engine)) setAsrEngine(engine);
+  else console.warn(`[ASR] engine "${engine}" is not available, using "${getAsrEngine().id}"`);
+}
@@ -0,0 +1,158 @@
+import * as FileSystem from 'expo-file-system';
+import { z } from 'zod';
+import { readText, VaultError, writeText } from '../vault/vault';
+
+/**
+ * On-disk transcript format (…/<id>.transcript.json).
+ *
+ * Bump TRANSCRIPT_SCHEMA_VERSION when the shape changes and teach `migrate`
+ * how to lift the previous version. Everything that reads transcripts goes
+ * through `loadTranscript` so callers only ever see the current version.
+ */
+export const TRANSCRIPT_SCHEMA_VERSION = 1;
+
+export const TranscriptWordSchema = z.object({
+  t_ms: z.number().nonnegative(),
+  word: z.string(),
+  conf: z.number().min(0).max(1),
+});
+
+export const TranscriptSegmentSchema = z.object({
+  start_ms: z.number().nonnegative(),
+  end_ms: z.number().nonnegative(),
+  text: z.string(),
+});
+
+export const TranscriptSchema = z.object({
+  schemaVersion: z.literal(TRANSCRIPT_SCHEMA_VERSION),
+  type: z.literal('transcript'),
+  model: z.string(),
+  createdAt: z.number(),
+  durationMs: z.number().optional(),
+  devicePosition: z.enum(['front', 'back']).optional(),
+  words: z.array(TranscriptWordSchema),
+  segments: z.array(TranscriptSegmentSchema),
+  meta: z.record(z.string(), z.unknown()).default({}),
+});
+
+export type TranscriptWord = z.infer<typeof TranscriptWordSchema>;
+export type TranscriptSegment = z.infer<typeof TranscriptSegmentSchema>;
+export type Transcript = z.infer<typeof TranscriptSchema>;
+
+// Pre-versioning files (model: 'stub-local', no schemaVersion).
+const LegacyTranscriptSchema = z.object({
+  type: z.literal('transcript').optional(),
+  model: z.string().default('unknown'),
+  createdAt: z.number().optional(),
+  durationMs: z.number().optional(),
+  devicePosition: z.enum(['front', 'back']).optional(),
+  words: z.array(TranscriptWordSchema).default([]),
+  segments: z.array(TranscriptSegmentSchema).default([]),
+  meta: z.record(z.string(), z.unknown()).default({}),
+});
+
+export type TranscriptErrorCode =
+  | 'not_found'
+  | 'decrypt_failed'
+  | 'invalid_json'
+  | 'invalid_schema'
+  | 'unsupported_version';
+
+export class TranscriptError extends Error {
+  constructor(
+    readonly code: TranscriptErrorCode,
+    readonly path: string,
+    message: string
+  ) {
+    super(`${message} (${path})`);
+    this.name = 'TranscriptError';
+  }
+}
+
+function migrate(raw: unknown, path: string): { transcript: Transcript; migrated: boolean } {
+  const version =
+    raw && typeof raw === 'object' && 'schemaVersion' in raw
+      ? (raw as { schemaVersion: unknown }).schemaVersion
+      : 0;
+
+  if (version === TRANSCRIPT_SCHEMA_VERSION) {
+    const parsed = TranscriptSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new TranscriptError('invalid_schema', path, z.prettifyError(parsed.error));
+    }
+    return { transcript: parsed.data, migrated: false };
+  }
+
+  if (version === 0) {
+    const parsed = LegacyTranscriptSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new TranscriptError('invalid_schema', path, z.prettifyError(parsed.error));
+    }
+    const legacy = parsed.data;
+    return {
+      transcript: {
+        schemaVersion: TRANSCRIPT_SCHEMA_VERSION,
+        type: 'transcript',
+        model: legacy.model,
+        createdAt: legacy.createdAt ?? 0,
+        durationMs: legacy.durationMs,
+        devicePosition: legacy.devicePosition,
+        words: legacy.words,
+        segments: legacy.segments,
+        meta: { ...legacy.meta, migratedFrom: 0 },
+      },
+      migrated: true,
+    };
+  }
+
+  throw new TranscriptError(
+    'unsupported_version',
+    path,
+    `Transcript schemaVersion ${String(version)} is not supported`
+  );
+}
+
+/** Validate a transcript object already in memory (e.g. from an import). */
+export function parseTranscript(raw: unknown, path = '<memory>'): Transcript {
+  return migrate(raw, path).transcript;
+}
+
+/**
+ * Read, validate and (if needed) migrate a transcript file.
+ * Files from older versions are rewritten in the current format.
+ * Transcripts are stored encrypted (see modules/vault).
+ */
+export async function loadTranscript(path: string): Promise<Transcript> {
+  const info = await FileSystem.getInfoAsync(path);
+  if (!info.exists) throw new TranscriptError('not_found', path, 'Transcript file not found');
+
+  let text: string;
+  try {
+    text = await readText(path);
+  } catch (e: any) {
+    if (e instanceof VaultError) throw new TranscriptError('decrypt_failed', path, e.message);
+    throw e;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e: any) {
+    throw new TranscriptError('invalid_json', path, `Transcript is not valid JSON: ${e?.message ?? e}`);
+  }
+
+  const { transcript, migrated } = migrate(raw, path);
+  if (migrated) {
+    try {
+      await saveTranscript(path, transcript);
+    } catch (e) {
+      console.warn('[Transcript] could not persist migration:', e);
+    }
+  }
+  return transcript;
+}
+
+export async function saveTranscript(path: string, transcript: Transcript): Promise<void> {
+  const checked = TranscriptSchema.parse(transcript);
+  await writeText(path, JSON.stringify(checked, null, 2));
+}
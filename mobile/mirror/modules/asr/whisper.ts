@@ -0,0 +1,93 @@
+import * as FileSystem from 'expo-file-system';
+import { initWhisper, type WhisperContext } from 'whisper.rn';
+import {
+  registerAsrEngine,
+  segmentsFromWords,
+  type AsrEngine,
+  type TranscriptWord,
+} from './engine';
+
+/**
+ * whisper.cpp only reads 16 kHz mono WAV, so the MP4's audio track has to be
+ * decoded first. The extractor is injected (native module, ffmpeg build, …)
+ * and returns the file:// path of the WAV it wrote.
+ *
+ * Not wired up yet: the app ships neither an extractor nor a model, so nothing
+ * calls `configureWhisper`, the stub stays active and transcripts are empty.
+ * Settings only offers Whisper once a build has registered it at startup.
+ */
+export type AudioExtractor = (mediaPath: string) => Promise<string>;
+
+export type WhisperEngineOptions = {
+  modelPath: string;          // file://…/ggml-base.en.bin
+  extractAudio: AudioExtractor;
+  language?: string;          // default 'en'
+  maxThreads?: number;
+};
+
+// whisper.cpp timestamps are in 10 ms ticks
+const TICK_MS = 10;
+
+/**
+ * Merge token-level segments into words. whisper marks the start of a new
+ * word with a leading space; anything else continues the previous word.
+ */
+export function wordsFromTokens(
+  tokens: { text: string; t0: number; t1: number }[]
+): { words: TranscriptWord[]; ends: number[] } {
+  const words: TranscriptWord[] = [];
+  const ends: number[] = [];
+  for (const tok of tokens) {
+    const text = tok.text.replace(/\[[^\]]*\]/g, ''); // drop [BLANK_AUDIO] & co.
+    if (!text.trim()) continue;
+    const startMs = tok.t0 * TICK_MS;
+    const endMs = tok.t1 * TICK_MS;
+    if (words.length && !/^\s/.test(text)) {
+      words[words.length - 1].word += text;
+      ends[ends.length - 1] = endMs;
+    } else {
+      // placeholder: whisper.rn 0.4 returns no token probabilities (see meta.conf)
+      words.push({ t_ms: startMs, word: text.trim(), conf: 1 });
+      ends.push(endMs);
+    }
+  }
+  return { words, ends };
+}
+
+export function createWhisperEngine(opts: WhisperEngineOptions): AsrEngine {
+  let ctx: Promise<WhisperContext> | null = null;
+  const context = () => (ctx ??= initWhisper({ filePath: opts.modelPath.replace(/^file:\/\//, '') }));
+
+  return {
+    id: 'whisper',
+    async transcribe({ mediaPath }) {
+      const wavPath = await opts.extractAudio(mediaPath);
+      try {
+        const whisper = await context();
+        const { promise } = whisper.transcribe(wavPath.replace(/^file:\/\//, ''), {
+          language: opts.language ?? 'en',
+          maxThreads: opts.maxThreads,
+          tokenTimestamps: true,
+          maxLen: 1, // one token per segment -> per-word timing
+        });
+        const res = await promise;
+        const { words, ends } = wordsFromTokens(res.segments);
+        return {
+          model: 'whisper-local',
+          words,
+          segments: segmentsFromWords(words, ends),
+          meta: { source: 'on-device (whisper.cpp)', modelPath: opts.modelPath, conf: 'unavailable' },
+        };
+      } finally {
+        if (wavPath !== mediaPath) {
+          await FileSystem.deleteAsync(wavPath, { idempotent: true });
+        }
+      }
+    },
+  };
+}
+
+/** Register the Whisper engine so it can be picked with `setAsrEngine('whisper')`. */
+export function configureWhisper(opts: WhisperEngineOptions) {
+  registerAsrEngine(createWhisperEngine(opts));
+}
@@ -0,0 +1,102 @@
+import { addDays, startOfDay, startOfWeek } from '../insights/aggregate';
+
+/**
+ * Calendar/timeline grouping. Pure functions, like ../insights/aggregate.
+ *
+ * Days are always derived from the epoch `createdAt` in the device's current
+ * time zone, never from session ids: older `YYYYMMDD_HHMMSS` ids are the
+ * local wall-clock time of the device that recorded them, with no zone, and
+ * would put entries on a different day after travelling or an import.
+ */
+
+export type DaySession = { id: string; createdAt: number; durationMs?: number; mood?: string };
+
+export type DaySummary<S extends DaySession = DaySession> = {
+  key: string;         // YYYY-MM-DD, local
+  start: number;       // local midnight, epoch ms
+  sessions: S[];       // newest first
+  durationMs: number;
+  mood?: string;       // most frequent mood that day
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export function dayKey(ms: number): string {
+  const d = new Date(ms);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function commonest(values: (string | undefined)[]): string | undefined {
+  const counts = new Map<string, number>();
+  let best: string | undefined;
+  for (const v of values) {
+    if (!v) continue;
+    const n = (counts.get(v) ?? 0) + 1;
+    counts.set(v, n);
+    if (!best || n > counts.get(best)!) best = v;
+  }
+  return best;
+}
+
+/** Sessions grouped by local day, newest day first. */
+export function groupByDay<S extends DaySession>(sessions: S[]): DaySummary<S>[] {
+  const days = new Map<number, S[]>();
+  for (const s of sessions) {
+    const start = startOfDay(s.createdAt);
+    const list = days.get(start);
+    if (list) list.push(s);
+    else days.set(start, [s]);
+  }
+  return [...days.entries()]
+    .sort((a, b) => b[0] - a[0])
+    .map(([start, list]) => {
+      list.sort((a, b) => b.createdAt - a.createdAt);
+      return {
+        key: dayKey(start),
+        start,
+        sessions: list,
+        durationMs: list.reduce((n, s) => n + (s.durationMs ?? 0), 0),
+        mood: commonest(list.map((s) => s.mood)),
+      };
+    });
+}
+
+export type Period = 'week' | 'month';
+
+/** [start, end) of the local week (Monday) or month containing `ms`. */
+export function periodRange(period: Period, ms: number): { start: number; end: number } {
+  if (period === 'week') {
+    const start = startOfWeek(ms);
+    return { start, end: addDays(start, 7) };
+  }
+  const d = new Date(ms);
+  return {
+    start: new Date(d.getFullYear(), d.getMonth(), 1).getTime(),
+    end: new Date(d.getFullYear(), d.getMonth() + 1, 1).getTime(),
+  };
+}
+
+/** The period before (-1) or after (+1) the one containing `ms`. */
+export function shiftPeriod(period: Period, ms: number, by: number): number {
+  const { start } = periodRange(period, ms);
+  if (period === 'week') return addDays(start, 7 * by);
+  const d = new Date(start);
+  return new Date(d.getFullYear(), d.getMonth() + by, 1).getTime();
+}
+
+export type CalendarCell = { key: string; start: number; day: number; inMonth: boolean };
+
+/** The month containing `ms` as whole Monday-first weeks. */
+export function monthGrid(ms: number): CalendarCell[][] {
+  const { start, end } = periodRange('month', ms);
+  const weeks: CalendarCell[][] = [];
+  for (let week = startOfWeek(start); week < end; week = addDays(week, 7)) {
+    weeks.push(
+      Array.from({ length: 7 }, (_, i) => {
+        const day = addDays(week, i);
+        return { key: dayKey(day), start: day, day: new Date(day).getDate(), inMonth: day >= start && day < end };
+      })
+    );
+  }
+  return weeks;
+}
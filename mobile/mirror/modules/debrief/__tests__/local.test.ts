@@ -0,0 +1,27 @@
+import type { Session } from '../../sessions/local';
+import { debriefReady } from '../local';
+
+jest.mock('expo-file-system', () => ({}));
+jest.mock('../../sessions/local', () => ({}));
+jest.mock('../../asr/engine', () => ({}));
+jest.mock('../../asr/transcript', () => ({}));
+jest.mock('../../rules/local', () => ({}));
+jest.mock('../../vault/vault', () => ({}));
+
+const row = (extra: Partial<Session>): Session => ({ id: 'S1', videoPath: 'v', createdAt: 1, ...extra });
+
+describe('debriefReady', () => {
+  it('waits for analyze even when bookmarks already made an events file', () => {
+    const eventsPath = 'file:///r/S1.events.json';
+    expect(debriefReady(row({ eventsPath, status: 'queued', stage: 'persist' }))).toBe(false);
+    expect(debriefReady(row({ eventsPath, status: 'processing', stage: 'analyze' }))).toBe(false);
+    expect(debriefReady(row({ eventsPath, status: 'failed', stage: 'analyze' }))).toBe(false);
+  });
+
+  it('is ready once analyze is done, whatever sync does', () => {
+    expect(debriefReady(row({ status: 'queued', stage: 'sync' }))).toBe(true);
+    expect(debriefReady(row({ status: 'failed', stage: 'sync' }))).toBe(true);
+    expect(debriefReady(row({ status: 'done' }))).toBe(true);
+    expect(debriefReady(row({}))).toBe(true);
+  });
+});
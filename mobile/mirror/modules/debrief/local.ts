@@ -0,0 +1,144 @@
+import * as FileSystem from 'expo-file-system';
+import { z } from 'zod';
+import { addSession, getSession, RECORDINGS_DIR, sessionFilePath, type Session } from '../sessions/local';
+import { getAsrEngine } from '../asr/engine';
+import { loadTranscript } from '../asr/transcript';
+import { addUserEvent, loadEvents } from '../rules/local';
+import { encryptInPlace, readText, withPlaintext, writeText } from '../vault/vault';
+import { generateQuestions, type DebriefQuestion } from './questions';
+
+/**
+ * Debrief state per session (…/<id>.debrief.json): the questions asked and
+ * what the user did with each. Questions are generated once, so answers keep
+ * pointing at the same prompts if the rules are re-run later.
+ */
+export const DEBRIEF_SCHEMA_VERSION = 1;
+
+const QuestionSchema = z.object({
+  id: z.string(),
+  t_ms: z.number().nonnegative(),
+  prompt: z.string(),
+  source: z.string(),
+});
+
+const AnswerSchema = z.object({
+  questionId: z.string(),
+  status: z.enum(['answered', 'skipped', 'bookmarked']),
+  text: z.string().optional(),
+  audioPath: z.string().optional(),   // encrypted voice answer
+  at: z.number(),
+});
+
+const DebriefSchema = z.object({
+  schemaVersion: z.literal(DEBRIEF_SCHEMA_VERSION),
+  type: z.literal('debrief'),
+  createdAt: z.number(),
+  questions: z.array(QuestionSchema),
+  answers: z.array(AnswerSchema),
+  completedAt: z.number().optional(),
+});
+
+export type DebriefAnswer = z.infer<typeof AnswerSchema>;
+export type Debrief = z.infer<typeof DebriefSchema>;
+
+/**
+ * Processing has got far enough (analyze has finished) for a debrief. Not
+ * `eventsPath`: live bookmarks create the events file before the rules run.
+ * Rows from before the queue have no status and were processed in full.
+ */
+export const debriefReady = (s: Session) => s.status === 'done' || s.stage === 'sync' || s.status == null;
+
+async function requireSession(id: string) {
+  const session = await getSession(id);
+  if (!session) throw new Error(`debrief: no session ${id}`);
+  return session;
+}
+
+async function save(path: string, debrief: Debrief) {
+  const parsed = DebriefSchema.safeParse(debrief);
+  if (!parsed.success) throw new Error(`debrief: ${z.prettifyError(parsed.error)}`);
+  await writeText(path, JSON.stringify(parsed.data));
+}
+
+export async function loadDebrief(path: string): Promise<Debrief> {
+  const parsed = DebriefSchema.safeParse(JSON.parse(await readText(path)));
+  if (!parsed.success) throw new Error(`loadDebrief: ${z.prettifyError(parsed.error)} (${path})`);
+  return parsed.data;
+}
+
+/** Load the session's debrief, generating its questions on first open. */
+export async function openDebrief(sessionId: string): Promise<Debrief> {
+  const session = await requireSession(sessionId);
+  if (session.debriefPath) return loadDebrief(session.debriefPath);
+
+  const events = session.eventsPath ? (await loadEvents(session.eventsPath)).events : [];
+  const segments = session.transcriptPath ? (await loadTranscript(session.transcriptPath)).segments : [];
+  const debrief: Debrief = {
+    schemaVersion: DEBRIEF_SCHEMA_VERSION,
+    type: 'debrief',
+    createdAt: Date.now(),
+    questions: generateQuestions(events, segments),
+    answers: [],
+  };
+  const debriefPath = sessionFilePath(session.id, 'debrief');
+  await save(debriefPath, debrief);
+  await addSession({ id: sessionId, debriefPath });
+  return debrief;
+}
+
+/**
+ * Store what the user did with a question (latest action wins). Bookmarks
+ * also go into the session's event log so they show up with the rule events.
+ */
+export async function answerQuestion(
+  sessionId: string,
+  question: DebriefQuestion,
+  answer: Omit<DebriefAnswer, 'questionId' | 'at'>
+): Promise<Debrief> {
+  const session = await requireSession(sessionId);
+  if (!session.debriefPath) throw new Error('answerQuestion: debrief not opened');
+  const debrief = await loadDebrief(session.debriefPath);
+
+  const entry: DebriefAnswer = { ...answer, questionId: question.id, at: Date.now() };
+  debrief.answers = [...debrief.answers.filter((a) => a.questionId !== question.id), entry];
+  if (debrief.questions.every((q) => debrief.answers.some((a) => a.questionId === q.id))) {
+    debrief.completedAt ??= Date.now();
+  }
+  await save(session.debriefPath, debrief);
+
+  if (answer.status === 'bookmarked') {
+    const eventsPath = await addUserEvent(session, {
+      rule: 'bookmark',
+      start_ms: question.t_ms,
+      end_ms: question.t_ms,
+      label: question.prompt,
+    });
+    if (!session.eventsPath) await addSession({ id: sessionId, eventsPath });
+  }
+  return debrief;
+}
+
+/**
+ * Move a voice answer from the recorder's temp file next to the session and
+ * encrypt it. Returns the final path and, when the ASR engine manages it, a
+ * transcript of the answer.
+ */
+export async function saveVoiceAnswer(
+  sessionId: string,
+  question: DebriefQuestion,
+  tempUri: string
+): Promise<{ audioPath: string; text?: string }> {
+  const ext = tempUri.split('.').pop() ?? 'm4a';
+  const audioPath = `${RECORDINGS_DIR}/${sessionId}_debrief_${question.id.replace(/[^\w-]/g, '_')}.${ext}`;
+  await FileSystem.moveAsync({ from: tempUri, to: audioPath });
+  await encryptInPlace(audioPath);
+
+  let text: string | undefined;
+  try {
+    const result = await withPlaintext(audioPath, (mediaPath) => getAsrEngine().transcribe({ mediaPath }));
+    text = result.words.map((w) => w.word).join(' ').replace(/\s+/g, ' ').trim() || undefined;
+  } catch (e) {
+    console.warn('[Debrief] voice answer not transcribed:', e);
+  }
+  return { audioPath, text };
+}
@@ -0,0 +1,78 @@
+import type { TranscriptSegment } from '../asr/transcript';
+import type { Event } from '../rules/events';
+
+/**
+ * Reflection questions for the post-session debrief. Each question points at
+ * a moment in the recording; rule events come first, transcript segments
+ * fill up to `min` when the rules found little.
+ */
+
+export type DebriefQuestion = {
+  id: string;            // stable within a session: `<source>@<t_ms>`
+  t_ms: number;          // where the video seeks to
+  prompt: string;
+  source: string;        // rule id, 'bookmark' or 'segment'
+};
+
+const quote = (s: string, max = 80) => {
+  const t = s.trim().replace(/\s+/g, ' ');
+  return `“${t.length > max ? `${t.slice(0, max - 1)}…` : t}”`;
+};
+
+const eventWords = (e: Event) => (e.evidence.words ?? []).map((w) => w.word.trim()).join(' ');
+
+// prompts per rule id; unknown rules fall back to their label
+const PROMPTS: Record<string, (e: Event) => string> = {
+  absolutist: (e) => `You said ${quote(eventWords(e))} here. Is that always true, or does it just feel that way?`,
+  hedging: () => 'You hedged a few times here. What were you unsure about?',
+  head_shake: () => 'Your head was shaking here. What were you feeling at this moment?',
+  shake_while_yes: () => 'You said yes while shaking your head. Did you mean it?',
+  bookmark: (e) => (e.label ? `You bookmarked this: ${quote(e.label)}. Why?` : 'You bookmarked this moment. Why?'),
+};
+
+// rough salience when there are more events than question slots
+const WEIGHT: Record<string, number> = { bookmark: 4, shake_while_yes: 3, head_shake: 2, absolutist: 2, hedging: 1 };
+
+function fromEvent(e: Event): DebriefQuestion {
+  const prompt = PROMPTS[e.rule]?.(e) ?? `${e.label ?? e.rule} — what was going on here?`;
+  return { id: `${e.rule}@${e.start_ms}`, t_ms: e.start_ms, prompt, source: e.rule };
+}
+
+function fromSegment(s: TranscriptSegment): DebriefQuestion {
+  return {
+    id: `segment@${s.start_ms}`,
+    t_ms: s.start_ms,
+    prompt: `You said ${quote(s.text)}. What was behind that?`,
+    source: 'segment',
+  };
+}
+
+export function generateQuestions(
+  events: Event[],
+  segments: TranscriptSegment[],
+  opts: { min?: number; max?: number; spacingMs?: number } = {}
+): DebriefQuestion[] {
+  const min = opts.min ?? 2;
+  const max = opts.max ?? 5;
+  const spacingMs = opts.spacingMs ?? 8_000;
+
+  const picked: DebriefQuestion[] = [];
+  const farFromPicked = (t: number) => picked.every((q) => Math.abs(q.t_ms - t) >= spacingMs);
+
+  const ranked = [...events].sort(
+    (a, b) => (WEIGHT[b.rule] ?? 1) - (WEIGHT[a.rule] ?? 1) || a.start_ms - b.start_ms
+  );
+  for (const e of ranked) {
+    if (picked.length >= max) break;
+    if (farFromPicked(e.start_ms)) picked.push(fromEvent(e));
+  }
+
+  // longer segments make better prompts than "um, okay"
+  const bySize = [...segments].filter((s) => s.text.trim().split(/\s+/).length >= 4).sort((a, b) => b.text.length - a.text.length);
+  for (const s of bySize) {
+    if (picked.length >= Math.min(min, max)) break;
+    if (farFromPicked(s.start_ms)) picked.push(fromSegment(s));
+  }
+
+  return picked.sort((a, b) => a.t_ms - b.t_ms);
+}
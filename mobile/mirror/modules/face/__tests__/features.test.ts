@@ -0,0 +1,101 @@
+import {
+  BLINK_MIN_HZ,
+  detectBlinks,
+  eyeAspectRatio,
+  eyeOpenness,
+  resample,
+  summarize,
+  type FaceFrame,
+  type FaceSample,
+} from '../features';
+
+const face = (extra: Partial<NonNullable<FaceFrame['face']>> = {}) => ({ yaw: 0, pitch: 0, roll: 0, ...extra });
+
+/** A 10 Hz series from eye openness values; null is a lost face. */
+const series = (eyeOpen: (number | null)[]): FaceSample[] =>
+  eyeOpen.map((e, i) => ({ t_ms: i * 100, yaw: e == null ? null : 0, pitch: e == null ? null : 0, roll: 0, eyeOpen: e }));
+
+describe('eyeAspectRatio', () => {
+  it('uses the 6-point EAR formula', () => {
+    const eye = [
+      { x: 0, y: 0 },
+      { x: 1, y: 1 },
+      { x: 2, y: 1 },
+      { x: 3, y: 0 },
+      { x: 2, y: -1 },
+      { x: 1, y: -1 },
+    ];
+    expect(eyeAspectRatio(eye)).toBeCloseTo((2 + 2) / (2 * 3));
+  });
+
+  it('falls back to the bounding box for other contours', () => {
+    const eye = [0, 1, 2, 3, 4, 5, 6, 7].map((x) => ({ x, y: x % 2 }));
+    expect(eyeAspectRatio(eye)).toBeCloseTo(1 / 7);
+    expect(eyeAspectRatio([{ x: 0, y: 0 }])).toBeNaN();
+    expect(eyeAspectRatio([0, 0, 0, 0].map(() => ({ x: 1, y: 1 })))).toBeNaN();
+  });
+});
+
+describe('eyeOpenness', () => {
+  it('prefers detector probabilities', () => {
+    expect(eyeOpenness(face({ leftEyeOpen: 0.2, rightEyeOpen: 0.6, leftEye: [] }))).toBeCloseTo(0.4);
+  });
+
+  it('scales contour EAR to 0..1 and clamps', () => {
+    const wide = [0, 1, 2, 3, 4].map((x) => ({ x, y: x === 2 ? 4 : 0 }));
+    expect(eyeOpenness(face({ leftEye: wide }))).toBe(1);
+    expect(eyeOpenness(face())).toBeNull();
+  });
+});
+
+describe('resample', () => {
+  it('puts the nearest frame on each grid point and leaves gaps null', () => {
+    const frames: FaceFrame[] = [
+      { t_ms: 0, face: face({ yaw: 1, leftEyeOpen: 1 }) },
+      { t_ms: 110, face: face({ yaw: 2 }) },
+      { t_ms: 300, face: null },
+    ];
+    const out = resample(frames, 10, 400);
+    expect(out.map((s) => s.t_ms)).toEqual([0, 100, 200, 300, 400]);
+    expect(out.map((s) => s.yaw)).toEqual([1, 2, null, null, null]);
+    expect(out[0].eyeOpen).toBe(1);
+    expect(out[1].eyeOpen).toBeNull();
+  });
+
+  it('returns nothing without frames', () => {
+    expect(resample([], 10, 1000)).toEqual([]);
+  });
+});
+
+describe('detectBlinks', () => {
+  it('finds a short closure between open samples', () => {
+    const blinks = detectBlinks(series([1, 1, 0.1, 0.1, 1, 1]));
+    expect(blinks).toEqual([{ start_ms: 150, end_ms: 350, duration_ms: 200 }]);
+  });
+
+  it('ignores long closures and closures across a lost face', () => {
+    expect(detectBlinks(series([1, 0.1, 0.1, 0.1, 0.1, 0.1, 0.1, 1]))).toEqual([]);
+    expect(detectBlinks(series([1, 0.1, null, 1]))).toEqual([]);
+    expect(detectBlinks(series([0.1, 1]))).toEqual([]);
+  });
+
+  it('needs the eyes to open past the upper threshold', () => {
+    expect(detectBlinks(series([1, 0.1, 0.5, 0.1, 1]))).toEqual([{ start_ms: 50, end_ms: 350, duration_ms: 300 }]);
+  });
+});
+
+describe('summarize', () => {
+  it('reports coverage, blink rate and mean pose over seen samples', () => {
+    const samples = series([1, 1, null, 1]);
+    samples[0].yaw = 10;
+    const summary = summarize(samples, [{ start_ms: 0, end_ms: 100, duration_ms: 100 }], 10);
+    expect(summary.coverage).toBe(0.75);
+    expect(summary.blinkRatePerMin).toBeCloseTo(1 / (3 / 10 / 60));
+    expect(summary.meanYaw).toBeCloseTo(10 / 3);
+  });
+
+  it('has no blink rate for series too slow to show blinks', () => {
+    expect(summarize(series([1, 1]), [], BLINK_MIN_HZ - 1).blinkRatePerMin).toBeNull();
+    expect(summarize([], [], 10)).toEqual({ coverage: 0, blinkRatePerMin: 0, meanYaw: null, meanPitch: null });
+  });
+});
@@ -0,0 +1,185 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as VideoThumbnails from 'expo-video-thumbnails';
+import { Audio } from 'expo-av';
+import FaceDetection from '@react-native-ml-kit/face-detection';
+import { z } from 'zod';
+
+import { readText, withPlaintext, writeText } from '../vault/vault';
+import { BLINK_MIN_HZ, detectBlinks, resample, summarize, type FaceFrame } from './features';
+
+/**
+ * Post-recording face pass: grab frames from the recording at `hz`, run a
+ * face detector on each and write the cue series to `<id>.face.json`.
+ * Runs as the queue's analyze stage, after the recording is encrypted.
+ *
+ * Frames come from expo-video-thumbnails, one native round trip (plus one
+ * detector call) each. That is a stand-in for a decoder with real frame
+ * access, and it does not meet the ~10 Hz target everywhere:
+ * - On Android the thumbnailer only decodes keyframes (OPTION_CLOSEST_SYNC),
+ *   so the series is sampled at ~1 Hz, repeated keyframes are dropped, and
+ *   the result is marked `sampling: 'keyframes'`.
+ * - On iOS the rate is capped at MAX_FRAMES per recording, so 10 Hz only
+ *   holds for the first 3 minutes of length; longer recordings get less.
+ * Below BLINK_MIN_HZ there are no blinks and head shakes are lost too; only
+ * head-pose trends survive. The pass logs when a series ends up that coarse.
+ */
+
+export const FACE_SCHEMA_VERSION = 1;
+export const FACE_HZ = 10;
+// at most this many thumbnails per recording; longer ones are sampled slower
+const MAX_FRAMES = 1800;
+const KEYFRAME_HZ = 1;
+
+const nullableNumber = z.number().nullable();
+
+export const FaceSeriesSchema = z.object({
+  schemaVersion: z.literal(FACE_SCHEMA_VERSION),
+  type: z.literal('face'),
+  detector: z.string(),
+  createdAt: z.number(),
+  hz: z.number().positive(),
+  sampling: z.enum(['frames', 'keyframes']).optional(), // missing: 'frames'
+  durationMs: z.number().optional(),
+  samples: z.array(
+    z.object({ t_ms: z.number(), yaw: nullableNumber, pitch: nullableNumber, roll: nullableNumber, eyeOpen: nullableNumber })
+  ),
+  blinks: z.array(z.object({ start_ms: z.number(), end_ms: z.number(), duration_ms: z.number() })),
+  summary: z.object({
+    coverage: z.number(),
+    blinkRatePerMin: nullableNumber,
+    meanYaw: nullableNumber,
+    meanPitch: nullableNumber,
+  }),
+});
+
+export type FaceSeries = z.infer<typeof FaceSeriesSchema>;
+
+/** Finds the most prominent face in a still image (file:// uri). */
+export type FaceDetector = {
+  id: string;
+  detect(imageUri: string): Promise<FaceFrame['face']>;
+};
+
+export const mlkitDetector: FaceDetector = {
+  id: 'mlkit',
+  async detect(imageUri) {
+    const faces = await FaceDetection.detect(imageUri, {
+      performanceMode: 'fast',
+      classificationMode: 'all',
+      contourMode: 'all', // contours are only computed for the largest face
+    });
+    const face = [...faces].sort((a, b) => b.frame.width * b.frame.height - a.frame.width * a.frame.height)[0];
+    if (!face) return null;
+    return {
+      yaw: face.rotationY,
+      pitch: face.rotationX,
+      roll: face.rotationZ,
+      leftEye: face.contours?.leftEye?.points,
+      rightEye: face.contours?.rightEye?.points,
+      leftEyeOpen: face.leftEyeOpenProbability,
+      rightEyeOpen: face.rightEyeOpenProbability,
+    };
+  },
+};
+
+let detector: FaceDetector = mlkitDetector;
+
+export function setFaceDetector(d: FaceDetector) {
+  detector = d;
+}
+
+const keyframesOnly = () => Platform.OS === 'android';
+
+/** Frames per second to grab from a recording of `durationMs`. */
+function sampleRate(durationMs: number, hz: number) {
+  if (keyframesOnly()) return Math.min(hz, KEYFRAME_HZ);
+  return Math.min(hz, (MAX_FRAMES * 1000) / durationMs);
+}
+
+/** Duration of a media file, from the player when the session row has none. */
+async function mediaDurationMs(mediaPath: string): Promise<number | undefined> {
+  const { sound, status } = await Audio.Sound.createAsync({ uri: mediaPath }, { shouldPlay: false });
+  try {
+    return status.isLoaded ? status.durationMillis : undefined;
+  } finally {
+    await sound.unloadAsync();
+  }
+}
+
+async function sampleFrames(mediaPath: string, durationMs: number, hz: number, d: FaceDetector) {
+  const frames: FaceFrame[] = [];
+  const step = 1000 / hz;
+  let previous: string | undefined;
+  for (let t = 0; t <= durationMs; t += step) {
+    const time = Math.round(t);
+    let thumb: string | null = null;
+    try {
+      thumb = (await VideoThumbnails.getThumbnailAsync(mediaPath, { time, quality: 0.5 })).uri;
+      const face = await d.detect(thumb);
+      // the same keyframe again gives the same detection; it is not a new sample
+      const key = face && JSON.stringify(face);
+      if (key && key === previous) continue;
+      previous = key ?? undefined;
+      frames.push({ t_ms: time, face });
+    } catch (e) {
+      // past the last decodable frame, or a bad frame: leave a gap
+      console.warn(`[Face] frame at ${time}ms failed:`, e);
+    } finally {
+      // frames are plaintext images of the user; don't leave them in the cache
+      if (thumb) await FileSystem.deleteAsync(thumb, { idempotent: true });
+    }
+  }
+  return frames;
+}
+
+/**
+ * Extract the face series for a recording and save it (encrypted) to
+ * `facePath`. Returns the path of the JSON.
+ */
+export async function processAndSaveFace(args: {
+  videoPath: string;
+  facePath: string;
+  durationMs?: number;
+  detector?: FaceDetector;
+  hz?: number;
+}): Promise<string> {
+  const { videoPath, facePath } = args;
+  const d = args.detector ?? detector;
+
+  const { frames, durationMs, hz } = await withPlaintext(videoPath, async (mediaPath) => {
+    const durationMs = args.durationMs || (await mediaDurationMs(mediaPath));
+    if (!durationMs) throw new Error('processAndSaveFace: duration unknown');
+    const hz = sampleRate(durationMs, args.hz ?? FACE_HZ);
+    return { frames: await sampleFrames(mediaPath, durationMs, hz, d), durationMs, hz };
+  });
+  if (!frames.length) throw new Error('processAndSaveFace: no frames could be read');
+
+  if (hz < BLINK_MIN_HZ) {
+    console.warn(`[Face] sampled at ${hz.toFixed(2)} Hz; blinks and head shakes will not show up`);
+  }
+
+  const samples = resample(frames, hz, durationMs);
+  const blinks = hz >= BLINK_MIN_HZ ? detectBlinks(samples) : [];
+  const series: FaceSeries = {
+    schemaVersion: FACE_SCHEMA_VERSION,
+    type: 'face',
+    detector: d.id,
+    createdAt: Date.now(),
+    hz,
+    sampling: keyframesOnly() ? 'keyframes' : 'frames',
+    durationMs,
+    samples,
+    blinks,
+    summary: summarize(samples, blinks, hz),
+  };
+
+  await writeText(facePath, JSON.stringify(series));
+  return facePath;
+}
+
+export async function loadFaceSeries(path: string): Promise<FaceSeries> {
+  const parsed = FaceSeriesSchema.safeParse(JSON.parse(await readText(path)));
+  if (!parsed.success) throw new Error(`loadFaceSeries: ${z.prettifyError(parsed.error)} (${path})`);
+  return parsed.data;
+}
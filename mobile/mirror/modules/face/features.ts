@@ -0,0 +1,160 @@
+/**
+ * Facial cue features: head pose + eye openness at a fixed rate, and blink
+ * events. Pure functions over a landmark stream so they run the same on
+ * detector output and on synthetic streams.
+ */
+
+export type Point = { x: number; y: number };
+
+/** One detector result; `face: null` when no face was found in the frame. */
+export type FaceFrame = {
+  t_ms: number;
+  face: {
+    yaw: number;              // degrees, detector's Euler angles
+    pitch: number;
+    roll: number;
+    leftEye?: Point[];        // eye contour, any number of points
+    rightEye?: Point[];
+    leftEyeOpen?: number;     // detector probability 0..1, preferred over contours
+    rightEyeOpen?: number;
+  } | null;
+};
+
+export type FaceSample = {
+  t_ms: number;
+  yaw: number | null;
+  pitch: number | null;
+  roll: number | null;
+  eyeOpen: number | null;     // 0 closed .. 1 open
+};
+
+export type BlinkEvent = { start_ms: number; end_ms: number; duration_ms: number };
+
+// Eye aspect ratio of a fully open eye; EAR is scaled by this to 0..1.
+const OPEN_EAR = 0.3;
+
+/**
+ * Height / width of an eye contour. With the 6-point layout of Soukupová &
+ * Čech this is the classic EAR; for denser contours it is the bounding-box
+ * ratio, which behaves the same way for blink detection.
+ */
+export function eyeAspectRatio(points: Point[]): number {
+  if (points.length < 4) return NaN;
+  if (points.length === 6) {
+    const d = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+    const [p1, p2, p3, p4, p5, p6] = points;
+    return (d(p2, p6) + d(p3, p5)) / (2 * d(p1, p4));
+  }
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const w = Math.max(...xs) - Math.min(...xs);
+  return w > 0 ? (Math.max(...ys) - Math.min(...ys)) / w : NaN;
+}
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+export function eyeOpenness(face: NonNullable<FaceFrame['face']>): number | null {
+  const probs = [face.leftEyeOpen, face.rightEyeOpen].filter((p): p is number => typeof p === 'number');
+  if (probs.length) return clamp01(probs.reduce((a, b) => a + b, 0) / probs.length);
+
+  const ears = [face.leftEye, face.rightEye]
+    .filter((e): e is Point[] => !!e)
+    .map(eyeAspectRatio)
+    .filter((v) => Number.isFinite(v));
+  if (!ears.length) return null;
+  return clamp01(ears.reduce((a, b) => a + b, 0) / ears.length / OPEN_EAR);
+}
+
+/**
+ * Put frames on a fixed `hz` grid. Each grid point takes the nearest frame
+ * within half a step; gaps become null samples rather than being invented.
+ */
+export function resample(frames: FaceFrame[], hz = 10, durationMs?: number): FaceSample[] {
+  const sorted = [...frames].sort((a, b) => a.t_ms - b.t_ms);
+  if (!sorted.length) return [];
+  const step = 1000 / hz;
+  const end = durationMs ?? sorted[sorted.length - 1].t_ms;
+  const out: FaceSample[] = [];
+
+  let j = 0;
+  for (let t = 0; t <= end + 1e-6; t += step) {
+    while (j + 1 < sorted.length && Math.abs(sorted[j + 1].t_ms - t) <= Math.abs(sorted[j].t_ms - t)) j++;
+    const f = sorted[j];
+    const near = Math.abs(f.t_ms - t) <= step / 2 && f.face;
+    out.push({
+      t_ms: Math.round(t),
+      yaw: near ? f.face!.yaw : null,
+      pitch: near ? f.face!.pitch : null,
+      roll: near ? f.face!.roll : null,
+      eyeOpen: near ? eyeOpenness(f.face!) : null,
+    });
+  }
+  return out;
+}
+
+// A blink lasts 100-400 ms; slower series can't show one.
+export const BLINK_MIN_HZ = 5;
+
+export type BlinkOptions = {
+  closeBelow?: number;      // eyes count as closed under this openness
+  openAbove?: number;       // ... and open again above this (hysteresis)
+  minMs?: number;
+  maxMs?: number;           // longer closures are "eyes closed", not blinks
+};
+
+/** Blink events from an openness series (hysteresis + duration window). */
+export function detectBlinks(samples: FaceSample[], opts: BlinkOptions = {}): BlinkEvent[] {
+  const closeBelow = opts.closeBelow ?? 0.35;
+  const openAbove = opts.openAbove ?? 0.55;
+  const minMs = opts.minMs ?? 50;
+  const maxMs = opts.maxMs ?? 500;
+
+  const blinks: BlinkEvent[] = [];
+  let closedAt: number | null = null;      // first closed sample
+  let lastClosedAt: number | null = null;  // most recent closed sample
+  let lastOpenAt: number | null = null;
+
+  for (const s of samples) {
+    if (s.eyeOpen == null) {
+      closedAt = lastClosedAt = lastOpenAt = null; // lost the face: don't bridge the gap
+      continue;
+    }
+    if (closedAt == null) {
+      if (s.eyeOpen < closeBelow && lastOpenAt != null) closedAt = lastClosedAt = s.t_ms;
+      else if (s.eyeOpen >= openAbove) lastOpenAt = s.t_ms;
+    } else if (s.eyeOpen <= openAbove) {
+      if (s.eyeOpen < closeBelow) lastClosedAt = s.t_ms;
+    } else {
+      // at 10 Hz a blink is often a single closed sample, so the edges are
+      // put halfway between the last open / first closed samples and back
+      const start = Math.round((lastOpenAt! + closedAt) / 2);
+      const end = Math.round((lastClosedAt! + s.t_ms) / 2);
+      const duration = end - start;
+      if (duration >= minMs && duration <= maxMs) {
+        blinks.push({ start_ms: start, end_ms: end, duration_ms: duration });
+      }
+      closedAt = lastClosedAt = null;
+      lastOpenAt = s.t_ms;
+    }
+  }
+  return blinks;
+}
+
+export type FaceSummary = {
+  coverage: number;          // share of samples with a face
+  blinkRatePerMin: number | null;  // null when sampled too slowly to see blinks
+  meanYaw: number | null;
+  meanPitch: number | null;
+};
+
+export function summarize(samples: FaceSample[], blinks: BlinkEvent[], hz = 10): FaceSummary {
+  const seen = samples.filter((s) => s.yaw != null);
+  const mean = (xs: number[]) => (xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : null);
+  const minutes = seen.length / hz / 60;
+  return {
+    coverage: samples.length ? seen.length / samples.length : 0,
+    blinkRatePerMin: hz < BLINK_MIN_HZ ? null : minutes > 0 ? blinks.length / minutes : 0,
+    meanYaw: mean(seen.map((s) => s.yaw!)),
+    meanPitch: mean(seen.map((s) => s.pitch!)),
+  };
+}
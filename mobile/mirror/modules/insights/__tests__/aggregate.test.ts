@@ -0,0 +1,24 @@
+import { addDays, ruleTrend, startOfWeek } from '../aggregate';
+
+describe('ruleTrend', () => {
+  const now = new Date(2025, 5, 12, 12).getTime();
+  const thisWeek = startOfWeek(now);
+  const lastWeek = addDays(thisWeek, -7);
+  const sessions = [
+    { id: 'a', createdAt: lastWeek + 3_600_000, durationMs: 20_000 },
+    { id: 'b', createdAt: thisWeek + 3_600_000, durationMs: 90_000 },
+  ];
+  const events = { a: [{ rule: 'absolutist' }], b: [{ rule: 'absolutist' }, { rule: 'pause' }] };
+
+  it('rates weeks by their recorded time, however short', () => {
+    const [last, current] = ruleTrend(sessions, events, 'absolutist', 2, now);
+    expect(last).toEqual({ weekStart: lastWeek, count: 1, perTenMin: 30 });
+    expect(current.count).toBe(1);
+    expect(current.perTenMin).toBeCloseTo(10 / 1.5);
+  });
+
+  it('has no rate for weeks without recordings', () => {
+    const [empty] = ruleTrend(sessions, events, 'absolutist', 3, now);
+    expect(empty).toEqual({ weekStart: addDays(lastWeek, -7), count: 0, perTenMin: null });
+  });
+});
@@ -0,0 +1,156 @@
+import { tokenize } from '../search/engine';
+
+/**
+ * Dashboard aggregates. Pure functions over sessions, transcript text and
+ * events that were already loaded on the device; nothing here does I/O.
+ * Days and weeks are local calendar days/weeks (weeks start on Monday).
+ */
+
+export type SessionLite = { id: string; createdAt: number; durationMs?: number; promptId?: string };
+
+export function startOfDay(ms: number): number {
+  const d = new Date(ms);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+}
+
+export function startOfWeek(ms: number): number {
+  const d = new Date(startOfDay(ms));
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d.getTime();
+}
+
+/** `ms` shifted by whole calendar days (DST-safe). */
+export function addDays(ms: number, days: number): number {
+  const d = new Date(ms);
+  d.setDate(d.getDate() + days);
+  return d.getTime();
+}
+
+/**
+ * Consecutive days with at least one recording, counting back from today.
+ * A streak stays alive through today until midnight if yesterday counted.
+ */
+export function recordingStreak(sessions: SessionLite[], now = Date.now()): { current: number; longest: number } {
+  const days = new Set(sessions.map((s) => startOfDay(s.createdAt)));
+  let day = startOfDay(now);
+  if (!days.has(day)) day = addDays(day, -1);
+  let current = 0;
+  while (days.has(day)) {
+    current++;
+    day = addDays(day, -1);
+  }
+
+  let longest = 0;
+  let run = 0;
+  let prev: number | null = null;
+  for (const d of [...days].sort((a, b) => a - b)) {
+    run = prev != null && addDays(prev, 1) === d ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    prev = d;
+  }
+  return { current, longest };
+}
+
+export function totalMinutes(sessions: SessionLite[]): number {
+  return Math.round(sessions.reduce((n, s) => n + (s.durationMs ?? 0), 0) / 60_000);
+}
+
+export type WeekBucket = { weekStart: number; sessions: number; minutes: number };
+
+/** The last `weeks` weeks up to and including the current one, oldest first. */
+export function weeklyBuckets(sessions: SessionLite[], weeks = 8, now = Date.now()): WeekBucket[] {
+  const current = startOfWeek(now);
+  const buckets: WeekBucket[] = Array.from({ length: weeks }, (_, i) => ({
+    weekStart: startOfWeek(addDays(current, -7 * (weeks - 1 - i))),
+    sessions: 0,
+    minutes: 0,
+  }));
+  const byStart = new Map(buckets.map((b) => [b.weekStart, b]));
+  for (const s of sessions) {
+    const b = byStart.get(startOfWeek(s.createdAt));
+    if (!b) continue;
+    b.sessions++;
+    b.minutes += (s.durationMs ?? 0) / 60_000;
+  }
+  buckets.forEach((b) => (b.minutes = Math.round(b.minutes)));
+  return buckets;
+}
+
+// Function words that would otherwise top every list.
+const STOPWORDS = new Set(
+  ('a an and are as at be been but by can could did do does dont for from had has have he her him his i im ' +
+    'if in into is it its ive just like me my no not of on or our really she so some than that thats the ' +
+    'their them then there they this to too um uh us very was we were what when which who will with would ' +
+    'you your yeah okay oh know mean think going get got gonna kind sort one thing things')
+    .split(' ')
+);
+
+export type Count = { text: string; count: number };
+
+/**
+ * Most frequent words (n = 1) or phrases (n > 1) across `texts`. Phrases
+ * may not start or end with a stopword, and must recur (count >= 2).
+ */
+export function topNgrams(texts: string[], n = 1, limit = 10): Count[] {
+  const counts = new Map<string, number>();
+  for (const text of texts) {
+    const toks = tokenize(text);
+    for (let i = 0; i + n <= toks.length; i++) {
+      const gram = toks.slice(i, i + n);
+      if (STOPWORDS.has(gram[0]) || STOPWORDS.has(gram[n - 1])) continue;
+      if (gram.some((t) => t.length < 2 || /^\d+$/.test(t))) continue;
+      const key = gram.join(' ');
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .filter(([, c]) => n === 1 || c >= 2)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([text, count]) => ({ text, count }));
+}
+
+/**
+ * Entries per prompt template, most used first. Free-form entries are left
+ * out; templates `titleOf` no longer knows (deleted) are counted together.
+ */
+export function templateCounts(sessions: SessionLite[], titleOf: (id: string) => string | undefined): Count[] {
+  const counts = new Map<string, number>();
+  for (const s of sessions) {
+    if (!s.promptId) continue;
+    const title = titleOf(s.promptId) ?? 'Deleted template';
+    counts.set(title, (counts.get(title) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([text, count]) => ({ text, count }));
+}
+
+export type TrendPoint = { weekStart: number; count: number; perTenMin: number | null };
+
+/**
+ * Weekly counts of `rule` events, with a rate per 10 recorded minutes so
+ * weeks with more recording don't look worse just for being longer.
+ */
+export function ruleTrend(
+  sessions: SessionLite[],
+  eventsBySession: Record<string, { rule: string }[]>,
+  rule: string,
+  weeks = 8,
+  now = Date.now()
+): TrendPoint[] {
+  // from durationMs, not the buckets' rounded minutes: short weeks would be off
+  const weekly = new Map(weeklyBuckets(sessions, weeks, now).map((b) => [b.weekStart, { count: 0, ms: 0 }]));
+  for (const s of sessions) {
+    const w = weekly.get(startOfWeek(s.createdAt));
+    if (!w) continue;
+    w.count += (eventsBySession[s.id] ?? []).filter((e) => e.rule === rule).length;
+    w.ms += s.durationMs ?? 0;
+  }
+  return [...weekly].map(([weekStart, { count, ms }]) => ({
+    weekStart,
+    count,
+    perTenMin: ms > 0 ? (count / ms) * 600_000 : null,
+  }));
+}
@@ -0,0 +1,75 @@
+import { getTemplate } from '../prompts/local';
+import { loadEvents } from '../rules/local';
+import { indexedText } from '../search/local';
+import { listSessions } from '../sessions/local';
+import {
+  recordingStreak,
+  ruleTrend,
+  templateCounts,
+  topNgrams,
+  totalMinutes,
+  weeklyBuckets,
+  type Count,
+  type TrendPoint,
+  type WeekBucket,
+} from './aggregate';
+
+/**
+ * Gathers the Home dashboard from what is already on the device: the session
+ * store, the (encrypted) search index for transcript text and each session's
+ * events file. Nothing is sent anywhere.
+ */
+
+export const INSIGHT_WEEKS = 8;
+// rules whose weekly trend the dashboard charts
+export const TREND_RULES = ['absolutist', 'hedging', 'head_shake'] as const;
+
+export type Insights = {
+  sessionCount: number;
+  streak: { current: number; longest: number };
+  totalMinutes: number;
+  weeks: WeekBucket[];
+  topWords: Count[];
+  topPhrases: Count[];
+  byTemplate: Count[];
+  trends: Record<(typeof TREND_RULES)[number], TrendPoint[]>;
+};
+
+export async function loadInsights(now = Date.now()): Promise<Insights> {
+  const sessions = await listSessions();
+
+  let texts: string[] = [];
+  try {
+    const byId = await indexedText();
+    texts = sessions.flatMap((s) => byId[s.id] ?? []);
+  } catch (e) {
+    console.warn('[Insights] transcripts unavailable:', e);
+  }
+
+  const eventsBySession: Record<string, { rule: string }[]> = {};
+  for (const s of sessions) {
+    if (!s.eventsPath) continue;
+    try {
+      eventsBySession[s.id] = (await loadEvents(s.eventsPath)).events;
+    } catch (e) {
+      console.warn(`[Insights] events skipped for ${s.id}:`, e);
+    }
+  }
+
+  const trends = Object.fromEntries(
+    TREND_RULES.map((rule) => [rule, ruleTrend(sessions, eventsBySession, rule, INSIGHT_WEEKS, now)])
+  ) as Insights['trends'];
+
+  return {
+    sessionCount: sessions.length,
+    streak: recordingStreak(sessions, now),
+    totalMinutes: totalMinutes(sessions),
+    weeks: weeklyBuckets(sessions, INSIGHT_WEEKS, now),
+    topWords: topNgrams(texts, 1, 10),
+    topPhrases: [...topNgrams(texts, 2, 10), ...topNgrams(texts, 3, 10)]
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 8),
+    byTemplate: templateCounts(sessions, (id) => getTemplate(id)?.title),
+    trends,
+  };
+}
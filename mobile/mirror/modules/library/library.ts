@@ -0,0 +1,130 @@
+import * as FileSystem from 'expo-file-system';
+import * as MediaLibrary from 'expo-media-library';
+import { enqueueSession } from '../processing/queue';
+import { videoFileName } from '../sessions/ids';
+import { createSession, listSessions, RECORDINGS_DIR, sessionIdFor, type Session } from '../sessions/local';
+import { withPlaintext } from '../vault/vault';
+
+/**
+ * The device's photo library: import existing videos as journal sessions and
+ * save a session's recording back out.
+ *
+ * An imported video is copied next to the recordings first and handed to the
+ * processing queue like a fresh recording: the persist stage encrypts it into
+ * recordings/ and deletes its source, which must never be the library's own
+ * file. The original stays in the library untouched.
+ */
+
+// not the cache (the OS may purge it before persist runs), and not the
+// archive's `.import`, which that importer wipes
+const IMPORT_DIR = `${RECORDINGS_DIR}/.library-import`;
+const PAGE_SIZE = 60;
+
+export type LibraryVideo = MediaLibrary.Asset;
+export type LibraryPage = { videos: LibraryVideo[]; next?: string };
+export type LibraryImportResult = {
+  imported: string[];                          // new session ids
+  skipped: string[];                           // asset ids imported before
+  failed: { assetId: string; error: string }[];
+};
+
+async function ensurePermission(writeOnly: boolean) {
+  // reading only needs videos (Android 13+ asks per media type)
+  const granular: MediaLibrary.GranularPermission[] | undefined = writeOnly ? undefined : ['video'];
+  let perm = await MediaLibrary.getPermissionsAsync(writeOnly, granular);
+  if (!perm.granted && perm.canAskAgain) perm = await MediaLibrary.requestPermissionsAsync(writeOnly, granular);
+  if (!perm.granted) throw new Error('Photo library access was not granted');
+}
+
+/** One page of the library's videos, newest first; pass `next` back for the following page. */
+export async function listLibraryVideos(after?: string): Promise<LibraryPage> {
+  await ensurePermission(false);
+  const page = await MediaLibrary.getAssetsAsync({
+    mediaType: MediaLibrary.MediaType.video,
+    sortBy: [[MediaLibrary.SortBy.creationTime, false]],
+    first: PAGE_SIZE,
+    after,
+  });
+  return { videos: page.assets, next: page.hasNextPage ? page.endCursor : undefined };
+}
+
+/** Library asset ids that already have a (not deleted) session. */
+export async function importedAssetIds(): Promise<Set<string>> {
+  return new Set((await listSessions()).flatMap((s) => s.libraryAssetId ?? []));
+}
+
+async function importOne(video: LibraryVideo): Promise<string> {
+  // iOS: may download the original from iCloud first
+  const info = await MediaLibrary.getAssetInfoAsync(video);
+  if (!info.localUri) throw new Error('the video is not available on this device');
+
+  // when it was filmed, not when it is imported; the library has no time zone
+  const createdAt = video.creationTime || video.modificationTime || Date.now();
+  const id = sessionIdFor(createdAt);
+  // keep the container: a .mov stored as .mp4 is misread when decrypted for playback or export
+  const name = videoFileName(id, /\.\w+$/.exec(video.filename)?.[0] ?? '');
+  const src = `${IMPORT_DIR}/${name}`;
+  await FileSystem.copyAsync({ from: info.localUri, to: src });
+
+  try {
+    await createSession({
+      id,
+      videoPath: `${RECORDINGS_DIR}/${name}`,
+      createdAt,
+      importedAt: Date.now(),
+      durationMs: video.duration > 0 ? Math.round(video.duration * 1000) : undefined,
+      libraryAssetId: video.id,
+      status: 'queued',
+      stage: 'persist',
+    });
+  } catch (e) {
+    await FileSystem.deleteAsync(src, { idempotent: true });
+    throw e;
+  }
+  await enqueueSession(id, { sourcePath: src });
+  return id;
+}
+
+/**
+ * Register each video as a session and queue it for transcription and
+ * analysis. Videos imported before are skipped; one that cannot be read does
+ * not stop the rest.
+ */
+export async function importLibraryVideos(
+  videos: LibraryVideo[],
+  onProgress?: (done: number, total: number) => void
+): Promise<LibraryImportResult> {
+  const result: LibraryImportResult = { imported: [], skipped: [], failed: [] };
+  const already = await importedAssetIds();
+  await FileSystem.makeDirectoryAsync(IMPORT_DIR, { intermediates: true });
+
+  for (const [i, video] of videos.entries()) {
+    if (already.has(video.id)) {
+      result.skipped.push(video.id);
+    } else {
+      try {
+        result.imported.push(await importOne(video));
+        already.add(video.id);
+      } catch (e: any) {
+        console.warn(`[Library] import of ${video.filename} failed:`, e);
+        result.failed.push({ assetId: video.id, error: String(e?.message ?? e) });
+      }
+    }
+    onProgress?.(i + 1, videos.length);
+  }
+
+  console.log(
+    `[Library] imported ${result.imported.length}, skipped ${result.skipped.length}, failed ${result.failed.length}`
+  );
+  return result;
+}
+
+/**
+ * Save a decrypted copy of a session's video to the photo library. The copy
+ * there is outside the vault and the app lock.
+ */
+export async function saveSessionToLibrary(session: Session): Promise<void> {
+  if (session.mediaKind === 'audio') throw new Error('saveSessionToLibrary: audio-only sessions have no video');
+  await ensurePermission(true);
+  await withPlaintext(session.videoPath, (plain) => MediaLibrary.saveToLibraryAsync(plain));
+}
@@ -0,0 +1,41 @@
+import { bytesToHex, utf8ToBytes } from '@noble/ciphers/utils';
+import { scrypt } from '@noble/hashes/scrypt';
+
+import { hashPasscode, isValidPasscode, PASSCODE_KDF, verifyPasscode } from '../passcode';
+
+const zeros = (n: number) => new Uint8Array(n);
+
+describe('passcode', () => {
+  it('accepts 4–8 digits only', () => {
+    expect(isValidPasscode('1234')).toBe(true);
+    expect(isValidPasscode('12345678')).toBe(true);
+    expect(isValidPasscode('123')).toBe(false);
+    expect(isValidPasscode('123456789')).toBe(false);
+    expect(isValidPasscode('12a4')).toBe(false);
+  });
+
+  it('stores an scrypt hash with its parameters', async () => {
+    const stored = await hashPasscode('1234', zeros);
+    const [alg, logN, r, p, salt] = stored.split('$');
+    expect([alg, Number(logN), Number(r), Number(p)]).toEqual(['scrypt', PASSCODE_KDF.logN, PASSCODE_KDF.r, PASSCODE_KDF.p]);
+    expect(salt).toBe('00'.repeat(16));
+  });
+
+  it('verifies the right code only', async () => {
+    const stored = await hashPasscode('4821', zeros);
+    expect(await verifyPasscode('4821', stored)).toEqual({ ok: true, rehash: false });
+    expect(await verifyPasscode('4822', stored)).toEqual({ ok: false, rehash: false });
+  });
+
+  it('asks for a re-hash of hashes with weaker parameters', async () => {
+    const key = scrypt(utf8ToBytes('1234'), zeros(16), { N: 2 ** 10, r: 8, p: 1, dkLen: 32 });
+    const weak = ['scrypt', 10, 8, 1, bytesToHex(zeros(16)), bytesToHex(key)].join('$');
+    expect(await verifyPasscode('1234', weak)).toEqual({ ok: true, rehash: true });
+    expect(await verifyPasscode('0000', weak)).toEqual({ ok: false, rehash: false });
+  });
+
+  it('matches nothing against a damaged hash', async () => {
+    expect(await verifyPasscode('1234', '')).toEqual({ ok: false, rehash: false });
+    expect(await verifyPasscode('1234', 'scrypt$13$8$1$zz$zz')).toEqual({ ok: false, rehash: false });
+  });
+});
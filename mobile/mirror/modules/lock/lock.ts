@@ -0,0 +1,201 @@
+import { useSyncExternalStore } from 'react';
+import * as Crypto from 'expo-crypto';
+import * as LocalAuthentication from 'expo-local-authentication';
+import * as SecureStore from 'expo-secure-store';
+import { MMKV } from 'react-native-mmkv';
+import { getSettings, updateSettings, type Settings } from '../settings/settings';
+import { hashPasscode, isValidPasscode, verifyPasscode } from './passcode';
+
+/**
+ * App lock: a passcode (plus optional biometrics) in front of the journal.
+ *
+ * The lock state is a tiny external store; `app/_layout.tsx` renders the lock
+ * screen over the tabs while `useAppLock().locked` is true. The passcode hash
+ * lives in SecureStore, the non-secret options in the app settings, and the
+ * failed-attempt count and cool-down in MMKV so an app kill doesn't reset
+ * them.
+ *
+ * The lock fails closed: it can only be turned on by setting a passcode, and
+ * if the hash goes missing (e.g. a keychain reset) only biometrics or the
+ * device's own authentication get the user back in.
+ */
+
+export type LockConfig = Settings['lock'];
+
+export const IDLE_TIMEOUT_CHOICES_MS = [30_000, 60_000, 5 * 60_000, 15 * 60_000];
+
+const PASSCODE_KEY = 'mirror.lock.passcode.v1';
+const SECURE_OPTS = { keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY };
+
+// failed passcode attempts before a cool-down, and its length
+const MAX_ATTEMPTS = 5;
+const COOLDOWN_MS = 30_000;
+
+export function getLockConfig(): LockConfig {
+  return getSettings().lock;
+}
+
+function saveConfig(patch: Partial<LockConfig>): LockConfig {
+  const next = updateSettings('lock', patch).lock;
+  emit();
+  return next;
+}
+
+/** Change lock options. Turning the lock on goes through `setPasscode`. */
+export function setLockConfig(patch: Omit<Partial<LockConfig>, 'enabled'>): LockConfig {
+  if ('enabled' in patch) throw new Error('setLockConfig: use setPasscode/clearPasscode to turn the lock on or off');
+  return saveConfig(patch);
+}
+
+// ---- passcode ---------------------------------------------------------------
+
+export async function hasPasscode(): Promise<boolean> {
+  return !!(await SecureStore.getItemAsync(PASSCODE_KEY, SECURE_OPTS));
+}
+
+async function storePasscode(code: string) {
+  await SecureStore.setItemAsync(PASSCODE_KEY, await hashPasscode(code, Crypto.getRandomBytes), SECURE_OPTS);
+}
+
+/** Set the passcode and turn the lock on. */
+export async function setPasscode(code: string) {
+  if (!isValidPasscode(code)) throw new Error('Passcode must be 4–8 digits');
+  await storePasscode(code);
+  saveConfig({ enabled: true });
+}
+
+/** Turn the lock off and forget the passcode. */
+export async function clearPasscode() {
+  await SecureStore.deleteItemAsync(PASSCODE_KEY, SECURE_OPTS);
+  saveConfig({ enabled: false });
+  unlock();
+}
+
+// ---- lock state -------------------------------------------------------------
+
+type LockState = { locked: boolean; failedAttempts: number; cooldownUntil: number };
+
+const storage = new MMKV({ id: 'lock.attempts' });
+const ATTEMPTS_KEY = 'failedAttempts';
+const COOLDOWN_KEY = 'cooldownUntil';
+
+let state: LockState = {
+  locked: getLockConfig().enabled,
+  failedAttempts: storage.getNumber(ATTEMPTS_KEY) ?? 0,
+  cooldownUntil: storage.getNumber(COOLDOWN_KEY) ?? 0,
+};
+let lastActivity = Date.now();
+// reasons the idle timeout is suspended, e.g. a recording in progress
+let idleHolds = 0;
+const listeners = new Set<() => void>();
+
+function emit() {
+  listeners.forEach((fn) => fn());
+}
+
+function setState(patch: Partial<LockState>) {
+  state = { ...state, ...patch };
+  storage.set(ATTEMPTS_KEY, state.failedAttempts);
+  storage.set(COOLDOWN_KEY, state.cooldownUntil);
+  emit();
+}
+
+export function lock() {
+  if (getLockConfig().enabled && !state.locked) setState({ locked: true });
+}
+
+function unlock() {
+  lastActivity = Date.now();
+  setState({ locked: false, failedAttempts: 0, cooldownUntil: 0 });
+}
+
+/** Record user activity; resets the idle timer. */
+export function touch() {
+  lastActivity = Date.now();
+}
+
+/**
+ * Suspend the idle timeout until the returned release is called, e.g. while
+ * a hands-off recording runs. Explicit locks (app backgrounded) still apply.
+ */
+export function holdIdleLock(): () => void {
+  idleHolds++;
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    idleHolds--;
+    touch();
+  };
+}
+
+/** Lock if the idle timeout has passed. Polled by the root layout. */
+export function checkIdle(now = Date.now()) {
+  const { enabled, idleTimeoutMs } = getLockConfig();
+  if (idleHolds > 0) return;
+  if (enabled && !state.locked && now - lastActivity >= idleTimeoutMs) lock();
+}
+
+// 'no-passcode': the lock is on but its hash is gone; see resetWithDeviceAuth
+export type UnlockResult = 'ok' | 'wrong' | 'cooldown' | 'no-passcode';
+
+export async function unlockWithPasscode(code: string): Promise<UnlockResult> {
+  if (Date.now() < state.cooldownUntil) return 'cooldown';
+  const stored = await SecureStore.getItemAsync(PASSCODE_KEY, SECURE_OPTS);
+  if (!stored) return 'no-passcode';
+  const { ok, rehash } = await verifyPasscode(code, stored);
+  if (ok) {
+    if (rehash) await storePasscode(code).catch((e) => console.warn('[Lock] passcode not re-hashed:', e));
+    unlock();
+    return 'ok';
+  }
+  const failedAttempts = state.failedAttempts + 1;
+  const coolingDown = failedAttempts >= MAX_ATTEMPTS;
+  setState({
+    failedAttempts: coolingDown ? 0 : failedAttempts,
+    cooldownUntil: coolingDown ? Date.now() + COOLDOWN_MS : state.cooldownUntil,
+  });
+  return coolingDown ? 'cooldown' : 'wrong';
+}
+
+export async function biometricsAvailable(): Promise<boolean> {
+  return (await LocalAuthentication.hasHardwareAsync()) && (await LocalAuthentication.isEnrolledAsync());
+}
+
+export async function unlockWithBiometrics(): Promise<boolean> {
+  if (!getLockConfig().biometrics || !(await biometricsAvailable())) return false;
+  const res = await LocalAuthentication.authenticateAsync({
+    promptMessage: 'Unlock Mirror',
+    disableDeviceFallback: true,
+    cancelLabel: 'Use passcode',
+  });
+  if (res.success) unlock();
+  return res.success;
+}
+
+/**
+ * Way back in when the passcode hash is missing: the device's own
+ * authentication (biometrics or its passcode), then the app lock is turned
+ * off so a new passcode can be set. Fails on devices without a screen lock.
+ */
+export async function resetWithDeviceAuth(): Promise<boolean> {
+  if (await hasPasscode()) return false;
+  const res = await LocalAuthentication.authenticateAsync({ promptMessage: 'Reset the Mirror passcode' });
+  if (!res.success) return false;
+  await clearPasscode();
+  return true;
+}
+
+// ---- React ------------------------------------------------------------------
+
+function subscribe(fn: () => void) {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+export function useAppLock(): LockState & { config: LockConfig } {
+  const s = useSyncExternalStore(subscribe, () => state);
+  return { ...s, config: getLockConfig() };
+}
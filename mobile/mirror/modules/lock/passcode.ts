@@ -0,0 +1,50 @@
+import { bytesToHex, equalBytes, hexToBytes, utf8ToBytes } from '@noble/ciphers/utils';
+import { scryptAsync } from '@noble/hashes/scrypt';
+
+/**
+ * Passcode hashing. Pure functions (randomness is passed in) so they run in
+ * tests.
+ *
+ * Stored as `scrypt$<logN>$<r>$<p>$<salt hex>$<hash hex>`; the parameters
+ * travel with the hash so they can change later; hashes with weaker
+ * parameters are re-hashed on the next unlock.
+ */
+
+// ~4 MiB; well under a second per attempt in Hermes
+export const PASSCODE_KDF = { logN: 13, r: 8, p: 1 };
+const SALT_BYTES = 16;
+
+export const isValidPasscode = (code: string) => /^\d{4,8}$/.test(code);
+
+function derive(code: string, salt: Uint8Array, kdf: typeof PASSCODE_KDF) {
+  return scryptAsync(utf8ToBytes(code), salt, { N: 2 ** kdf.logN, r: kdf.r, p: kdf.p, dkLen: 32 });
+}
+
+export async function hashPasscode(code: string, randomBytes: (n: number) => Uint8Array): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const { logN, r, p } = PASSCODE_KDF;
+  const key = await derive(code, salt, PASSCODE_KDF);
+  return ['scrypt', logN, r, p, bytesToHex(salt), bytesToHex(key)].join('$');
+}
+
+/** Whether `code` matches `stored`; also says if the hash should be upgraded. */
+export async function verifyPasscode(code: string, stored: string): Promise<{ ok: boolean; rehash: boolean }> {
+  try {
+    return await verify(code, stored);
+  } catch {
+    // malformed hex or parameters: a damaged hash matches nothing
+    return { ok: false, rehash: false };
+  }
+}
+
+async function verify(code: string, stored: string) {
+  const parts = stored.split('$');
+  if (parts[0] === 'scrypt' && parts.length === 6) {
+    const [, logN, r, p, salt, expected] = parts;
+    const kdf = { logN: Number(logN), r: Number(r), p: Number(p) };
+    const key = await derive(code, hexToBytes(salt), kdf);
+    const ok = equalBytes(key, hexToBytes(expected));
+    return { ok, rehash: ok && kdf.logN < PASSCODE_KDF.logN };
+  }
+  return { ok: false, rehash: false };
+}
@@ -0,0 +1,66 @@
+import { addUserEvent } from '../../rules/local';
+import { addSession, getSession } from '../../sessions/local';
+import { createBookmarkRecorder } from '../bookmarks';
+import { writeSessionBookmarks } from '../local';
+
+jest.mock('../../sessions/local', () => ({ addSession: jest.fn(), getSession: jest.fn() }));
+jest.mock('../../rules/local', () => ({ addUserEvent: jest.fn() }));
+
+beforeEach(() => jest.clearAllMocks());
+
+describe('bookmark recorder', () => {
+  it('collects marks on the recording clock and folds double taps', () => {
+    const rec = createBookmarkRecorder(jest.fn());
+    rec.add(1_200.4, 'first');
+    rec.add(1_900);
+    rec.add(5_000);
+    expect(rec.list()).toEqual([{ t_ms: 1_200, label: 'first' }, { t_ms: 5_000 }]);
+  });
+
+  it('writes marks as bookmark events and starts over', async () => {
+    const write = jest.fn().mockResolvedValue(undefined);
+    const rec = createBookmarkRecorder(write);
+    rec.add(3_000, 'a nudge');
+    expect(await rec.flush('S1')).toBe(1);
+    expect(write).toHaveBeenCalledWith('S1', [
+      { rule: 'bookmark', start_ms: 3_000, end_ms: 3_000, label: 'a nudge', evidence: {} },
+    ]);
+    expect(rec.list()).toEqual([]);
+    expect(await rec.flush('S1')).toBe(0);
+    expect(write).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps marks for a retry when the write fails', async () => {
+    const rec = createBookmarkRecorder(jest.fn().mockRejectedValue(new Error('disk full')));
+    rec.add(1_000);
+    await expect(rec.flush('S1')).rejects.toThrow('disk full');
+    expect(rec.list()).toEqual([{ t_ms: 1_000 }]);
+  });
+});
+
+describe('writeSessionBookmarks', () => {
+  const events = [1_000, 2_000].map((t) => ({ rule: 'bookmark', start_ms: t, end_ms: t, evidence: {} }));
+
+  it('adds each event to the log and links a new log from the session', async () => {
+    jest.mocked(getSession).mockResolvedValue({ id: 'S1', videoPath: 'v', createdAt: 1 });
+    jest.mocked(addUserEvent).mockResolvedValue('file:///r/S1.events.json');
+    await writeSessionBookmarks('S1', events);
+    expect(jest.mocked(addUserEvent).mock.calls.map(([, e]) => e.start_ms)).toEqual([1_000, 2_000]);
+    expect(addSession).toHaveBeenCalledWith({ id: 'S1', eventsPath: 'file:///r/S1.events.json' });
+  });
+
+  it('leaves an already linked log alone', async () => {
+    jest
+      .mocked(getSession)
+      .mockResolvedValue({ id: 'S1', videoPath: 'v', createdAt: 1, eventsPath: 'file:///r/S1.events.json' });
+    jest.mocked(addUserEvent).mockResolvedValue('file:///r/S1.events.json');
+    await writeSessionBookmarks('S1', events);
+    expect(addSession).not.toHaveBeenCalled();
+  });
+
+  it('fails for an unknown session', async () => {
+    jest.mocked(getSession).mockResolvedValue(undefined);
+    await expect(writeSessionBookmarks('S9', events)).rejects.toThrow('no session S9');
+    expect(addUserEvent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,64 @@
+import { createNudgeEngine } from '../engine';
+import { createRateLimiter } from '../limiter';
+
+describe('createRateLimiter', () => {
+  it('allows one acquire per interval', () => {
+    let t = 0;
+    const limit = createRateLimiter({ intervalMs: 1_000, now: () => t });
+    expect(limit.tryAcquire()).toBe(true);
+    t = 999;
+    expect(limit.tryAcquire()).toBe(false);
+    expect(limit.remainingMs()).toBe(1);
+    t = 1_000;
+    expect(limit.remainingMs()).toBe(0);
+    expect(limit.tryAcquire()).toBe(true);
+  });
+
+  it('does not count refused acquires', () => {
+    let t = 0;
+    const limit = createRateLimiter({ intervalMs: 1_000, now: () => t });
+    limit.tryAcquire();
+    t = 500;
+    limit.tryAcquire();
+    t = 1_000;
+    expect(limit.tryAcquire()).toBe(true);
+  });
+
+  it('starts over after reset', () => {
+    const limit = createRateLimiter({ intervalMs: 1_000, now: () => 0 });
+    limit.tryAcquire();
+    limit.reset();
+    expect(limit.remainingMs()).toBe(0);
+    expect(limit.tryAcquire()).toBe(true);
+  });
+});
+
+describe('nudge engine', () => {
+  const ticks = (engine: ReturnType<typeof createNudgeEngine>, untilMs: number) => {
+    const shown = [];
+    for (let t = 0; t <= untilMs; t += 1_000) {
+      const n = engine.push({ type: 'tick', t_ms: t });
+      if (n) shown.push(n);
+    }
+    return shown;
+  };
+
+  it('shows at most one bubble per minute on the recording clock', () => {
+    const shown = ticks(createNudgeEngine(), 5 * 60_000);
+    expect(shown.map((n) => n.t_ms)).toEqual([20_000, 80_000, 140_000, 200_000, 260_000]);
+  });
+
+  it('holds a phrase nudge back while the last bubble is under a minute old', () => {
+    const engine = createNudgeEngine();
+    expect(engine.push({ type: 'speech', t_ms: 1_000, words: ['I', 'always', 'do', 'this'] })?.kind).toBe('phrase');
+    expect(engine.push({ type: 'speech', t_ms: 30_000, words: ['never', 'again'] })).toBeNull();
+    expect(engine.push({ type: 'speech', t_ms: 61_000, words: ['never', 'again'] })?.kind).toBe('phrase');
+  });
+
+  it('starts a fresh minute after reset', () => {
+    const engine = createNudgeEngine();
+    engine.push({ type: 'speech', t_ms: 1_000, words: ['always'] });
+    engine.reset();
+    expect(engine.push({ type: 'speech', t_ms: 2_000, words: ['always'] })?.kind).toBe('phrase');
+  });
+});
@@ -0,0 +1,60 @@
+import type { Event } from '../rules/events';
+
+/**
+ * Bookmarks tapped while recording. The session row only exists once the
+ * recording has finished, so marks are collected against the recording clock
+ * and written to the session's event log afterwards with `flush`.
+ */
+export type Bookmark = { t_ms: number; label?: string };
+
+export type BookmarkWriter = (sessionId: string, events: Omit<Event, 'source'>[]) => Promise<void>;
+
+export type BookmarkRecorder = {
+  add(t_ms: number, label?: string): Bookmark;
+  list(): Bookmark[];
+  /** Write everything collected so far to `sessionId` and start over. */
+  flush(sessionId: string): Promise<number>;
+  clear(): void;
+};
+
+// a double tap is one bookmark
+const DEBOUNCE_MS = 1_000;
+
+export function createBookmarkRecorder(write: BookmarkWriter): BookmarkRecorder {
+  let marks: Bookmark[] = [];
+
+  return {
+    add(t_ms, label) {
+      const last = marks[marks.length - 1];
+      if (last && t_ms - last.t_ms < DEBOUNCE_MS) return last;
+      const mark = { t_ms: Math.max(0, Math.round(t_ms)), label };
+      marks.push(mark);
+      return mark;
+    },
+    list: () => [...marks],
+    async flush(sessionId) {
+      const pending = marks;
+      marks = [];
+      if (!pending.length) return 0;
+      try {
+        await write(
+          sessionId,
+          pending.map((m) => ({
+            rule: 'bookmark',
+            start_ms: m.t_ms,
+            end_ms: m.t_ms,
+            label: m.label,
+            evidence: {},
+          }))
+        );
+      } catch (e) {
+        marks = [...pending, ...marks]; // keep them for a retry
+        throw e;
+      }
+      return pending.length;
+    },
+    clear() {
+      marks = [];
+    },
+  };
+}
@@ -0,0 +1,22 @@
+import type { Cue } from './engine';
+
+/**
+ * A live cue source listens while the camera records and reports what it
+ * hears. The camera owns the recording itself; sources only observe.
+ */
+export type CueSource = {
+  id: string;
+  /** Start listening; resolves to a stop function. */
+  start(onCue: (cue: Cue) => void): Promise<() => Promise<void>>;
+};
+
+let source: CueSource | null = null;
+
+/** Install the live cue source (e.g. `configureLiveWhisper`). Null turns live cues off. */
+export function setCueSource(s: CueSource | null) {
+  source = s;
+}
+
+export function getCueSource(): CueSource | null {
+  return source;
+}
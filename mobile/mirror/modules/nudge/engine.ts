@@ -0,0 +1,110 @@
+import { DEFAULT_RULES, type LexiconRule } from '../rules/rules';
+import { createRateLimiter, type RateLimiter } from './limiter';
+
+/**
+ * Live nudges: gentle prompts shown over the camera while recording.
+ *
+ * The engine is fed cues (what a live cue source heard, plus clock ticks) and
+ * decides whether one is worth a bubble. All timing is in ms of recording
+ * (pauses excluded), so it runs the same on a recorded cue stream. Feed ticks
+ * only while a cue source is running: without speech cues every tick past
+ * `silenceMs` looks like silence.
+ */
+
+export type Cue =
+  | { type: 'speech'; t_ms: number; words: string[] }
+  | { type: 'tick'; t_ms: number };
+
+export type NudgeKind = 'silence' | 'pace' | 'phrase';
+export type Nudge = { kind: NudgeKind; t_ms: number; text: string };
+
+export type NudgeConfig = {
+  intervalMs: number;        // at most one bubble per interval
+  silenceMs: number;         // quiet this long -> prompt to continue
+  fastWpm: number;           // speaking faster than this -> slow down
+  paceWindowMs: number;
+  phrases: string[];         // words/phrases worth reflecting on
+};
+
+const absolutist = DEFAULT_RULES.find((r): r is LexiconRule => r.id === 'absolutist');
+
+export const DEFAULT_NUDGE_CONFIG: NudgeConfig = {
+  intervalMs: 60_000,
+  silenceMs: 20_000,
+  fastWpm: 190,
+  paceWindowMs: 20_000,
+  phrases: absolutist?.terms ?? [],
+};
+
+const norm = (w: string) => w.toLowerCase().replace(/[’‘]/g, "'").replace(/[^\p{L}\p{N}']/gu, '');
+
+export type NudgeEngine = {
+  push(cue: Cue): Nudge | null;
+  reset(): void;
+};
+
+export function createNudgeEngine(
+  config: Partial<NudgeConfig> = {},
+  limiter?: RateLimiter
+): NudgeEngine {
+  const cfg = { ...DEFAULT_NUDGE_CONFIG, ...config };
+  // the limiter runs on the cue clock, not wall time
+  let clock = 0;
+  const limit = limiter ?? createRateLimiter({ intervalMs: cfg.intervalMs, now: () => clock });
+  const phrases = cfg.phrases.map((p) => p.split(/\s+/).map(norm).filter(Boolean)).filter((p) => p.length);
+
+  let lastSpeechAt = 0;
+  let recent: { t_ms: number; word: string }[] = [];
+
+  function candidate(cue: Cue): Nudge | null {
+    if (cue.type === 'tick') {
+      if (cue.t_ms - lastSpeechAt >= cfg.silenceMs) {
+        return { kind: 'silence', t_ms: cue.t_ms, text: 'Take your time. What’s on your mind right now?' };
+      }
+      return null;
+    }
+
+    const words = cue.words.map(norm).filter(Boolean);
+    if (!words.length) return null;
+    lastSpeechAt = cue.t_ms;
+    const tail = recent.map((w) => w.word);
+    recent.push(...words.map((word) => ({ t_ms: cue.t_ms, word })));
+    recent = recent.filter((w) => cue.t_ms - w.t_ms <= cfg.paceWindowMs);
+
+    // phrases may straddle cue boundaries, so match against the recent tail too
+    const seq = [...tail.slice(-4), ...words];
+    const fromIdx = seq.length - words.length;
+    for (const p of phrases) {
+      for (let i = Math.max(0, fromIdx - p.length + 1); i + p.length <= seq.length; i++) {
+        if (p.every((tok, k) => seq[i + k] === tok)) {
+          const said = p.join(' ');
+          return { kind: 'phrase', t_ms: cue.t_ms, text: `You said “${said}”. Is that always true?` };
+        }
+      }
+    }
+
+    // only judge pace on a full window of speech
+    const first = recent[0];
+    if (first && cue.t_ms - first.t_ms >= cfg.paceWindowMs / 2) {
+      const wpm = (recent.length / (cue.t_ms - first.t_ms)) * 60_000;
+      if (wpm > cfg.fastWpm) return { kind: 'pace', t_ms: cue.t_ms, text: 'Slow down a little — take a breath.' };
+    }
+    return null;
+  }
+
+  return {
+    push(cue) {
+      clock = cue.t_ms;
+      const nudge = candidate(cue);
+      if (!nudge || !limit.tryAcquire()) return null;
+      if (nudge.kind === 'silence') lastSpeechAt = cue.t_ms; // don't nag again straight after
+      return nudge;
+    },
+    reset() {
+      clock = 0;
+      lastSpeechAt = 0;
+      recent = [];
+      limit.reset();
+    },
+  };
+}
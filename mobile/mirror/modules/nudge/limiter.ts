@@ -0,0 +1,29 @@
+/**
+ * Fixed-interval rate limiter: at most one acquire per `intervalMs`.
+ * Time comes from `now` so tests can drive it without timers.
+ */
+export type RateLimiter = {
+  tryAcquire(): boolean;
+  /** ms until the next acquire would succeed (0 if it would now). */
+  remainingMs(): number;
+  reset(): void;
+};
+
+export function createRateLimiter(opts: { intervalMs: number; now?: () => number }): RateLimiter {
+  const now = opts.now ?? Date.now;
+  let last: number | null = null;
+
+  const remainingMs = () => (last == null ? 0 : Math.max(0, last + opts.intervalMs - now()));
+
+  return {
+    tryAcquire() {
+      if (remainingMs() > 0) return false;
+      last = now();
+      return true;
+    },
+    remainingMs,
+    reset() {
+      last = null;
+    },
+  };
+}
@@ -0,0 +1,14 @@
+import { addSession, getSession } from '../sessions/local';
+import { addUserEvent } from '../rules/local';
+import type { BookmarkWriter } from './bookmarks';
+
+/** Writes bookmarks into the session's event log (…/<id>.events.json). */
+export const writeSessionBookmarks: BookmarkWriter = async (sessionId, events) => {
+  const session = await getSession(sessionId);
+  if (!session) throw new Error(`writeSessionBookmarks: no session ${sessionId}`);
+  let eventsPath = session.eventsPath;
+  for (const e of events) {
+    eventsPath = await addUserEvent(session, e);
+  }
+  if (eventsPath && !session.eventsPath) await addSession({ id: sessionId, eventsPath });
+};
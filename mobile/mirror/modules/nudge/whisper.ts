@@ -0,0 +1,74 @@
+import * as FileSystem from 'expo-file-system';
+import { AudioSessionIos, initWhisper, type WhisperContext } from 'whisper.rn';
+import { getCueSource, setCueSource, type CueSource } from './cues';
+
+/**
+ * Live cues from whisper.cpp's realtime mode. Accuracy matters less here than
+ * for the saved transcript: nudges only need a rough idea of what was said
+ * and how fast. Use a small model (tiny/base).
+ */
+
+// realtime mode transcribes in slices; each slice's text is revised as it grows
+const SLICE_SEC = 20;
+const MAX_SEC = 60 * 60;
+
+// where a build or a download puts the model; without it there are no live cues
+export const LIVE_MODEL_PATH = `${FileSystem.documentDirectory}models/ggml-tiny.en.bin`;
+const SOURCE_ID = 'whisper-live';
+
+export function createWhisperCueSource(opts: { modelPath: string; language?: string }): CueSource {
+  let ctx: Promise<WhisperContext> | null = null;
+  const context = () => (ctx ??= initWhisper({ filePath: opts.modelPath.replace(/^file:\/\//, '') }));
+
+  return {
+    id: SOURCE_ID,
+    async start(onCue) {
+      const whisper = await context();
+      const { stop, subscribe } = await whisper.transcribeRealtime({
+        language: opts.language ?? 'en',
+        realtimeAudioSec: MAX_SEC,
+        realtimeAudioSliceSec: SLICE_SEC,
+        // share the mic with the camera's own recording
+        audioSessionOnStartIos: {
+          category: AudioSessionIos.Category.PlayAndRecord,
+          options: [AudioSessionIos.CategoryOption.MixWithOthers],
+          mode: AudioSessionIos.Mode.VideoRecording,
+        },
+      });
+
+      let emitted = 0; // words reported so far, across slices
+      subscribe((event) => {
+        if (event.error) {
+          console.warn('[Nudge] live transcription error:', event.error);
+          return;
+        }
+        const text = (event.slices ?? [{ data: event.data }])
+          .map((s) => s.data?.result ?? '')
+          .join(' ')
+          .replace(/\[[^\]]*\]/g, ''); // [BLANK_AUDIO] & co.
+        const words = text.split(/\s+/).filter(Boolean);
+        if (words.length > emitted) {
+          // whisper's clock runs through pauses; callers re-stamp on their own
+          onCue({ type: 'speech', t_ms: event.recordingTime, words: words.slice(emitted) });
+          emitted = words.length;
+        }
+      });
+      return stop;
+    },
+  };
+}
+
+/**
+ * Install the live cue source if its model is on the device; called as
+ * recording starts. The source (and its loaded model) is kept across
+ * recordings. Resolves to whether live cues are on.
+ */
+export async function configureLiveWhisper(opts: { modelPath?: string; language?: string } = {}): Promise<boolean> {
+  const modelPath = opts.modelPath ?? LIVE_MODEL_PATH;
+  if (!(await FileSystem.getInfoAsync(modelPath)).exists) {
+    if (getCueSource()?.id === SOURCE_ID) setCueSource(null);
+    return false;
+  }
+  if (getCueSource()?.id !== SOURCE_ID) setCueSource(createWhisperCueSource({ ...opts, modelPath }));
+  return true;
+}
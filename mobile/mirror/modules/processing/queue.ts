@@ -0,0 +1,333 @@
+import * as FileSystem from 'expo-file-system';
+import {
+  addSession,
+  DELETE_UNDO_MS,
+  getSession,
+  RECORDINGS_DIR,
+  sessionFilePath,
+  type ProcessingStage,
+  type Session,
+} from '../sessions/local';
+import { processAndSaveTranscript } from '../asr/local';
+import { loadTranscript } from '../asr/transcript';
+import { processAndSaveFace } from '../face/extract';
+import { processAndSaveEvents } from '../rules/local';
+import { indexTranscript } from '../search/local';
+import { uploadSession } from '../sync/upload';
+import { processAndSaveThumbnail } from '../thumbnails/thumbnails';
+import { encryptFile } from '../vault/vault';
+
+/**
+ * Persistent post-recording queue.
+ *
+ * Each session gets one job that walks persist → transcribe → analyze → sync.
+ * Jobs live in recordings/jobs.json so a session interrupted by an app kill is
+ * picked up again by `resumeQueue()` on the next launch. Stage handlers must
+ * be idempotent: a stage may run again if the app died while it was running.
+ */
+
+export const STAGES: ProcessingStage[] = ['persist', 'transcribe', 'analyze', 'sync'];
+
+export type Job = {
+  sessionId: string;
+  stage: ProcessingStage;
+  attempts: number;       // failed attempts at the current stage
+  nextRunAt: number;      // epoch ms
+  enqueuedAt: number;
+  sourcePath?: string;    // camera temp file, consumed by the persist stage
+  lastError?: string;
+};
+
+export type StageHandler = (job: Job, session: Session) => Promise<void>;
+
+const JOBS_PATH = `${RECORDINGS_DIR}/jobs.json`;
+const MAX_ATTEMPTS = 5;
+const BASE_BACKOFF_MS = 2_000;
+const MAX_BACKOFF_MS = 5 * 60_000;
+
+export function backoffMs(attempts: number) {
+  return Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+// ---- persistence ------------------------------------------------------------
+
+async function readJobs(): Promise<Job[]> {
+  const info = await FileSystem.getInfoAsync(JOBS_PATH);
+  if (!info.exists) return [];
+  try {
+    const arr = JSON.parse(await FileSystem.readAsStringAsync(JOBS_PATH)) as Job[];
+    return Array.isArray(arr) ? arr : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeJobs(list: Job[]) {
+  const info = await FileSystem.getInfoAsync(RECORDINGS_DIR);
+  if (!info.exists) await FileSystem.makeDirectoryAsync(RECORDINGS_DIR, { intermediates: true });
+  await FileSystem.writeAsStringAsync(JOBS_PATH, JSON.stringify(list, null, 2));
+}
+
+// All read-modify-write cycles on jobs.json go through this chain.
+let lock: Promise<unknown> = Promise.resolve();
+function mutateJobs<T>(fn: (list: Job[]) => T | Promise<T>): Promise<T> {
+  const run = lock.then(async () => {
+    const list = await readJobs();
+    const out = await fn(list);
+    await writeJobs(list);
+    return out;
+  });
+  lock = run.catch(() => undefined);
+  return run;
+}
+
+export async function listJobs(): Promise<Job[]> {
+  await lock;
+  return readJobs();
+}
+
+// ---- listeners --------------------------------------------------------------
+
+type Listener = (sessionId: string) => void;
+const listeners = new Set<Listener>();
+
+/** Called whenever a session's processing status changes. */
+export function onQueueChange(fn: Listener): () => void {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+function emit(sessionId: string) {
+  listeners.forEach((fn) => fn(sessionId));
+}
+
+// ---- stage handlers ---------------------------------------------------------
+
+const handlers: Partial<Record<ProcessingStage, StageHandler>> = {};
+
+/** Replace the handler for a stage. */
+export function registerStageHandler(stage: ProcessingStage, handler: StageHandler) {
+  handlers[stage] = handler;
+}
+
+// the list falls back to a placeholder, so a missing poster is not a failure
+async function saveThumbnail(session: Session, sourcePath?: string) {
+  try {
+    const thumbnailPath = await processAndSaveThumbnail({
+      videoPath: session.videoPath,
+      thumbnailPath: session.thumbnailPath ?? sessionFilePath(session.id, 'thumbnail'),
+      durationMs: session.durationMs,
+      sourcePath,
+    });
+    await addSession({ id: session.id, thumbnailPath });
+  } catch (e) {
+    console.warn(`[Queue] ${session.id} thumbnail failed:`, e);
+  }
+}
+
+registerStageHandler('persist', async (job, session) => {
+  const src = job.sourcePath ? await FileSystem.getInfoAsync(job.sourcePath) : null;
+  if (src?.exists) {
+    // encrypted straight from the camera's temp file; a previous attempt's
+    // partial output is overwritten
+    await encryptFile(job.sourcePath!, session.videoPath);
+    if (session.mediaKind !== 'audio') await saveThumbnail(session, job.sourcePath);
+    await FileSystem.deleteAsync(job.sourcePath!, { idempotent: true });
+    return;
+  }
+  const dst = await FileSystem.getInfoAsync(session.videoPath);
+  if (!dst.exists) throw new Error('persist: recording file is gone');
+  if (session.mediaKind !== 'audio' && !session.thumbnailPath) await saveThumbnail(session);
+});
+
+registerStageHandler('transcribe', async (_job, session) => {
+  const transcriptPath = await processAndSaveTranscript({
+    videoPath: session.videoPath,
+    transcriptPath: session.transcriptPath ?? sessionFilePath(session.id, 'transcript'),
+    durationMs: session.durationMs,
+    devicePosition: session.devicePosition,
+  });
+  await addSession({ id: session.id, transcriptPath });
+  // search is a convenience; a failed index update must not fail the stage
+  try {
+    await indexTranscript(session, await loadTranscript(transcriptPath));
+  } catch (e) {
+    console.warn('[Queue] search index update failed:', e);
+  }
+});
+
+registerStageHandler('analyze', async (_job, session) => {
+  // no camera track: the rules run on the transcript alone
+  if (session.mediaKind === 'audio') {
+    const eventsPath = await processAndSaveEvents(session);
+    await addSession({ id: session.id, eventsPath });
+    return;
+  }
+  const facePath = await processAndSaveFace({
+    videoPath: session.videoPath,
+    facePath: session.facePath ?? sessionFilePath(session.id, 'face'),
+    durationMs: session.durationMs,
+  });
+  await addSession({ id: session.id, facePath });
+  const eventsPath = await processAndSaveEvents({ ...session, facePath });
+  await addSession({ id: session.id, eventsPath });
+});
+
+// No-op unless the user opted in to sync
+registerStageHandler('sync', async (_job, session) => {
+  await uploadSession(session.id);
+});
+
+// ---- runner -----------------------------------------------------------------
+
+/**
+ * Queue a freshly recorded session. The session row must already exist;
+ * processing starts in the background and this resolves once the job is saved.
+ */
+export async function enqueueSession(sessionId: string, opts: { sourcePath?: string } = {}) {
+  const now = Date.now();
+  await mutateJobs((list) => {
+    const i = list.findIndex((j) => j.sessionId === sessionId);
+    const job: Job = {
+      sessionId,
+      stage: opts.sourcePath ? 'persist' : 'transcribe',
+      attempts: 0,
+      nextRunAt: now,
+      enqueuedAt: now,
+      sourcePath: opts.sourcePath,
+    };
+    if (i === -1) list.push(job);
+    else list[i] = job;
+  });
+  await addSession({ id: sessionId, status: 'queued', stage: opts.sourcePath ? 'persist' : 'transcribe' });
+  emit(sessionId);
+  kickQueue();
+}
+
+/** Retry a failed session from the stage it failed at. */
+export async function retrySession(sessionId: string) {
+  const session = await getSession(sessionId);
+  if (!session) return;
+  const stage = session.stage ?? 'transcribe';
+  await mutateJobs((list) => {
+    const now = Date.now();
+    const existing = list.find((j) => j.sessionId === sessionId);
+    if (existing) Object.assign(existing, { attempts: 0, nextRunAt: now, lastError: undefined });
+    else list.push({ sessionId, stage, attempts: 0, nextRunAt: now, enqueuedAt: now });
+  });
+  await addSession({ id: sessionId, status: 'queued', processingError: undefined });
+  emit(sessionId);
+  kickQueue();
+}
+
+let running: Promise<void> | null = null;
+let timer: ReturnType<typeof setTimeout> | null = null;
+// kicked while running: the runner may already have read jobs.json for the
+// last time, so it drains again instead of stranding the new job
+let rekick = false;
+
+/** Start draining due jobs if the runner is idle. Safe to call often. */
+export function kickQueue() {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  if (running) {
+    rekick = true;
+    return;
+  }
+  running = drain()
+    .catch((e) => console.warn('[Queue] runner crashed:', e))
+    .finally(() => {
+      running = null;
+      if (rekick) kickQueue();
+    });
+}
+
+/** Call once on app launch: re-runs jobs interrupted by the last shutdown. */
+export function resumeQueue() {
+  kickQueue();
+}
+
+async function drain() {
+  for (;;) {
+    rekick = false;
+    const jobs = await listJobs();
+    if (!jobs.length) return;
+
+    const now = Date.now();
+    const due = jobs
+      .filter((j) => j.nextRunAt <= now)
+      .sort((a, b) => a.enqueuedAt - b.enqueuedAt)[0];
+
+    if (!due) {
+      const wait = Math.min(...jobs.map((j) => j.nextRunAt)) - now;
+      timer = setTimeout(kickQueue, wait);
+      return;
+    }
+    await runJob(due);
+  }
+}
+
+async function runJob(job: Job) {
+  const { sessionId, stage } = job;
+  const session = await getSession(sessionId);
+  if (!session) {
+    // deleted while queued
+    await mutateJobs((list) => {
+      const i = list.findIndex((j) => j.sessionId === sessionId);
+      if (i !== -1) list.splice(i, 1);
+    });
+    return;
+  }
+  if (session.deletedAt) {
+    // pending delete: wait out the undo window, the job is dropped once purged
+    await mutateJobs((list) => {
+      const j = list.find((x) => x.sessionId === sessionId);
+      if (j) j.nextRunAt = session.deletedAt! + DELETE_UNDO_MS + 1_000;
+    });
+    return;
+  }
+
+  await addSession({ id: sessionId, status: 'processing', stage });
+  emit(sessionId);
+
+  try {
+    await handlers[stage]?.(job, session);
+  } catch (e: any) {
+    const attempts = job.attempts + 1;
+    const message = String(e?.message ?? e);
+    const failed = attempts >= MAX_ATTEMPTS;
+    console.warn(`[Queue] ${sessionId} ${stage} failed (attempt ${attempts}):`, message);
+
+    await mutateJobs((list) => {
+      const i = list.findIndex((j) => j.sessionId === sessionId);
+      if (i === -1) return;
+      if (failed) list.splice(i, 1);
+      else list[i] = { ...list[i], attempts, lastError: message, nextRunAt: Date.now() + backoffMs(attempts) };
+    });
+    await addSession({
+      id: sessionId,
+      status: failed ? 'failed' : 'queued',
+      processingError: message,
+    });
+    emit(sessionId);
+    return;
+  }
+
+  const next = STAGES[STAGES.indexOf(stage) + 1];
+  await mutateJobs((list) => {
+    const i = list.findIndex((j) => j.sessionId === sessionId);
+    if (i === -1) return;
+    if (next) list[i] = { ...list[i], stage: next, attempts: 0, nextRunAt: Date.now(), lastError: undefined };
+    else list.splice(i, 1);
+  });
+  await addSession(
+    next
+      ? { id: sessionId, status: 'queued', stage: next, processingError: undefined }
+      : { id: sessionId, status: 'done', stage: undefined, processingError: undefined }
+  );
+  emit(sessionId);
+}
@@ -0,0 +1,85 @@
+import { useSyncExternalStore } from 'react';
+import { MMKV } from 'react-native-mmkv';
+import { BUILT_IN_TEMPLATES, parseTemplate, TemplateSchema, type PromptTemplate } from './templates';
+
+/** Custom templates and the last chosen prompt, kept in MMKV. */
+
+const storage = new MMKV({ id: 'prompts' });
+const TEMPLATES_KEY = 'templates';
+const SELECTED_KEY = 'selected';
+
+let custom: PromptTemplate[] | null = null;
+let all: PromptTemplate[] | null = null;
+const listeners = new Set<() => void>();
+
+function loadCustom(): PromptTemplate[] {
+  const raw = storage.getString(TEMPLATES_KEY);
+  if (!raw) return [];
+  try {
+    const list = JSON.parse(raw);
+    // drop anything that no longer validates rather than losing the rest
+    return Array.isArray(list) ? list.filter((t) => TemplateSchema.safeParse(t).success) : [];
+  } catch (e) {
+    console.warn('[Prompts] unreadable custom templates:', e);
+    return [];
+  }
+}
+
+function persist(next: PromptTemplate[]) {
+  custom = next;
+  all = null;
+  storage.set(TEMPLATES_KEY, JSON.stringify(next));
+  listeners.forEach((fn) => fn());
+}
+
+/** Built-in templates first, then custom ones in creation order. */
+export function listTemplates(): PromptTemplate[] {
+  custom ??= loadCustom();
+  all ??= [...BUILT_IN_TEMPLATES, ...custom];
+  return all;
+}
+
+export function getTemplate(id: string | undefined): PromptTemplate | undefined {
+  return id ? listTemplates().find((t) => t.id === id) : undefined;
+}
+
+/** Add or replace a custom template. Throws if it does not validate. */
+export function saveTemplate(input: Omit<PromptTemplate, 'builtIn'>): PromptTemplate {
+  const template = parseTemplate(input);
+  custom ??= loadCustom();
+  const i = custom.findIndex((t) => t.id === template.id);
+  persist(i < 0 ? [...custom, template] : custom.map((t, j) => (j === i ? template : t)));
+  return template;
+}
+
+/**
+ * Remove a custom template. Sessions recorded with it keep their `promptId`;
+ * they are grouped as an unknown prompt from then on.
+ */
+export function deleteTemplate(id: string) {
+  custom ??= loadCustom();
+  persist(custom.filter((t) => t.id !== id));
+  if (getSelectedPromptId() === id) setSelectedPromptId(null);
+}
+
+export function getSelectedPromptId(): string | null {
+  const id = storage.getString(SELECTED_KEY);
+  return id && getTemplate(id) ? id : null;
+}
+
+export function setSelectedPromptId(id: string | null) {
+  if (id) storage.set(SELECTED_KEY, id);
+  else storage.delete(SELECTED_KEY);
+}
+
+/** Subscribe to template changes; returns the unsubscribe function. */
+export function onTemplatesChange(fn: () => void): () => void {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+export function useTemplates(): PromptTemplate[] {
+  return useSyncExternalStore(onTemplatesChange, listTemplates);
+}
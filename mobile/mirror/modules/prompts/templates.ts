@@ -0,0 +1,92 @@
+import { z } from 'zod';
+
+/**
+ * Journaling prompts. A template is one or more parts the Record tab shows
+ * in turn ("what happened?", then "how did you react?", …); single-part
+ * templates are plain prompts. Built-in templates ship with the app, custom
+ * ones are stored on the device (see ./local).
+ *
+ * The template id is stored on the session as `promptId`, so ids must stay
+ * stable: built-ins are never renamed, custom ids are random.
+ */
+
+export type PromptTemplate = {
+  id: string;
+  title: string;
+  parts: string[];
+  builtIn?: boolean;
+};
+
+export const MAX_TEMPLATE_PARTS = 8;
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'daily-checkin',
+    title: 'Daily check-in',
+    parts: [
+      'How are you feeling right now, and where do you notice it in your body?',
+      'What took most of your energy today?',
+      'What is one thing you want to carry into tomorrow?',
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'gratitude',
+    title: 'Gratitude',
+    parts: [
+      'Name three things from today you are grateful for.',
+      'Pick one and describe it in detail: who, where, what made it matter.',
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'conflict-replay',
+    title: 'Conflict replay',
+    parts: [
+      'What happened? Describe it as a camera would have seen it.',
+      'What did you feel in the moment, and what did you say or do?',
+      'What do you think the other person wanted or needed?',
+      'What would you do differently if it happened again?',
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'weekly-review',
+    title: 'Weekly review',
+    parts: [
+      'What went well this week?',
+      'What was hard, and what did it teach you?',
+      'Which of your goals did you move forward, and which stalled?',
+      'What is the one thing that matters most next week?',
+    ],
+    builtIn: true,
+  },
+];
+
+export const TemplateSchema = z.object({
+  id: z.string().regex(/^custom-[a-z0-9]+$/),
+  title: z.string().trim().min(1, 'Give the template a title').max(60),
+  parts: z
+    .array(z.string().trim().min(1).max(400))
+    .min(1, 'Add at least one prompt')
+    .max(MAX_TEMPLATE_PARTS, `At most ${MAX_TEMPLATE_PARTS} prompts`),
+});
+
+/** Parts typed one per line; blank lines are dropped. */
+export function partsFromText(text: string): string[] {
+  return text
+    .split('\n')
+    .map((l) => l.trim())
+    .filter(Boolean);
+}
+
+export function newTemplateId(random = Math.random): string {
+  return `custom-${Date.now().toString(36)}${Math.floor(random() * 36 ** 4).toString(36)}`;
+}
+
+/** Validate a custom template; throws with a readable message. */
+export function parseTemplate(input: unknown): PromptTemplate {
+  const parsed = TemplateSchema.safeParse(input);
+  if (!parsed.success) throw new Error(parsed.error.issues[0]?.message ?? 'Invalid template');
+  return parsed.data;
+}
@@ -0,0 +1,205 @@
+/**
+ * Session controller around the camera's start/pause/resume/stop calls:
+ * optional countdown, an elapsed-time clock that stops while paused, and a
+ * maximum length with a warning shortly before the automatic stop.
+ *
+ * It is camera-agnostic (the Record tab passes a driver over vision-camera,
+ * or over expo-av's recorder in audio-only mode)
+ * and takes its clock and timers as options so it can run anywhere.
+ */
+
+export type RecorderPhase = 'idle' | 'countdown' | 'recording' | 'paused' | 'stopping';
+
+export type RecorderState = {
+  phase: RecorderPhase;
+  countdown: number | null;     // seconds left before capture starts
+  elapsedMs: number;            // recorded time, pauses excluded
+  remainingMs: number | null;   // until auto-stop; null without a limit
+  warning: boolean;             // auto-stop is near
+};
+
+export type RecorderDriver = {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  pause(): Promise<void>;
+  resume(): Promise<void>;
+};
+
+export type RecorderOptions = {
+  maxLengthMs?: number;         // 0 / undefined: no limit
+  warnBeforeMs?: number;
+  countdownSec?: number;
+  tickMs?: number;
+  now?: () => number;
+  setInterval?: (fn: () => void, ms: number) => unknown;
+  clearInterval?: (handle: unknown) => void;
+};
+
+export const DEFAULT_WARN_BEFORE_MS = 30_000;
+
+export type RecordingController = {
+  /** Count down (if configured), then start recording. */
+  begin(): Promise<void>;
+  pause(): Promise<void>;
+  resume(): Promise<void>;
+  stop(): Promise<void>;
+  /** Cancel a countdown that has not started capture yet. */
+  cancel(): void;
+  /** Recorded time so far, pauses excluded. */
+  elapsedMs(): number;
+  /** Back to idle once the camera has delivered the file (or failed). */
+  finished(): number;
+  state(): RecorderState;
+  dispose(): void;
+};
+
+export function createRecordingController(
+  driver: RecorderDriver,
+  onChange: (state: RecorderState) => void,
+  opts: RecorderOptions = {}
+): RecordingController {
+  const now = opts.now ?? Date.now;
+  const every = opts.setInterval ?? ((fn, ms) => setInterval(fn, ms));
+  const clear = opts.clearInterval ?? ((h) => clearInterval(h as ReturnType<typeof setInterval>));
+  const maxLengthMs = opts.maxLengthMs || 0;
+  const warnBeforeMs = Math.min(opts.warnBeforeMs ?? DEFAULT_WARN_BEFORE_MS, maxLengthMs / 2);
+  const tickMs = opts.tickMs ?? 250;
+
+  let phase: RecorderPhase = 'idle';
+  let countdown: number | null = null;
+  let accumulated = 0;              // ms recorded before the current run
+  let runStartedAt: number | null = null;
+  let timer: unknown = null;
+  let countdownTimer: unknown = null;
+
+  const elapsedMs = () => accumulated + (runStartedAt != null ? now() - runStartedAt : 0);
+
+  const state = (): RecorderState => {
+    const elapsed = elapsedMs();
+    const remainingMs = maxLengthMs ? Math.max(0, maxLengthMs - elapsed) : null;
+    return {
+      phase,
+      countdown,
+      elapsedMs: elapsed,
+      remainingMs,
+      warning: remainingMs != null && phase !== 'idle' && remainingMs <= warnBeforeMs,
+    };
+  };
+
+  const emit = () => onChange(state());
+
+  const stopTimers = () => {
+    if (timer != null) clear(timer);
+    if (countdownTimer != null) clear(countdownTimer);
+    timer = countdownTimer = null;
+  };
+
+  const tick = () => {
+    if (phase === 'recording' && maxLengthMs && elapsedMs() >= maxLengthMs) {
+      console.log('[Recorder] max length reached');
+      controller.stop().catch((e) => console.warn('[Recorder] auto-stop failed:', e));
+      return;
+    }
+    emit();
+  };
+
+  const capture = async () => {
+    countdown = null;
+    accumulated = 0;
+    runStartedAt = now();
+    phase = 'recording';
+    timer = every(tick, tickMs);
+    emit();
+    try {
+      await driver.start();
+    } catch (e) {
+      stopTimers();
+      phase = 'idle';
+      runStartedAt = null;
+      emit();
+      throw e;
+    }
+  };
+
+  const controller: RecordingController = {
+    async begin() {
+      if (phase !== 'idle') return;
+      const seconds = opts.countdownSec ?? 0;
+      if (seconds <= 0) return capture();
+
+      phase = 'countdown';
+      countdown = seconds;
+      emit();
+      await new Promise<void>((resolve, reject) => {
+        countdownTimer = every(() => {
+          if (phase !== 'countdown') {
+            clear(countdownTimer);
+            countdownTimer = null;
+            resolve();
+            return;
+          }
+          countdown = (countdown ?? 1) - 1;
+          if (countdown > 0) return emit();
+          clear(countdownTimer);
+          countdownTimer = null;
+          capture().then(resolve, reject);
+        }, 1_000);
+      });
+    },
+
+    async pause() {
+      if (phase !== 'recording') return;
+      await driver.pause();
+      accumulated = elapsedMs();
+      runStartedAt = null;
+      phase = 'paused';
+      emit();
+    },
+
+    async resume() {
+      if (phase !== 'paused') return;
+      await driver.resume();
+      runStartedAt = now();
+      phase = 'recording';
+      emit();
+    },
+
+    async stop() {
+      if (phase !== 'recording' && phase !== 'paused') return;
+      accumulated = elapsedMs();
+      runStartedAt = null;
+      phase = 'stopping';
+      if (timer != null) clear(timer);
+      timer = null;
+      emit();
+      await driver.stop();
+    },
+
+    cancel() {
+      if (phase !== 'countdown') return;
+      phase = 'idle';
+      countdown = null;
+      emit();
+    },
+
+    elapsedMs,
+
+    finished() {
+      const total = elapsedMs();
+      stopTimers();
+      phase = 'idle';
+      countdown = null;
+      runStartedAt = null;
+      accumulated = 0;
+      emit();
+      return total;
+    },
+
+    state,
+
+    dispose() {
+      stopTimers();
+    },
+  };
+  return controller;
+}
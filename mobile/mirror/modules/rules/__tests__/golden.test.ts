@@ -0,0 +1,93 @@
+import type { TranscriptWord } from '../../asr/transcript';
+import type { FaceSample } from '../../face/features';
+import { evaluateRules, type RuleInput } from '../engine';
+import { DEFAULT_RULES } from '../rules';
+
+/**
+ * Golden cases: canned clips (synthetic words + face series) with the events
+ * the default rules must produce. A failure after touching the rules or the
+ * engine means the change needs a deliberate update of the expected spans.
+ */
+
+type Expected = { rule: string; start_ms: number; end_ms: number };
+type GoldenCase = { name: string; input: RuleInput; expected: Expected[] };
+
+const HZ = 10;
+
+function say(text: string, startMs: number, wordMs = 300): TranscriptWord[] {
+  return text.split(' ').map((word, i) => ({ t_ms: startMs + i * wordMs, word, conf: 1 }));
+}
+
+function still(durationMs: number): FaceSample[] {
+  return Array.from({ length: durationMs / (1000 / HZ) + 1 }, (_, i) => ({
+    t_ms: i * (1000 / HZ),
+    yaw: 0,
+    pitch: 0,
+    roll: 0,
+    eyeOpen: 1,
+  }));
+}
+
+/** Sinusoidal yaw on top of `samples` between `fromMs` and `fromMs + cycles * periodMs`. */
+function shake(samples: FaceSample[], fromMs: number, cycles: number, ampDeg: number, periodMs = 600) {
+  const toMs = fromMs + cycles * periodMs;
+  return samples.map((s) =>
+    s.t_ms >= fromMs && s.t_ms <= toMs
+      ? { ...s, yaw: Math.round(ampDeg * Math.sin((2 * Math.PI * (s.t_ms - fromMs)) / periodMs) * 10) / 10 }
+      : s
+  );
+}
+
+const GOLDEN_CASES: GoldenCase[] = [
+  {
+    name: 'never/always',
+    input: { words: say('I never finish anything and I always give up.', 1_000), face: still(5_000) },
+    expected: [
+      { rule: 'absolutist', start_ms: 1_300, end_ms: 1_600 },
+      { rule: 'absolutist', start_ms: 2_800, end_ms: 3_100 },
+    ],
+  },
+  {
+    name: 'phrase terms',
+    input: { words: say('No one ever calls, it happens all the time', 0), face: [] },
+    expected: [
+      { rule: 'absolutist', start_ms: 0, end_ms: 600 },
+      { rule: 'absolutist', start_ms: 1_800, end_ms: 3_000 },
+    ],
+  },
+  {
+    name: 'hedging cluster',
+    input: { words: say('Maybe it was fine, I think, sort of okay', 0), face: [] },
+    expected: [{ rule: 'hedging', start_ms: 0, end_ms: 2_400 }],
+  },
+  {
+    name: 'head-shake cluster',
+    input: { words: [], face: shake(still(6_000), 2_000, 3, 15) },
+    expected: [{ rule: 'head_shake', start_ms: 2_100, end_ms: 3_800 }],
+  },
+  {
+    name: 'shake while saying yes',
+    input: { words: say('Yes, I am totally fine', 2_000), face: shake(still(6_000), 2_000, 3, 15) },
+    expected: [
+      { rule: 'head_shake', start_ms: 2_100, end_ms: 3_800 },
+      { rule: 'shake_while_yes', start_ms: 2_000, end_ms: 3_800 },
+      { rule: 'absolutist', start_ms: 2_900, end_ms: 3_200 },
+    ],
+  },
+  {
+    name: 'slow look-around is not a shake',
+    input: { words: say('Yes that sounds good', 1_000), face: shake(still(8_000), 1_000, 2, 20, 3_000) },
+    expected: [],
+  },
+];
+
+const spans = (events: Expected[]) =>
+  events
+    .map(({ rule, start_ms, end_ms }) => ({ rule, start_ms, end_ms }))
+    .sort((a, b) => a.rule.localeCompare(b.rule) || a.start_ms - b.start_ms);
+
+describe('default rules', () => {
+  it.each(GOLDEN_CASES.map((c) => [c.name, c] as const))('%s', (_, { input, expected }) => {
+    expect(spans(evaluateRules(DEFAULT_RULES, input))).toEqual(spans(expected));
+  });
+});
@@ -0,0 +1,51 @@
+import * as FileSystem from 'expo-file-system';
+
+import { readText, writeText } from '../../vault/vault';
+import { addUserEvent, loadEvents } from '../local';
+
+jest.mock('expo-file-system', () => ({ getInfoAsync: jest.fn() }));
+jest.mock('../../vault/vault', () => ({ readText: jest.fn(), writeText: jest.fn() }));
+jest.mock('../../sessions/local', () => ({ sessionFilePath: (id: string) => `file:///r/${id}.events.json` }));
+jest.mock('../../asr/transcript', () => ({}));
+jest.mock('../../face/extract', () => ({}));
+
+const exists = (yes: boolean) => jest.mocked(FileSystem.getInfoAsync).mockResolvedValue({ exists: yes } as never);
+const bookmark = { rule: 'bookmark', start_ms: 1_000, end_ms: 1_000 };
+
+beforeEach(() => jest.clearAllMocks());
+
+describe('loadEvents', () => {
+  it('treats a missing file as an empty log', async () => {
+    exists(false);
+    expect((await loadEvents('file:///r/a.events.json')).events).toEqual([]);
+    expect(readText).not.toHaveBeenCalled();
+  });
+
+  it('throws on a file it cannot read or parse', async () => {
+    exists(true);
+    jest.mocked(readText).mockRejectedValueOnce(new Error('decrypt failed'));
+    await expect(loadEvents('file:///r/a.events.json')).rejects.toThrow('unreadable event log');
+    jest.mocked(readText).mockResolvedValueOnce('{not json');
+    await expect(loadEvents('file:///r/a.events.json')).rejects.toThrow('unreadable event log');
+    jest.mocked(readText).mockResolvedValueOnce('{"type":"events"}');
+    await expect(loadEvents('file:///r/a.events.json')).rejects.toThrow('loadEvents:');
+  });
+});
+
+describe('addUserEvent', () => {
+  it('appends to the existing log', async () => {
+    exists(true);
+    const log = { schemaVersion: 1, type: 'events', createdAt: 1, events: [{ ...bookmark, source: 'rules', rule: 'hedging' }] };
+    jest.mocked(readText).mockResolvedValueOnce(JSON.stringify(log));
+    await addUserEvent({ id: 'a' }, bookmark);
+    const saved = JSON.parse(jest.mocked(writeText).mock.calls[0][1]);
+    expect(saved.events.map((e: { rule: string }) => e.rule)).toEqual(['bookmark', 'hedging']);
+  });
+
+  it('leaves an unreadable log alone', async () => {
+    exists(true);
+    jest.mocked(readText).mockResolvedValueOnce('{not json');
+    await expect(addUserEvent({ id: 'a' }, bookmark)).rejects.toThrow('unreadable event log');
+    expect(writeText).not.toHaveBeenCalled();
+  });
+});
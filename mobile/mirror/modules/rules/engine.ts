@@ -0,0 +1,143 @@
+import type { TranscriptWord } from '../asr/transcript';
+import type { FaceSample } from '../face/features';
+import { byStart, type Event } from './events';
+import { detectOscillations } from './gestures';
+import type { GestureRule, LexiconRule, Rule, TogetherRule } from './rules';
+
+export type RuleInput = {
+  words: TranscriptWord[];
+  face: FaceSample[];
+};
+
+// Words only carry a start time; a word is taken to last until the next one,
+// up to this long.
+const MAX_WORD_MS = 600;
+
+const norm = (w: string) =>
+  w.toLowerCase().replace(/[’‘]/g, "'").replace(/[^\p{L}\p{N}']/gu, '');
+
+function matchLexicon(rule: LexiconRule, input: RuleInput): Event[] {
+  const words = input.words.filter((w) => norm(w.word));
+  const tokens = words.map((w) => norm(w.word));
+  const terms = rule.terms.map((t) => t.split(/\s+/).map(norm).filter(Boolean)).filter((t) => t.length);
+  const wordEnd = (i: number) => Math.min(words[i + 1]?.t_ms ?? Infinity, words[i].t_ms + MAX_WORD_MS);
+
+  const hits: Event[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    // longest phrase first so "no one" wins over a shorter overlapping term
+    const term = terms
+      .filter((t) => t.every((tok, k) => tokens[i + k] === tok))
+      .sort((a, b) => b.length - a.length)[0];
+    if (!term) continue;
+    const last = i + term.length - 1;
+    hits.push({
+      rule: rule.id,
+      source: 'rules',
+      start_ms: words[i].t_ms,
+      end_ms: wordEnd(last),
+      label: rule.label,
+      evidence: { words: words.slice(i, last + 1).map(({ t_ms, word }) => ({ t_ms, word })) },
+    });
+    i = last;
+  }
+
+  const minCount = rule.minCount ?? 1;
+  if (minCount <= 1) return hits;
+
+  // clusters: runs of hits where each fits in a window with the run's first
+  const windowMs = rule.windowMs ?? 10_000;
+  const clusters: Event[] = [];
+  let run: Event[] = [];
+  const flush = () => {
+    if (run.length >= minCount) {
+      clusters.push({
+        rule: rule.id,
+        source: 'rules',
+        start_ms: run[0].start_ms,
+        end_ms: run[run.length - 1].end_ms,
+        label: rule.label,
+        evidence: { words: run.flatMap((h) => h.evidence.words ?? []) },
+      });
+    }
+    run = [];
+  };
+  for (const h of hits) {
+    if (run.length && h.start_ms - run[0].start_ms > windowMs) flush();
+    run.push(h);
+  }
+  flush();
+  return clusters;
+}
+
+function matchGesture(rule: GestureRule, input: RuleInput): Event[] {
+  const axis = rule.gesture === 'head_shake' ? 'yaw' : 'pitch';
+  return detectOscillations(input.face, axis, {
+    minSwings: rule.minSwings ?? 3,
+    minAmplitudeDeg: rule.minAmplitudeDeg ?? 6,
+    maxSwingMs: rule.maxSwingMs ?? 700,
+  }).map((o) => ({
+    rule: rule.id,
+    source: 'rules' as const,
+    start_ms: o.start_ms,
+    end_ms: o.end_ms,
+    label: rule.label,
+    evidence: { face: { swings: o.swings, amplitudeDeg: Math.round(o.amplitudeDeg * 10) / 10 } },
+  }));
+}
+
+function matchTogether(rule: TogetherRule, found: Map<string, Event[]>): Event[] {
+  const tol = rule.toleranceMs ?? 0;
+  const [first, ...rest] = rule.all.map((id) => found.get(id) ?? []);
+  const near = (a: Event, b: Event) => a.start_ms - tol <= b.end_ms && b.start_ms - tol <= a.end_ms;
+
+  const out: Event[] = [];
+  for (const anchor of first ?? []) {
+    const parts = rest.map((events) => events.find((e) => near(anchor, e)));
+    if (parts.some((p) => !p)) continue;
+    const all = [anchor, ...(parts as Event[])];
+    out.push({
+      rule: rule.id,
+      source: 'rules',
+      start_ms: Math.min(...all.map((e) => e.start_ms)),
+      end_ms: Math.max(...all.map((e) => e.end_ms)),
+      label: rule.label,
+      evidence: {
+        words: all.flatMap((e) => e.evidence.words ?? []),
+        face: Object.assign({}, ...all.map((e) => e.evidence.face ?? {})),
+        parts: all.map((e) => e.rule),
+      },
+    });
+  }
+  return out;
+}
+
+/**
+ * Evaluate `rules` in order over a session's words and face series. A
+ * `together` rule may only refer to rules listed before it.
+ */
+export function evaluateRules(rules: Rule[], input: RuleInput): Event[] {
+  const found = new Map<string, Event[]>();
+  for (const rule of rules) {
+    if (found.has(rule.id)) throw new Error(`evaluateRules: duplicate rule id "${rule.id}"`);
+    let events: Event[];
+    switch (rule.kind) {
+      case 'lexicon':
+        events = matchLexicon(rule, input);
+        break;
+      case 'gesture':
+        events = matchGesture(rule, input);
+        break;
+      case 'together': {
+        const unknown = rule.all.filter((id) => !found.has(id));
+        if (unknown.length) throw new Error(`evaluateRules: "${rule.id}" refers to unknown rules ${unknown.join(', ')}`);
+        events = matchTogether(rule, found);
+        break;
+      }
+    }
+    found.set(rule.id, events);
+  }
+  return rules
+    .filter((r) => !r.hidden)
+    .flatMap((r) => found.get(r.id) ?? [])
+    .sort(byStart);
+}
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+/**
+ * On-disk event log (…/<id>.events.json): timestamped moments in a session,
+ * either found by the rules engine or added by the user (bookmarks).
+ * Reading and writing go through ./local.
+ */
+export const EVENTS_SCHEMA_VERSION = 1;
+
+export const EventSchema = z.object({
+  rule: z.string(),                          // rule id, or 'bookmark'
+  source: z.enum(['rules', 'user']),
+  start_ms: z.number().nonnegative(),
+  end_ms: z.number().nonnegative(),
+  label: z.string().optional(),
+  evidence: z
+    .object({
+      words: z.array(z.object({ t_ms: z.number(), word: z.string() })).optional(),
+      face: z.record(z.string(), z.number()).optional(),
+      parts: z.array(z.string()).optional(), // rule ids a compound rule matched on
+    })
+    .default({}),
+});
+
+export const EventLogSchema = z.object({
+  schemaVersion: z.literal(EVENTS_SCHEMA_VERSION),
+  type: z.literal('events'),
+  createdAt: z.number(),
+  rulesVersion: z.number().optional(),
+  events: z.array(EventSchema),
+});
+
+export type Event = z.infer<typeof EventSchema>;
+export type EventLog = z.infer<typeof EventLogSchema>;
+
+export const byStart = (a: Event, b: Event) => a.start_ms - b.start_ms || a.rule.localeCompare(b.rule);
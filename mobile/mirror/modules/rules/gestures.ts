@@ -0,0 +1,105 @@
+import type { FaceSample } from '../face/features';
+
+export type Swing = { start_ms: number; end_ms: number; deltaDeg: number };
+
+export type Oscillation = {
+  start_ms: number;
+  end_ms: number;
+  swings: number;
+  amplitudeDeg: number;  // largest swing
+};
+
+type Pt = { t: number; v: number };
+
+/**
+ * Turning points of a series, ignoring wiggles smaller than `minDelta`
+ * (a zig-zag filter). Consecutive pivots are at least `minDelta` apart.
+ */
+function pivots(run: Pt[], minDelta: number): Pt[] {
+  if (!run.length) return [];
+  const out: Pt[] = [];
+  let lo = run[0];
+  let hi = run[0];
+  let dir = 0; // 1 rising, -1 falling, 0 undecided
+  let cand = run[0];
+
+  for (const p of run) {
+    if (dir === 0) {
+      if (p.v > hi.v) hi = p;
+      if (p.v < lo.v) lo = p;
+      if (hi.v - lo.v >= minDelta) {
+        const rising = hi.t > lo.t;
+        out.push(rising ? lo : hi);
+        cand = rising ? hi : lo;
+        dir = rising ? 1 : -1;
+      }
+    } else if (dir === 1) {
+      if (p.v > cand.v) cand = p;
+      else if (cand.v - p.v >= minDelta) {
+        out.push(cand);
+        cand = p;
+        dir = -1;
+      }
+    } else {
+      if (p.v < cand.v) cand = p;
+      else if (p.v - cand.v >= minDelta) {
+        out.push(cand);
+        cand = p;
+        dir = 1;
+      }
+    }
+  }
+  if (dir !== 0) out.push(cand);
+  return out;
+}
+
+/** Contiguous runs of non-null values; a lost face splits the series. */
+function runs(samples: FaceSample[], axis: 'yaw' | 'pitch'): Pt[][] {
+  const out: Pt[][] = [];
+  let cur: Pt[] = [];
+  for (const s of samples) {
+    const v = s[axis];
+    if (v == null) {
+      if (cur.length) out.push(cur);
+      cur = [];
+    } else {
+      cur.push({ t: s.t_ms, v });
+    }
+  }
+  if (cur.length) out.push(cur);
+  return out;
+}
+
+/**
+ * Back-and-forth head movement on one axis: at least `minSwings` consecutive
+ * swings of `minAmplitudeDeg` or more, each no slower than `maxSwingMs`.
+ */
+export function detectOscillations(
+  samples: FaceSample[],
+  axis: 'yaw' | 'pitch',
+  opts: { minSwings: number; minAmplitudeDeg: number; maxSwingMs: number }
+): Oscillation[] {
+  const found: Oscillation[] = [];
+  for (const run of runs(samples, axis)) {
+    const pts = pivots(run, opts.minAmplitudeDeg);
+    let group: Swing[] = [];
+    const flush = () => {
+      if (group.length >= opts.minSwings) {
+        found.push({
+          start_ms: group[0].start_ms,
+          end_ms: group[group.length - 1].end_ms,
+          swings: group.length,
+          amplitudeDeg: Math.max(...group.map((s) => Math.abs(s.deltaDeg))),
+        });
+      }
+      group = [];
+    };
+    for (let i = 1; i < pts.length; i++) {
+      const swing = { start_ms: pts[i - 1].t, end_ms: pts[i].t, deltaDeg: pts[i].v - pts[i - 1].v };
+      if (swing.end_ms - swing.start_ms > opts.maxSwingMs) flush();
+      else group.push(swing);
+    }
+    flush();
+  }
+  return found;
+}
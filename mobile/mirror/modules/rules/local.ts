@@ -0,0 +1,83 @@
+import * as FileSystem from 'expo-file-system';
+import { z } from 'zod';
+import { sessionFilePath, type Session } from '../sessions/local';
+import { loadTranscript } from '../asr/transcript';
+import { loadFaceSeries } from '../face/extract';
+import { readText, writeText } from '../vault/vault';
+import { evaluateRules } from './engine';
+import { byStart, EVENTS_SCHEMA_VERSION, EventLogSchema, type Event, type EventLog } from './events';
+import { DEFAULT_RULES, RULES_VERSION, type Rule } from './rules';
+
+/**
+ * Load an event log; a missing file is an empty log. Any other failure throws,
+ * so a read-modify-write never replaces a log it could not read.
+ */
+export async function loadEvents(path: string): Promise<EventLog> {
+  if (!(await FileSystem.getInfoAsync(path)).exists) {
+    return { schemaVersion: EVENTS_SCHEMA_VERSION, type: 'events', createdAt: Date.now(), events: [] };
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(await readText(path));
+  } catch (e) {
+    throw new Error(`loadEvents: unreadable event log (${path})`, { cause: e });
+  }
+  const parsed = EventLogSchema.safeParse(json);
+  if (!parsed.success) throw new Error(`loadEvents: ${z.prettifyError(parsed.error)} (${path})`);
+  return parsed.data;
+}
+
+export async function saveEvents(path: string, log: EventLog): Promise<void> {
+  const parsed = EventLogSchema.safeParse({ ...log, events: [...log.events].sort(byStart) });
+  if (!parsed.success) throw new Error(`saveEvents: ${z.prettifyError(parsed.error)}`);
+  await writeText(path, JSON.stringify(parsed.data));
+}
+
+// Read-modify-write cycles per events file go through one chain, so a
+// bookmark added while the rules run is not lost.
+const chains = new Map<string, Promise<unknown>>();
+function mutateEvents<T>(path: string, fn: (log: EventLog) => Promise<T> | T): Promise<T> {
+  const run = (chains.get(path) ?? Promise.resolve()).then(async () => {
+    const log = await loadEvents(path);
+    const out = await fn(log);
+    await saveEvents(path, log);
+    return out;
+  });
+  chains.set(path, run.catch(() => undefined));
+  return run;
+}
+
+/**
+ * Run the rules over a session's transcript and face series and write the
+ * result to `<id>.events.json`. Events the user added are kept; rule events
+ * from a previous run are replaced. Returns the path to the JSON.
+ */
+export async function processAndSaveEvents(session: Session, rules: Rule[] = DEFAULT_RULES): Promise<string> {
+  const words = session.transcriptPath ? (await loadTranscript(session.transcriptPath)).words : [];
+  const face = session.facePath ? (await loadFaceSeries(session.facePath)).samples : [];
+
+  const found = evaluateRules(rules, { words, face });
+
+  const eventsPath = session.eventsPath ?? sessionFilePath(session.id, 'events');
+  await mutateEvents(eventsPath, (log) => {
+    log.createdAt = Date.now();
+    log.rulesVersion = RULES_VERSION;
+    log.events = [...log.events.filter((e) => e.source === 'user'), ...found];
+  });
+  return eventsPath;
+}
+
+/**
+ * Add a user event (e.g. a bookmark) to a session's event log. Returns the
+ * path so the caller can link it from the session if it was just created.
+ */
+export async function addUserEvent(
+  session: Pick<Session, 'id' | 'eventsPath'>,
+  event: Omit<Event, 'source' | 'evidence'> & { evidence?: Event['evidence'] }
+): Promise<string> {
+  const eventsPath = session.eventsPath ?? sessionFilePath(session.id, 'events');
+  await mutateEvents(eventsPath, (log) => {
+    log.events.push({ ...event, source: 'user', evidence: event.evidence ?? {} });
+  });
+  return eventsPath;
+}
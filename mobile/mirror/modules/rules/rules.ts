@@ -0,0 +1,80 @@
+/**
+ * Rule definitions. Rules are plain data so they can be versioned, shipped in
+ * settings later, and diffed in the golden cases (./__tests__/golden.test.ts).
+ *
+ *   lexicon   words/phrases in the transcript, optionally as a cluster
+ *   gesture   head oscillation in the face series (shake = yaw, nod = pitch)
+ *   together  fires where events of every listed rule overlap in time
+ *
+ * `hidden` rules are evaluated for use by `together` rules but not emitted.
+ */
+
+type RuleBase = { id: string; label: string; hidden?: boolean };
+
+export type LexiconRule = RuleBase & {
+  kind: 'lexicon';
+  terms: string[];          // single words or phrases, matched case-insensitively
+  minCount?: number;        // > 1: only fire on this many matches ...
+  windowMs?: number;        // ... within this window
+};
+
+export type GestureRule = RuleBase & {
+  kind: 'gesture';
+  gesture: 'head_shake' | 'head_nod';
+  minSwings?: number;       // side-to-side moves in a row
+  minAmplitudeDeg?: number; // per swing
+  maxSwingMs?: number;      // slower moves are looking around, not shaking
+};
+
+export type TogetherRule = RuleBase & {
+  kind: 'together';
+  all: string[];            // rule ids
+  toleranceMs?: number;     // how far apart the parts may be and still count
+};
+
+export type Rule = LexiconRule | GestureRule | TogetherRule;
+
+export const RULES_VERSION = 1;
+
+export const DEFAULT_RULES: Rule[] = [
+  {
+    id: 'absolutist',
+    label: 'Absolutist language',
+    kind: 'lexicon',
+    terms: [
+      'never', 'always', 'everyone', 'everybody', 'nobody', 'no one', 'nothing',
+      'everything', 'completely', 'totally', 'every time', 'all the time',
+    ],
+  },
+  {
+    id: 'hedging',
+    label: 'Hedging',
+    kind: 'lexicon',
+    terms: ['maybe', 'perhaps', 'probably', 'i guess', 'i suppose', 'sort of', 'kind of', 'i think'],
+    minCount: 3,
+    windowMs: 15_000,
+  },
+  {
+    id: 'head_shake',
+    label: 'Head shake',
+    kind: 'gesture',
+    gesture: 'head_shake',
+    minSwings: 3,
+    minAmplitudeDeg: 6,
+    maxSwingMs: 700,
+  },
+  {
+    id: 'affirmation',
+    label: 'Saying yes',
+    kind: 'lexicon',
+    terms: ['yes', 'yeah', 'yep', 'sure', 'of course', 'definitely', 'absolutely'],
+    hidden: true,
+  },
+  {
+    id: 'shake_while_yes',
+    label: 'Shaking head while saying yes',
+    kind: 'together',
+    all: ['affirmation', 'head_shake'],
+    toleranceMs: 500,
+  },
+];
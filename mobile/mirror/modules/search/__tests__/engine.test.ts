@@ -0,0 +1,105 @@
+import { addDocument, createIndex, parseQuery, removeDocument, search, tokenize, type SearchIndex } from '../engine';
+
+const seg = (start_ms: number, text: string) => ({ start_ms, text });
+
+function indexOf(docs: Record<string, string[]>): SearchIndex {
+  const index = createIndex();
+  Object.entries(docs).forEach(([id, texts], i) =>
+    addDocument(index, id, { createdAt: i + 1, segments: texts.map((t, k) => seg(k * 1000, t)) })
+  );
+  return index;
+}
+
+describe('tokenize', () => {
+  it('lowercases, folds accents and drops apostrophes', () => {
+    expect(tokenize("Don't panic, Café RÉSUMÉ!")).toEqual(['dont', 'panic', 'cafe', 'resume']);
+  });
+});
+
+describe('parseQuery', () => {
+  it('splits bare terms from quoted phrases', () => {
+    expect(parseQuery('sleep "bad dream" sleep "alone"')).toEqual({ terms: ['sleep', 'alone'], phrases: [['bad', 'dream']] });
+  });
+});
+
+describe('index', () => {
+  it('records positions per segment and counts tokens', () => {
+    const index = indexOf({ a: ['one two one', 'two'] });
+    expect(index.postings.one).toEqual({ a: { 0: [0, 2] } });
+    expect(index.postings.two).toEqual({ a: { 0: [1], 1: [0] } });
+    expect(index.docs.a.length).toBe(4);
+  });
+
+  it('replaces a document and drops terms nobody uses', () => {
+    const index = indexOf({ a: ['old words'], b: ['words'] });
+    addDocument(index, 'a', { createdAt: 5, segments: [seg(0, 'new')] });
+    expect(index.postings.old).toBeUndefined();
+    expect(Object.keys(index.postings.words)).toEqual(['b']);
+
+    removeDocument(index, 'b');
+    expect(index.postings).toEqual({ new: { a: { 0: [0] } } });
+    expect(Object.keys(index.docs)).toEqual(['a']);
+  });
+
+  it('indexes words that name Object.prototype members as plain terms', () => {
+    const index = indexOf({ a: ['constructor toString hasOwnProperty'] });
+    expect(index.postings.constructor).toEqual({ a: { 0: [0] } });
+    expect(Object.hasOwn(Object, 'a')).toBe(false);
+    expect(search(index, 'constructor').map((h) => h.sessionId)).toEqual(['a']);
+
+    removeDocument(index, 'a');
+    expect(index.postings).toEqual({});
+    expect(Object.hasOwn(Object, 'a')).toBe(false);
+  });
+
+  it('survives a JSON round trip', () => {
+    const index: SearchIndex = JSON.parse(JSON.stringify(indexOf({ a: ['the constructor'] })));
+    expect(search(index, 'constructor')).toHaveLength(1);
+    expect(search(index, 'hasownproperty')).toEqual([]);
+  });
+});
+
+describe('search', () => {
+  it('requires every term and phrase to match', () => {
+    const index = indexOf({ a: ['bad dream last night'], b: ['a dream that was bad'] });
+    expect(search(index, 'bad dream').map((h) => h.sessionId).sort()).toEqual(['a', 'b']);
+    expect(search(index, '"bad dream"').map((h) => h.sessionId)).toEqual(['a']);
+    expect(search(index, 'dream missing')).toEqual([]);
+    expect(search(index, '  ')).toEqual([]);
+  });
+
+  it('ranks by term frequency, then recency', () => {
+    const index = indexOf({
+      once: ['work and more things to say here'],
+      twice: ['work work and more things to say'],
+      other: ['tired'],
+    });
+    expect(search(index, 'work').map((h) => h.sessionId)).toEqual(['twice', 'once']);
+
+    const tie = indexOf({ older: ['same words'], newer: ['same words'] });
+    expect(search(tie, 'same').map((h) => h.sessionId)).toEqual(['newer', 'older']);
+  });
+
+  it('scores rarer terms higher', () => {
+    const index = indexOf({ a: ['common rare'], b: ['common'], c: ['common'], d: ['common rare2'] });
+    const [a] = search(index, 'rare');
+    const [b] = search(index, 'common').filter((h) => h.sessionId === 'a');
+    expect(a.score).toBeGreaterThan(b.score);
+  });
+
+  it('filters by date and limits the result count', () => {
+    const index = indexOf({ a: ['x'], b: ['x'], c: ['x'] });
+    expect(search(index, 'x', { from: 2, to: 3 }).map((h) => h.sessionId)).toEqual(['b']);
+    expect(search(index, 'x', { limit: 1 })).toHaveLength(1);
+  });
+
+  it('highlights matches in the original text, best segments in time order', () => {
+    const index = indexOf({ a: ['Nothing here', "Didn't sleep, sleep!", 'one sleep'] });
+    const [hit] = search(index, 'sleep');
+    expect(hit.snippets.map((s) => s.start_ms)).toEqual([1000, 2000]);
+    expect(hit.snippets[0].highlights).toEqual([
+      [7, 12],
+      [14, 19],
+    ]);
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Inverted index over transcript segments.
+ *
+ * Plain data (JSON-serializable) plus pure functions, so the index can be
+ * persisted through the vault and exercised without a device. A posting maps
+ * a term to the segments it occurs in and its token positions there; phrase
+ * queries check for consecutive positions within one segment.
+ */
+
+export const SEARCH_INDEX_VERSION = 1;
+
+export type IndexedSegment = { start_ms: number; text: string };
+
+export type IndexedDoc = {
+  createdAt: number;           // epoch ms, for date filters
+  segments: IndexedSegment[];
+  length: number;              // total tokens, for length normalization
+};
+
+// term -> sessionId -> segment index -> token positions
+type Postings = Record<string, Record<string, Record<number, number[]>>>;
+
+export type SearchIndex = {
+  version: number;
+  docs: Record<string, IndexedDoc>;
+  postings: Postings;
+};
+
+export function createIndex(): SearchIndex {
+  return { version: SEARCH_INDEX_VERSION, docs: {}, postings: {} };
+}
+
+// Terms are user text: "constructor" must not resolve to Object.prototype's.
+// Persisted indexes come back from JSON.parse, so lookups check own keys
+// rather than relying on null-prototype objects.
+function postingsFor(index: SearchIndex, term: string) {
+  return Object.hasOwn(index.postings, term) ? index.postings[term] : undefined;
+}
+
+/** Lowercase, accent-folded word tokens; apostrophes are dropped ("don't" -> "dont"). */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/['’‘]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/** Token spans in `text`, so matches can be highlighted in the original. */
+function tokenSpans(text: string): { token: string; start: number; end: number }[] {
+  const out: { token: string; start: number; end: number }[] = [];
+  for (const m of text.matchAll(/[\p{L}\p{M}\p{N}'’‘]+/gu)) {
+    const token = tokenize(m[0])[0];
+    if (token) out.push({ token, start: m.index!, end: m.index! + m[0].length });
+  }
+  return out;
+}
+
+export function removeDocument(index: SearchIndex, sessionId: string) {
+  const doc = index.docs[sessionId];
+  if (!doc) return;
+  const terms = new Set(doc.segments.flatMap((s) => tokenize(s.text)));
+  for (const term of terms) {
+    const p = postingsFor(index, term);
+    if (!p) continue;
+    delete p[sessionId];
+    if (!Object.keys(p).length) delete index.postings[term];
+  }
+  delete index.docs[sessionId];
+}
+
+/** Add (or replace) a session's segments. */
+export function addDocument(
+  index: SearchIndex,
+  sessionId: string,
+  doc: { createdAt: number; segments: IndexedSegment[] }
+) {
+  removeDocument(index, sessionId);
+  let length = 0;
+  doc.segments.forEach((seg, segIdx) => {
+    tokenize(seg.text).forEach((term, pos) => {
+      const bySession = postingsFor(index, term) ?? (index.postings[term] = {});
+      const bySegment = (bySession[sessionId] ??= {});
+      (bySegment[segIdx] ??= []).push(pos);
+      length++;
+    });
+  });
+  index.docs[sessionId] = { createdAt: doc.createdAt, segments: doc.segments, length };
+}
+
+// ---- queries ----------------------------------------------------------------
+
+export type ParsedQuery = { terms: string[]; phrases: string[][] };
+
+/** Bare words must all occur; "quoted phrases" must occur word for word. */
+export function parseQuery(q: string): ParsedQuery {
+  const phrases: string[][] = [];
+  const rest = q.replace(/"([^"]*)"?/g, (_, p: string) => {
+    const toks = tokenize(p);
+    if (toks.length > 1) phrases.push(toks);
+    else if (toks.length === 1) return ` ${toks[0]} `;
+    return ' ';
+  });
+  return { terms: [...new Set(tokenize(rest))], phrases };
+}
+
+export type SearchFilters = { from?: number; to?: number; limit?: number };
+
+export type Snippet = {
+  start_ms: number;
+  text: string;
+  highlights: [number, number][]; // char ranges in `text`
+};
+
+export type SearchHit = { sessionId: string; createdAt: number; score: number; snippets: Snippet[] };
+
+/** Segments of `sessionId` containing `phrase`, with the token position where each match starts. */
+function phraseMatches(index: SearchIndex, sessionId: string, phrase: string[]): Map<number, number[]> {
+  const out = new Map<number, number[]>();
+  const first = postingsFor(index, phrase[0])?.[sessionId];
+  if (!first) return out;
+  for (const [segKey, positions] of Object.entries(first)) {
+    const seg = Number(segKey);
+    const starts = positions.filter((p) =>
+      phrase.every((tok, k) => postingsFor(index, tok)?.[sessionId]?.[seg]?.includes(p + k))
+    );
+    if (starts.length) out.set(seg, starts);
+  }
+  return out;
+}
+
+const K1 = 1.2;
+const B = 0.75;
+const PHRASE_BOOST = 2;
+const MAX_SNIPPETS = 3;
+
+/**
+ * BM25 over sessions. Every bare term and phrase must match somewhere in the
+ * session (AND); phrase hits score as an extra, boosted term. Snippets are
+ * the matching segments in time order, the best ones first.
+ */
+export function search(index: SearchIndex, query: string, filters: SearchFilters = {}): SearchHit[] {
+  const { terms, phrases } = parseQuery(query);
+  if (!terms.length && !phrases.length) return [];
+
+  const ids = Object.keys(index.docs).filter((id) => {
+    const d = index.docs[id];
+    return (filters.from == null || d.createdAt >= filters.from) && (filters.to == null || d.createdAt < filters.to);
+  });
+  const N = Object.keys(index.docs).length;
+  const avgLen = Object.values(index.docs).reduce((n, d) => n + d.length, 0) / Math.max(1, N);
+  const idf = (df: number) => Math.log(1 + (N - df + 0.5) / (df + 0.5));
+  const bm25 = (tf: number, len: number) => (tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * len) / Math.max(1, avgLen)));
+
+  const phraseDf = phrases.map((p) => ids.filter((id) => phraseMatches(index, id, p).size).length);
+
+  const hits: SearchHit[] = [];
+  for (const id of ids) {
+    const doc = index.docs[id];
+    let score = 0;
+    // segment -> token positions to highlight
+    const marks = new Map<number, Set<number>>();
+    const mark = (seg: number, pos: number) => (marks.get(seg) ?? marks.set(seg, new Set()).get(seg)!).add(pos);
+
+    let ok = true;
+    for (const term of terms) {
+      const postings = postingsFor(index, term);
+      const segs = postings?.[id];
+      if (!postings || !segs) {
+        ok = false;
+        break;
+      }
+      const tf = Object.values(segs).reduce((n, ps) => n + ps.length, 0);
+      score += idf(Object.keys(postings).length) * bm25(tf, doc.length);
+      for (const [seg, ps] of Object.entries(segs)) ps.forEach((p) => mark(Number(seg), p));
+    }
+    if (!ok) continue;
+
+    for (const [i, phrase] of phrases.entries()) {
+      const matches = phraseMatches(index, id, phrase);
+      if (!matches.size) {
+        ok = false;
+        break;
+      }
+      const tf = [...matches.values()].reduce((n, s) => n + s.length, 0);
+      score += PHRASE_BOOST * idf(phraseDf[i]) * bm25(tf, doc.length);
+      for (const [seg, starts] of matches) starts.forEach((s) => phrase.forEach((_, k) => mark(seg, s + k)));
+    }
+    if (!ok) continue;
+
+    const snippets = [...marks.entries()]
+      .sort((a, b) => b[1].size - a[1].size || a[0] - b[0])
+      .slice(0, MAX_SNIPPETS)
+      .sort((a, b) => a[0] - b[0])
+      .map(([seg, positions]) => {
+        const { start_ms, text } = doc.segments[seg];
+        const spans = tokenSpans(text);
+        const highlights = [...positions].sort((a, b) => a - b).flatMap((p) => (spans[p] ? [[spans[p].start, spans[p].end] as [number, number]] : []));
+        return { start_ms, text, highlights };
+      });
+    hits.push({ sessionId: id, createdAt: doc.createdAt, score, snippets });
+  }
+
+  return hits
+    .sort((a, b) => b.score - a.score || b.createdAt - a.createdAt)
+    .slice(0, filters.limit ?? 50);
+}
@@ -0,0 +1,112 @@
+import * as FileSystem from 'expo-file-system';
+import { getSession, listSessions, RECORDINGS_DIR, type Session } from '../sessions/local';
+import { loadTranscript, type Transcript } from '../asr/transcript';
+import { readText, writeText } from '../vault/vault';
+import {
+  addDocument,
+  createIndex,
+  removeDocument,
+  search,
+  SEARCH_INDEX_VERSION,
+  type SearchFilters,
+  type SearchHit,
+  type SearchIndex,
+} from './engine';
+
+/**
+ * The journal's search index, kept encrypted in recordings/search.index.json
+ * and in memory once loaded. It is rebuilt from the transcripts when missing
+ * or from an older version, and updated per session as transcripts land.
+ */
+
+const INDEX_PATH = `${RECORDINGS_DIR}/search.index.json`;
+
+let loaded: Promise<SearchIndex> | null = null;
+// All mutations + saves go through this chain.
+let lock: Promise<unknown> = Promise.resolve();
+
+async function readIndex(): Promise<SearchIndex | null> {
+  if (!(await FileSystem.getInfoAsync(INDEX_PATH)).exists) return null;
+  try {
+    const index = JSON.parse(await readText(INDEX_PATH)) as SearchIndex;
+    return index.version === SEARCH_INDEX_VERSION ? index : null;
+  } catch (e) {
+    console.warn('[Search] index unreadable, rebuilding:', e);
+    return null;
+  }
+}
+
+async function buildIndex(): Promise<SearchIndex> {
+  const index = createIndex();
+  for (const s of await listSessions()) {
+    if (!s.transcriptPath) continue;
+    try {
+      const t = await loadTranscript(s.transcriptPath);
+      addDocument(index, s.id, { createdAt: s.createdAt, segments: t.segments });
+    } catch (e) {
+      console.warn(`[Search] skipped ${s.id}:`, e);
+    }
+  }
+  await writeText(INDEX_PATH, JSON.stringify(index));
+  console.log(`[Search] indexed ${Object.keys(index.docs).length} sessions`);
+  return index;
+}
+
+function getIndex(): Promise<SearchIndex> {
+  loaded ??= (async () => (await readIndex()) ?? buildIndex())().catch((e) => {
+    loaded = null;
+    throw e;
+  });
+  return loaded;
+}
+
+function mutateIndex(fn: (index: SearchIndex) => void): Promise<void> {
+  const run = lock.then(async () => {
+    const index = await getIndex();
+    fn(index);
+    await writeText(INDEX_PATH, JSON.stringify(index));
+  });
+  lock = run.catch(() => undefined);
+  return run;
+}
+
+/** Add or refresh one session's transcript in the index. */
+export function indexTranscript(session: Pick<Session, 'id' | 'createdAt'>, transcript: Transcript) {
+  return mutateIndex((index) =>
+    addDocument(index, session.id, { createdAt: session.createdAt, segments: transcript.segments })
+  );
+}
+
+export function removeFromIndex(sessionId: string) {
+  return mutateIndex((index) => removeDocument(index, sessionId));
+}
+
+/** Drop the index and build it again from every transcript. */
+export async function rebuildSearchIndex() {
+  await lock;
+  loaded = buildIndex();
+  await loaded;
+}
+
+/** Indexed transcript text per session, for on-device aggregates. */
+export async function indexedText(): Promise<Record<string, string[]>> {
+  await lock;
+  const index = await getIndex();
+  return Object.fromEntries(Object.entries(index.docs).map(([id, doc]) => [id, doc.segments.map((s) => s.text)]));
+}
+
+/**
+ * Search all transcripts. Sessions deleted since they were indexed are left
+ * out of the results and dropped from the index.
+ */
+export async function searchJournal(query: string, filters: SearchFilters = {}): Promise<SearchHit[]> {
+  await lock;
+  const hits = search(await getIndex(), query, filters);
+  const live: SearchHit[] = [];
+  for (const hit of hits) {
+    const s = await getSession(hit.sessionId);
+    if (s && !s.deletedAt) live.push(hit);
+    else if (!s) removeFromIndex(hit.sessionId).catch((e) => console.warn('[Search] cleanup failed:', e));
+  }
+  return live;
+}
@@ -0,0 +1,28 @@
+import { recordingOf, sessionFileName, videoFileName } from '../ids';
+
+const ID = '01J9Z3K8Q0ABCDEFGHJKMNPQRS';
+
+describe('recording file names', () => {
+  it('keeps a known video container, lowercased', () => {
+    expect(videoFileName(ID, '.MOV')).toBe(`${ID}_session.mov`);
+    expect(videoFileName(ID, '.mp4')).toBe(sessionFileName(ID, 'video'));
+  });
+
+  it('names unknown containers mp4', () => {
+    expect(videoFileName(ID, '.xyz')).toBe(`${ID}_session.mp4`);
+    expect(videoFileName(ID, '')).toBe(`${ID}_session.mp4`);
+  });
+
+  it('reads the id and media kind back', () => {
+    expect(recordingOf(`${ID}_session.mov`)).toEqual({ id: ID, mediaKind: 'video' });
+    expect(recordingOf(sessionFileName(ID, 'video'))).toEqual({ id: ID, mediaKind: 'video' });
+    expect(recordingOf(sessionFileName(ID, 'audio'))).toEqual({ id: ID, mediaKind: 'audio' });
+    expect(recordingOf('20240101_120000_session.mp4')).toEqual({ id: '20240101_120000', mediaKind: 'video' });
+  });
+
+  it('ignores files that are not recordings', () => {
+    expect(recordingOf(sessionFileName(ID, 'transcript'))).toBeNull();
+    expect(recordingOf(sessionFileName(ID, 'thumbnail'))).toBeNull();
+    expect(recordingOf(`${ID}_session.txt`)).toBeNull();
+  });
+});
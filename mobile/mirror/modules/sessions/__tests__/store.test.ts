@@ -0,0 +1,108 @@
+import type { Session } from '../local';
+import { createMemoryBackend, createSessionStore } from '../store';
+
+const row = (id: string, createdAt: number, extra: Partial<Session> = {}): Session => ({
+  id,
+  videoPath: `file:///recordings/${id}_session.mp4`,
+  createdAt,
+  ...extra,
+});
+
+describe('session store', () => {
+  it('requires videoPath and createdAt on first insert only', () => {
+    const store = createSessionStore(createMemoryBackend());
+    expect(() => store.upsert({ id: 'a', createdAt: 1 })).toThrow('videoPath required');
+    expect(() => store.upsert({ id: 'a', videoPath: 'x' })).toThrow('createdAt required');
+    store.upsert(row('a', 1));
+    expect(store.upsert({ id: 'a', title: 'hi' })).toMatchObject({ id: 'a', createdAt: 1, title: 'hi' });
+  });
+
+  it('clears keys set to undefined', () => {
+    const store = createSessionStore(createMemoryBackend());
+    store.upsert(row('a', 1, { title: 'hi' }));
+    store.upsert({ id: 'a', title: undefined });
+    expect(store.get('a')?.title).toBeUndefined();
+  });
+
+  it('returns sessions newest first, within [from, to) and up to limit', () => {
+    const store = createSessionStore(createMemoryBackend());
+    [3, 1, 4, 2, 5].forEach((t) => store.upsert(row(`s${t}`, t)));
+    expect(store.query().map((s) => s.id)).toEqual(['s5', 's4', 's3', 's2', 's1']);
+    expect(store.query({ from: 2, to: 5 }).map((s) => s.id)).toEqual(['s4', 's3', 's2']);
+    expect(store.query({ limit: 2 }).map((s) => s.id)).toEqual(['s5', 's4']);
+  });
+
+  it('re-sorts when createdAt changes', () => {
+    const store = createSessionStore(createMemoryBackend());
+    store.upsert(row('a', 1));
+    store.upsert(row('b', 2));
+    store.upsert({ id: 'a', createdAt: 3 });
+    expect(store.query().map((s) => s.id)).toEqual(['a', 'b']);
+  });
+
+  it('keeps the tag and status indexes in step with updates', () => {
+    const store = createSessionStore(createMemoryBackend());
+    store.upsert(row('a', 1, { tags: ['work', 'sleep'], status: 'queued' }));
+    store.upsert(row('b', 2, { tags: ['work'], status: 'done' }));
+
+    expect(store.query({ tag: 'work' }).map((s) => s.id)).toEqual(['b', 'a']);
+    expect(store.query({ tag: 'work', status: 'queued' }).map((s) => s.id)).toEqual(['a']);
+
+    store.upsert({ id: 'a', tags: ['sleep'], status: 'done' });
+    expect(store.query({ tag: 'work' }).map((s) => s.id)).toEqual(['b']);
+    expect(store.query({ status: 'queued' })).toEqual([]);
+    expect(store.query({ status: 'done' }).map((s) => s.id)).toEqual(['b', 'a']);
+    expect(store.query({ tag: 'missing' })).toEqual([]);
+  });
+
+  it('hides soft-deleted rows unless asked, including from tags()', () => {
+    const store = createSessionStore(createMemoryBackend());
+    store.upsert(row('a', 1, { tags: ['gone'] }));
+    store.upsert(row('b', 2, { tags: ['kept'] }));
+    store.upsert({ id: 'a', deletedAt: 10 });
+
+    expect(store.query().map((s) => s.id)).toEqual(['b']);
+    expect(store.query({ includeDeleted: true }).map((s) => s.id)).toEqual(['b', 'a']);
+    expect(store.tags()).toEqual(['kept']);
+  });
+
+  it('removes rows from the backend and every index', () => {
+    const backend = createMemoryBackend();
+    const store = createSessionStore(backend);
+    store.upsert(row('a', 1, { tags: ['t'], status: 'done' }));
+    expect(store.remove('a')).toBe(true);
+    expect(store.remove('a')).toBe(false);
+    expect(store.get('a')).toBeUndefined();
+    expect(store.query({ tag: 't' })).toEqual([]);
+    expect(store.query({ status: 'done' })).toEqual([]);
+    expect(backend.getAllKeys()).toEqual([]);
+  });
+
+  it('rebuilds rows and indexes from the backend on open', () => {
+    const backend = createMemoryBackend();
+    const first = createSessionStore(backend);
+    first.upsert(row('a', 1, { tags: ['t'] }));
+    first.upsert(row('b', 2, { status: 'failed' }));
+    first.setMeta('m', 'v');
+
+    const reopened = createSessionStore(backend);
+    expect(reopened.size()).toBe(2);
+    expect(reopened.query().map((s) => s.id)).toEqual(['b', 'a']);
+    expect(reopened.query({ tag: 't' }).map((s) => s.id)).toEqual(['a']);
+    expect(reopened.query({ status: 'failed' }).map((s) => s.id)).toEqual(['b']);
+    expect(reopened.getMeta('m')).toBe('v');
+  });
+
+  it('drops unreadable rows on open and ignores meta keys', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const backend = createMemoryBackend({
+      'session:bad': '{not json',
+      'session:a': JSON.stringify(row('a', 1)),
+      'meta:x': 'y',
+    });
+    const store = createSessionStore(backend);
+    expect(store.query().map((s) => s.id)).toEqual(['a']);
+    expect(backend.getString('session:bad')).toBeUndefined();
+    expect(backend.getString('meta:x')).toBe('y');
+  });
+});
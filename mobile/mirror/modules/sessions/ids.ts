@@ -0,0 +1,123 @@
+/**
+ * Session ids and the file names derived from them.
+ *
+ * Ids are ULID-style: 10 Crockford base32 characters of the epoch-ms
+ * creation time followed by 16 random ones, so they sort by time, never
+ * depend on the device's time zone and don't collide when two recordings
+ * start in the same second (or the same wall-clock second twice, when DST
+ * falls back). Sessions recorded before this scheme have local-time
+ * `YYYYMMDD_HHMMSS` ids; see `migrateSessionIds` in ./local.
+ *
+ * Every file of a session is `<id><suffix>` in the recordings directory.
+ * Code should use the paths stored on the Session row (or `sessionFilePath`
+ * when creating a file), never rebuild one path from another.
+ */
+
+export const SESSION_FILES = {
+  video: '_session.mp4',
+  audio: '_session.m4a',     // audio-only recordings, instead of the video
+  transcript: '.transcript.json',
+  face: '.face.json',
+  events: '.events.json',
+  debrief: '.debrief.json',
+  thumbnail: '.thumb.jpg',
+  waveform: '.wave.json',
+} as const;
+
+export type SessionFile = keyof typeof SESSION_FILES;
+
+export const sessionFileName = (id: string, kind: SessionFile) => `${id}${SESSION_FILES[kind]}`;
+
+// Containers a video recording is kept in: the recorder writes mp4, videos
+// imported from the photo library keep their own (see modules/library).
+export const VIDEO_EXTENSIONS = ['.mp4', '.mov', '.m4v', '.3gp', '.webm', '.mkv'];
+
+/** `<id>_session<ext>` for a video in `ext`'s container; unknown ones are named mp4. */
+export function videoFileName(id: string, ext: string) {
+  const lower = ext.toLowerCase();
+  return `${id}_session${VIDEO_EXTENSIONS.includes(lower) ? lower : '.mp4'}`;
+}
+
+/** Id and media kind of a recording file (`<id>_session.mp4`, `.mov`, … or `.m4a`). */
+export function recordingOf(name: string): { id: string; mediaKind: 'video' | 'audio' } | null {
+  const m = /^(.+)_session(\.\w+)$/.exec(name);
+  if (!m) return null;
+  if (m[2] === '.m4a') return { id: m[1], mediaKind: 'audio' };
+  return VIDEO_EXTENSIONS.includes(m[2]) ? { id: m[1], mediaKind: 'video' } : null;
+}
+
+const CROCKFORD = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const TIME_CHARS = 10;
+const RANDOM_CHARS = 16;
+const ULID_RE = /^[0-9A-HJKMNP-TV-Z]{26}$/;
+const LEGACY_RE = /^(\d{4})(\d{2})(\d{2})_(\d{2})(\d{2})(\d{2})$/;
+
+function encodeTime(ms: number): string {
+  let out = '';
+  for (let i = 0, t = Math.floor(ms); i < TIME_CHARS; i++, t = Math.floor(t / 32)) out = CROCKFORD[t % 32] + out;
+  return out;
+}
+
+// 16 base32 digits (80 bits), one per 5 bits of `randomBytes(10)`
+function randomDigits(randomBytes: (n: number) => Uint8Array): number[] {
+  const bytes = randomBytes(10);
+  const digits: number[] = [];
+  let acc = 0;
+  let bits = 0;
+  for (const b of bytes) {
+    acc = (acc << 8) | b;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      digits.push((acc >> bits) & 31);
+    }
+    acc &= (1 << bits) - 1;
+  }
+  return digits;
+}
+
+/** A new id for a session created at `ms`. */
+export function sessionIdAt(ms: number, randomBytes: (n: number) => Uint8Array): string {
+  return encodeTime(ms) + randomDigits(randomBytes).map((d) => CROCKFORD[d]).join('');
+}
+
+/**
+ * Id generator that stays strictly increasing within the process: a second
+ * id in the same millisecond (or after the clock stepped back) reuses the
+ * last time and increments the random part.
+ */
+export function createSessionIdFactory(randomBytes: (n: number) => Uint8Array) {
+  let lastMs = -1;
+  let last: number[] = [];
+  return (ms = Date.now()): string => {
+    if (ms > lastMs) {
+      lastMs = ms;
+      last = randomDigits(randomBytes);
+    } else {
+      let i = RANDOM_CHARS - 1;
+      while (i >= 0 && last[i] === 31) last[i--] = 0;
+      if (i < 0) throw new Error('sessionId: random part overflow');
+      last[i]++;
+    }
+    return encodeTime(lastMs) + last.map((d) => CROCKFORD[d]).join('');
+  };
+}
+
+export const isLegacyId = (id: string) => LEGACY_RE.test(id);
+
+/**
+ * Creation time encoded in an id: exact for ULID-style ids, device-local
+ * wall-clock time (interpreted in the current zone) for legacy ones.
+ */
+export function createdAtFromId(id: string): number | null {
+  if (ULID_RE.test(id)) {
+    let ms = 0;
+    for (const c of id.slice(0, TIME_CHARS)) ms = ms * 32 + CROCKFORD.indexOf(c);
+    return ms;
+  }
+  const m = LEGACY_RE.exec(id);
+  if (!m) return null;
+  const [, y, mo, d, h, mi, s] = m.map(Number);
+  const date = new Date(y, mo - 1, d, h, mi, s);
+  return Number.isNaN(date.getTime()) ? null : date.getTime();
+}
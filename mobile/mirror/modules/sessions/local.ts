@@ -1,18 +1,97 @@
 import * as FileSystem from 'expo-file-system';
+import * as Crypto from 'expo-crypto';
+import { MMKV } from 'react-native-mmkv';
+import { createSessionIdFactory, isLegacyId, sessionFileName, sessionIdAt, type SessionFile } from './ids';
+import {
+  createSessionStore,
+  type KVBackend,
+  type SessionQuery,
+  type SessionStore,
+} from './store';
+
+export { createMemoryBackend, type SessionQuery } from './store';
 
 export type DevicePos = 'front' | 'back';
 
+// Post-recording pipeline, see modules/processing/queue.ts
+export type ProcessingStage = 'persist' | 'transcribe' | 'analyze' | 'sync';
+export type ProcessingStatus = 'queued' | 'processing' | 'done' | 'failed';
+
+// Opt-in server sync, see modules/sync/upload.ts
+export type UploadPart = {
+  remoteId: string;          // server session_id
+  uploadId: string;
+  size: number;
+  bytesSent: number;
+  complete: boolean;
+  finalPath?: string;
+};
+
+export type UploadState = {
+  serverUrl: string;
+  video?: UploadPart;
+  transcript?: UploadPart;
+  completedAt?: number;
+  lastError?: string;
+};
+
+// Audio-only sessions have no camera track, so no face series or poster
+export type MediaKind = 'video' | 'audio';
+
+export type Mood = 'great' | 'good' | 'okay' | 'low' | 'rough';
+export const MOODS: Mood[] = ['great', 'good', 'okay', 'low', 'rough'];
+
 export type Session = {
-  id: string;                // e.g. 20250904_172516
-  videoPath: string;         // file://…/recordings/<id>_session.mp4
+  id: string;                // ULID-style, see ./ids (older rows: 20250904_172516)
+  videoPath: string;         // the recording: file://…/recordings/<id>_session.mp4 (or .m4a, or an import's .mov, …)
+  mediaKind?: MediaKind;     // undefined for video
   createdAt: number;         // epoch ms
   durationMs?: number;
   devicePosition?: DevicePos;
   transcriptPath?: string;   // file://…/recordings/<id>.transcript.json
+  facePath?: string;         // file://…/recordings/<id>.face.json
+  eventsPath?: string;       // file://…/recordings/<id>.events.json
+  debriefPath?: string;      // file://…/recordings/<id>.debrief.json
+  thumbnailPath?: string;    // file://…/recordings/<id>.thumb.jpg
+  waveformPath?: string;     // file://…/recordings/<id>.wave.json (audio only)
+  status?: ProcessingStatus; // undefined for sessions recorded before the queue
+  stage?: ProcessingStage;   // stage currently queued/running (or that failed)
+  processingError?: string;
+  title?: string;
+  notes?: string;
+  tags?: string[];
+  mood?: Mood;
+  promptId?: string;         // journaling template it was recorded with, see modules/prompts
+  libraryAssetId?: string;   // photo library video it was imported from, see modules/library
+  importedAt?: number;       // epoch ms it was imported; retention counts from here, not createdAt
+  deletedAt?: number;        // soft-deleted, files removed after the undo window
+  upload?: UploadState;
 };
 
 export const RECORDINGS_DIR = `${FileSystem.documentDirectory}recordings`;
+
+/** Where a session's file of `kind` is created. Existing files: use the row's path. */
+export const sessionFilePath = (id: string, kind: SessionFile) => `${RECORDINGS_DIR}/${sessionFileName(id, kind)}`;
+
+// Row field holding the path of each kind of file
+export const SESSION_PATH_FIELDS = {
+  video: 'videoPath',
+  audio: 'videoPath',
+  transcript: 'transcriptPath',
+  face: 'facePath',
+  events: 'eventsPath',
+  debrief: 'debriefPath',
+  thumbnail: 'thumbnailPath',
+  waveform: 'waveformPath',
+} as const satisfies Record<SessionFile, keyof Session>;
+
+/** Id for a session created now (or at `ms`); unique and increasing. */
+export const newSessionId = createSessionIdFactory(Crypto.getRandomBytes);
+/** Id for a session that happened at `ms` in the past, e.g. an imported video. */
+export const sessionIdFor = (ms: number) => sessionIdAt(ms, Crypto.getRandomBytes);
+// Legacy store, imported once into MMKV then renamed
 const INDEX_PATH = `${RECORDINGS_DIR}/index.json`;
+const MIGRATED_INDEX_PATH = `${RECORDINGS_DIR}/index.migrated.json`;
 
 async function ensureDir() {
   const info = await FileSystem.getInfoAsync(RECORDINGS_DIR);
@@ -26,24 +105,50 @@ async function fileExists(path: string) {
   return info.exists;
 }
 
-async function readIndex(): Promise<Session[]> {
+let store: SessionStore | null = null;
+let opening: Promise<SessionStore> | null = null;
+
+/**
+ * Use a different backend (e.g. `createMemoryBackend()` in tests).
+ * Must be called before the first session call.
+ */
+export function setSessionBackend(backend: KVBackend) {
+  store = createSessionStore(backend);
+  opening = Promise.resolve(store);
+}
+
+async function migrateIndexJson(s: SessionStore) {
+  if (s.getMeta('indexJsonMigrated')) return;
   await ensureDir();
-  if (!(await fileExists(INDEX_PATH))) {
-    await FileSystem.writeAsStringAsync(INDEX_PATH, '[]');
-    return [];
-  }
-  try {
-    const raw = await FileSystem.readAsStringAsync(INDEX_PATH);
-    const arr = JSON.parse(raw) as Session[];
-    return Array.isArray(arr) ? arr : [];
-  } catch {
-    return [];
+  if (await fileExists(INDEX_PATH)) {
+    try {
+      const arr = JSON.parse(await FileSystem.readAsStringAsync(INDEX_PATH)) as Session[];
+      let imported = 0;
+      for (const row of Array.isArray(arr) ? arr : []) {
+        if (!row?.id || !row.videoPath || !row.createdAt) continue;
+        s.upsert({ ...row, ...s.get(row.id) });
+        imported++;
+      }
+      await FileSystem.moveAsync({ from: INDEX_PATH, to: MIGRATED_INDEX_PATH });
+      console.log(`[Sessions] migrated ${imported} rows from index.json`);
+    } catch (e) {
+      // leave the file in place; we'll try again next launch
+      console.warn('[Sessions] index.json migration failed:', e);
+      return;
+    }
   }
+  s.setMeta('indexJsonMigrated', String(Date.now()));
 }
 
-async function writeIndex(list: Session[]) {
-  await ensureDir();
-  await FileSystem.writeAsStringAsync(INDEX_PATH, JSON.stringify(list, null, 2));
+async function openStore(): Promise<SessionStore> {
+  if (store) return store;
+  opening ??= (async () => {
+    const s = createSessionStore(new MMKV({ id: 'sessions' }));
+    await migrateIndexJson(s);
+    store = s;
+    return s;
+  })();
+  return opening;
 }
 
 /**
@@ -53,45 +158,213 @@ async function writeIndex(list: Session[]) {
 export async function addSession(
   update: Partial<Session> & { id: string }
 ): Promise<Session> {
-  const list = await readIndex();
-  const i = list.findIndex((s) => s.id === update.id);
-
-  if (i === -1) {
-    if (!update.videoPath) throw new Error('addSession: videoPath required on first insert');
-    if (!update.createdAt) throw new Error('addSession: createdAt required on first insert');
-
-    const created: Session = {
-      id: update.id,
-      videoPath: update.videoPath,
-      createdAt: update.createdAt,
-      durationMs: update.durationMs,
-      devicePosition: update.devicePosition,
-      transcriptPath: update.transcriptPath,
-    };
-    list.push(created);
-    await writeIndex(list);
-    return created;
-  } else {
-    const merged: Session = { ...list[i], ...update };
-    list[i] = merged;
-    await writeIndex(list);
-    return merged;
+  return (await openStore()).upsert(update);
+}
+
+/** Insert a new session; unlike `addSession` it refuses to merge into an existing id. */
+export async function createSession(row: Session): Promise<Session> {
+  const s = await openStore();
+  if (s.get(row.id)) throw new Error(`createSession: session ${row.id} already exists`);
+  return s.upsert(row);
+}
+
+export async function getSession(id: string): Promise<Session | undefined> {
+  return (await openStore()).get(id);
+}
+
+/** Newest first. Without a query, returns every session. */
+export async function listSessions(query?: SessionQuery): Promise<Session[]> {
+  return (await openStore()).query(query);
+}
+
+export async function listTags(): Promise<string[]> {
+  return (await openStore()).tags();
+}
+
+// The MP4 is only copied into place by the queue's persist stage.
+const awaitingPersist = (s: Session) => s.stage === 'persist' && s.status !== 'failed';
+
+/**
+ * Drop rows whose video file no longer exists. This stats every file, so it
+ * runs once on launch rather than on every listing.
+ */
+export async function pruneMissingSessions(): Promise<string[]> {
+  const s = await openStore();
+  const removed: string[] = [];
+  for (const row of s.query({ includeDeleted: true })) {
+    if (awaitingPersist(row) || (await fileExists(row.videoPath))) continue;
+    s.remove(row.id);
+    removed.push(row.id);
   }
+  return removed;
 }
 
-export async function listSessions(): Promise<Session[]> {
-  const list = await readIndex();
+// ---- editing & deletion -----------------------------------------------------
+
+export type SessionMeta = Pick<Session, 'title' | 'notes' | 'tags' | 'mood'>;
 
-  // prune entries whose video file no longer exists
-  const pruned: Session[] = [];
-  for (const s of list) {
-    if (await fileExists(s.videoPath)) pruned.push(s);
+export function normalizeTags(tags: string[]): string[] {
+  const out = tags.map((t) => t.trim().toLowerCase().replace(/^#/, '')).filter(Boolean);
+  return [...new Set(out)];
+}
+
+/** Update user-editable fields. Empty strings / arrays clear the field. */
+export async function updateSessionMeta(id: string, meta: SessionMeta): Promise<Session> {
+  const s = await openStore();
+  if (!s.get(id)) throw new Error(`updateSessionMeta: no session ${id}`);
+
+  const patch: Partial<Session> & { id: string } = { id };
+  if ('title' in meta) patch.title = meta.title?.trim() || undefined;
+  if ('notes' in meta) patch.notes = meta.notes?.trim() || undefined;
+  if ('tags' in meta) {
+    const tags = normalizeTags(meta.tags ?? []);
+    patch.tags = tags.length ? tags : undefined;
   }
-  if (pruned.length !== list.length) {
-    await writeIndex(pruned);
+  if ('mood' in meta) patch.mood = meta.mood;
+  return s.upsert(patch);
+}
+
+export const DELETE_UNDO_MS = 6_000;
+const purgeTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+/**
+ * Remove the MP4, transcript and every derived `<id>.*` / `<id>_*` file,
+ * then the row itself.
+ */
+async function purgeSession(id: string) {
+  purgeTimers.delete(id);
+  const s = await openStore();
+  const row = s.get(id);
+  if (!row?.deletedAt) return; // undone meanwhile
+
+  const paths = new Set(Object.values(SESSION_PATH_FIELDS).flatMap((field) => row[field] ?? []));
+  if (await fileExists(RECORDINGS_DIR)) {
+    for (const name of await FileSystem.readDirectoryAsync(RECORDINGS_DIR)) {
+      if (name.startsWith(`${id}.`) || name.startsWith(`${id}_`)) paths.add(`${RECORDINGS_DIR}/${name}`);
+    }
   }
+  for (const p of paths) {
+    await FileSystem.deleteAsync(p, { idempotent: true });
+  }
+  s.remove(id);
+}
+
+/**
+ * Soft-delete a session: it disappears from listings at once and its files
+ * are removed after `undoMs` unless `undo()` is called first.
+ */
+export async function deleteSession(
+  id: string,
+  opts: { undoMs?: number } = {}
+): Promise<{ undo: () => Promise<void> }> {
+  const s = await openStore();
+  if (!s.get(id)) throw new Error(`deleteSession: no session ${id}`);
+  s.upsert({ id, deletedAt: Date.now() });
+
+  const timer = setTimeout(() => {
+    purgeSession(id).catch((e) => console.warn('[Sessions] purge failed:', e));
+  }, opts.undoMs ?? DELETE_UNDO_MS);
+  purgeTimers.set(id, timer);
 
-  // newest first
-  pruned.sort((a, b) => b.createdAt - a.createdAt);
-  return pruned;
+  return {
+    undo: async () => {
+      clearTimeout(purgeTimers.get(id));
+      purgeTimers.delete(id);
+      s.upsert({ id, deletedAt: undefined });
+    },
+  };
+}
+
+/**
+ * Finish deletes whose undo window ran out while the app was not running.
+ * Called on launch.
+ */
+export async function purgeDeletedSessions(): Promise<string[]> {
+  const s = await openStore();
+  const due = s
+    .query({ includeDeleted: true })
+    .filter((row) => row.deletedAt && !purgeTimers.has(row.id) && Date.now() - row.deletedAt >= DELETE_UNDO_MS);
+  for (const row of due) await purgeSession(row.id);
+  return due.map((row) => row.id);
+}
+
+/**
+ * Retention: delete recordings (and everything derived from them) older than
+ * `keepDays`. 0 keeps everything. Called on launch.
+ */
+export async function expireOldSessions(keepDays: number, now = Date.now()): Promise<string[]> {
+  if (keepDays <= 0) return [];
+  const s = await openStore();
+  const cutoff = now - keepDays * 24 * 60 * 60 * 1000;
+  // an old video imported today is kept for keepDays from its import
+  const due = s.query({ to: cutoff }).filter((row) => (row.importedAt ?? row.createdAt) < cutoff);
+  for (const row of due) {
+    s.upsert({ id: row.id, deletedAt: now });
+    await purgeSession(row.id);
+  }
+  if (due.length) console.log(`[Sessions] retention removed ${due.length} recordings`);
+  return due.map((row) => row.id);
+}
+
+// ---- id migration -----------------------------------------------------------
+
+const RENAME_META = 'idRename';
+
+type Rename = { from: string; to: string };
+
+// …/<from>.transcript.json -> …/<to>.transcript.json
+function renamedPath(path: string, { from, to }: Rename) {
+  const slash = path.lastIndexOf('/') + 1;
+  const name = path.slice(slash);
+  return name.startsWith(from) ? path.slice(0, slash) + to + name.slice(from.length) : path;
+}
+
+async function finishRename(s: SessionStore, rename: Rename) {
+  const { from, to } = rename;
+  const old = s.get(from);
+  if (old && !s.get(to)) {
+    const row: Session = { ...old, id: to };
+    for (const field of Object.values(SESSION_PATH_FIELDS)) {
+      if (row[field]) row[field] = renamedPath(row[field], rename);
+    }
+    s.upsert(row);
+  }
+  if (await fileExists(RECORDINGS_DIR)) {
+    for (const name of await FileSystem.readDirectoryAsync(RECORDINGS_DIR)) {
+      if (!name.startsWith(`${from}.`) && !name.startsWith(`${from}_`)) continue;
+      await FileSystem.moveAsync({
+        from: `${RECORDINGS_DIR}/${name}`,
+        to: `${RECORDINGS_DIR}/${to}${name.slice(from.length)}`,
+      });
+    }
+  }
+  s.remove(from);
+  s.setMeta(RENAME_META, '');
+}
+
+/**
+ * Give sessions with legacy local-time ids (`YYYYMMDD_HHMMSS`, which could
+ * collide) a ULID-style id and rename their files to match. The pair being
+ * renamed is recorded first, so a rename cut short by an app kill is
+ * finished on the next launch. Sessions the queue is still working on wait
+ * for a later launch. Called on launch; returns how many were renamed (the
+ * search index is keyed by id and needs a rebuild afterwards).
+ */
+export async function migrateSessionIds(): Promise<number> {
+  const s = await openStore();
+  let renamed = 0;
+  const pending = s.getMeta(RENAME_META);
+  if (pending) {
+    await finishRename(s, JSON.parse(pending) as Rename);
+    renamed++;
+  }
+  for (const row of s.query({ includeDeleted: true })) {
+    if (!isLegacyId(row.id) || row.deletedAt || row.status === 'queued' || row.status === 'processing') continue;
+    const rename = { from: row.id, to: sessionIdFor(row.createdAt) };
+    s.setMeta(RENAME_META, JSON.stringify(rename));
+    await finishRename(s, rename);
+    renamed++;
+  }
+  if (renamed) console.log(`[Sessions] gave ${renamed} sessions new ids`);
+  return renamed;
 }
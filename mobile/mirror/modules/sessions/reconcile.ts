@@ -0,0 +1,136 @@
+import * as FileSystem from 'expo-file-system';
+import { enqueueSession } from '../processing/queue';
+import { checkFile, isVaultScratch, type FileCheck } from '../vault/vault';
+import { createdAtFromId, recordingOf, SESSION_FILES } from './ids';
+import {
+  addSession,
+  listSessions,
+  RECORDINGS_DIR,
+  SESSION_PATH_FIELDS,
+  type Session,
+} from './local';
+
+/**
+ * Brings the session store and recordings/ back in line after crashes,
+ * manual file copies or lost rows:
+ *
+ * - `<id>_session.mp4` (or `.mov`, `.m4a`, …) without a row gets its row rebuilt from the file name,
+ *   and is queued for processing if it has no transcript;
+ * - derived files (`<id>.transcript.json`, …) are linked to rows that lost
+ *   the path, and paths to files that are gone are unlinked;
+ * - empty or truncated files are flagged (a damaged recording marks its
+ *   session failed);
+ * - files that belong to no session and have no video are reported as
+ *   orphans for the user to delete.
+ *
+ * Runs on launch (cheap size/layout checks) and on demand from Settings with
+ * `deep`, which also authenticates the end of every encrypted file.
+ */
+
+const DERIVED = (Object.keys(SESSION_FILES) as (keyof typeof SESSION_FILES)[])
+  .filter((kind) => kind !== 'video' && kind !== 'audio')
+  .map((kind) => ({ suffix: SESSION_FILES[kind], field: SESSION_PATH_FIELDS[kind] }));
+// app-wide files that live next to the recordings
+const IGNORED = new Set(['.import', '.library-import', 'jobs.json', 'index.json', 'index.migrated.json', 'search.index.json']);
+
+export type ReconcileReport = {
+  scanned: number;
+  restored: string[];                          // session ids rebuilt from a recording file
+  linked: string[];                            // "<id>.<field>" re-attached
+  unlinked: string[];                          // "<id>.<field>" pointing at a missing file
+  damaged: { name: string; problem: FileCheck }[];
+  orphans: string[];                           // file names owned by no session
+};
+
+function ownerOf(name: string, ids: string[]) {
+  return ids.find((id) => name.startsWith(`${id}.`) || name.startsWith(`${id}_`));
+}
+
+export async function reconcileRecordings(opts: { deep?: boolean } = {}): Promise<ReconcileReport> {
+  const report: ReconcileReport = { scanned: 0, restored: [], linked: [], unlinked: [], damaged: [], orphans: [] };
+  if (!(await FileSystem.getInfoAsync(RECORDINGS_DIR)).exists) return report;
+
+  const names = (await FileSystem.readDirectoryAsync(RECORDINGS_DIR)).filter(
+    (n) => !IGNORED.has(n) && !isVaultScratch(n)
+  );
+  report.scanned = names.length;
+  const present = new Set(names);
+  const rows = new Map((await listSessions({ includeDeleted: true })).map((s) => [s.id, s]));
+  const checks = new Map<string, FileCheck>();
+  for (const name of names) {
+    const check = await checkFile(`${RECORDINGS_DIR}/${name}`, opts);
+    checks.set(name, check);
+    if (check !== 'ok') report.damaged.push({ name, problem: check });
+  }
+
+  // 1. recordings without a row
+  for (const name of names) {
+    const recording = recordingOf(name);
+    if (!recording || rows.has(recording.id) || checks.get(name) !== 'ok') continue;
+    const { id, mediaKind } = recording;
+    const videoPath = `${RECORDINGS_DIR}/${name}`;
+    const modified = (await FileSystem.getInfoAsync(videoPath)) as { modificationTime?: number };
+    const createdAt = createdAtFromId(id) ?? (modified.modificationTime ? modified.modificationTime * 1000 : Date.now());
+    const row = await addSession({
+      id,
+      videoPath,
+      createdAt,
+      status: 'done',
+      ...(mediaKind === 'audio' && { mediaKind }),
+    });
+    rows.set(id, row);
+    report.restored.push(id);
+  }
+
+  // 2. derived files ↔ row paths, and damaged recordings
+  for (const row of rows.values()) {
+    if (row.deletedAt) continue;
+    const patch: Partial<Session> & { id: string } = { id: row.id };
+    for (const { suffix, field } of DERIVED) {
+      const name = `${row.id}${suffix}`;
+      if (!row[field] && present.has(name) && checks.get(name) === 'ok') {
+        patch[field] = `${RECORDINGS_DIR}/${name}`;
+        report.linked.push(`${row.id}.${field}`);
+      } else if (row[field] && !present.has(row[field]!.split('/').pop()!)) {
+        patch[field] = undefined;
+        report.unlinked.push(`${row.id}.${field}`);
+      }
+    }
+    const video = row.videoPath.split('/').pop()!;
+    const videoCheck = checks.get(video);
+    // a row still at the persist stage is being copied by the queue
+    if (videoCheck && videoCheck !== 'ok' && row.stage !== 'persist' && row.status !== 'failed') {
+      patch.status = 'failed';
+      patch.processingError = `Recording file is ${videoCheck}`;
+    }
+    if (Object.keys(patch).length > 1) rows.set(row.id, await addSession(patch));
+  }
+
+  // 3. restored rows with no transcript go through the pipeline
+  for (const id of report.restored) {
+    if (!rows.get(id)?.transcriptPath) {
+      await enqueueSession(id).catch((e) => console.warn(`[Reconcile] could not queue ${id}:`, e));
+    }
+  }
+
+  // 4. files nobody owns
+  const ids = [...rows.keys()];
+  report.orphans = names.filter((n) => !ownerOf(n, ids));
+
+  const fixed = report.restored.length + report.linked.length + report.unlinked.length;
+  if (fixed || report.damaged.length || report.orphans.length) {
+    console.log(
+      `[Reconcile] restored ${report.restored.length}, linked ${report.linked.length}, unlinked ${report.unlinked.length}, ` +
+        `damaged ${report.damaged.length}, orphans ${report.orphans.length}`
+    );
+  }
+  return report;
+}
+
+/** Delete files listed as orphans by `reconcileRecordings`. */
+export async function deleteOrphans(names: string[]): Promise<void> {
+  for (const name of names) {
+    if (name.includes('/')) continue;
+    await FileSystem.deleteAsync(`${RECORDINGS_DIR}/${name}`, { idempotent: true });
+  }
+}
@@ -0,0 +1,175 @@
+import type { ProcessingStatus, Session } from './local';
+
+/**
+ * Session repository over a synchronous key-value backend (MMKV on device,
+ * a Map in tests).
+ *
+ * Every session is one key, so each write is atomic. Mutations run
+ * synchronously against the in-memory copy and the backend, which means two
+ * upserts can never interleave and lose each other's fields — the race the
+ * old read/rewrite of index.json had. Secondary indexes (createdAt order,
+ * tag, status) are kept in memory and rebuilt from the backend on open.
+ */
+
+export type KVBackend = {
+  getString(key: string): string | undefined;
+  set(key: string, value: string): void;
+  delete(key: string): void;
+  getAllKeys(): string[];
+};
+
+export function createMemoryBackend(seed?: Record<string, string>): KVBackend {
+  const map = new Map(Object.entries(seed ?? {}));
+  return {
+    getString: (k) => map.get(k),
+    set: (k, v) => {
+      map.set(k, v);
+    },
+    delete: (k) => {
+      map.delete(k);
+    },
+    getAllKeys: () => [...map.keys()],
+  };
+}
+
+export type SessionQuery = {
+  from?: number;               // createdAt >= from (epoch ms)
+  to?: number;                 // createdAt < to
+  tag?: string;
+  status?: ProcessingStatus;
+  limit?: number;
+  includeDeleted?: boolean;    // soft-deleted rows are hidden by default
+};
+
+const SESSION_PREFIX = 'session:';
+const keyOf = (id: string) => `${SESSION_PREFIX}${id}`;
+
+export type SessionStore = ReturnType<typeof createSessionStore>;
+
+export function createSessionStore(backend: KVBackend) {
+  const byId = new Map<string, Session>();
+  const byTag = new Map<string, Set<string>>();
+  const byStatus = new Map<ProcessingStatus, Set<string>>();
+  let ordered: Session[] = []; // newest first
+  let orderDirty = true;
+
+  const addTo = <K>(idx: Map<K, Set<string>>, k: K, id: string) => {
+    let set = idx.get(k);
+    if (!set) idx.set(k, (set = new Set()));
+    set.add(id);
+  };
+
+  function unindex(s: Session) {
+    s.tags?.forEach((t) => byTag.get(t)?.delete(s.id));
+    if (s.status) byStatus.get(s.status)?.delete(s.id);
+  }
+
+  function index(s: Session) {
+    s.tags?.forEach((t) => addTo(byTag, t, s.id));
+    if (s.status) addTo(byStatus, s.status, s.id);
+  }
+
+  function put(s: Session) {
+    const prev = byId.get(s.id);
+    if (prev) unindex(prev);
+    byId.set(s.id, s);
+    index(s);
+    orderDirty = true;
+  }
+
+  for (const key of backend.getAllKeys()) {
+    if (!key.startsWith(SESSION_PREFIX)) continue;
+    try {
+      const s = JSON.parse(backend.getString(key) ?? '') as Session;
+      if (s?.id) put(s);
+    } catch {
+      console.warn('[SessionStore] dropping unreadable row', key);
+      backend.delete(key);
+    }
+  }
+
+  function sorted() {
+    if (orderDirty) {
+      ordered = [...byId.values()].sort((a, b) => b.createdAt - a.createdAt);
+      orderDirty = false;
+    }
+    return ordered;
+  }
+
+  return {
+    get(id: string): Session | undefined {
+      return byId.get(id);
+    },
+
+    /**
+     * Upsert by id. On first insert, `videoPath` and `createdAt` are required;
+     * later calls merge over the stored row. Keys explicitly set to
+     * `undefined` are cleared.
+     */
+    upsert(update: Partial<Session> & { id: string }): Session {
+      const prev = byId.get(update.id);
+      if (!prev) {
+        if (!update.videoPath) throw new Error('addSession: videoPath required on first insert');
+        if (!update.createdAt) throw new Error('addSession: createdAt required on first insert');
+      }
+      const merged = { ...prev, ...update } as Session;
+      backend.set(keyOf(merged.id), JSON.stringify(merged));
+      put(merged);
+      return merged;
+    },
+
+    remove(id: string): boolean {
+      const prev = byId.get(id);
+      if (!prev) return false;
+      backend.delete(keyOf(id));
+      unindex(prev);
+      byId.delete(id);
+      orderDirty = true;
+      return true;
+    },
+
+    /** Newest first. */
+    query(q: SessionQuery = {}): Session[] {
+      let ids: Set<string> | null = null;
+      const narrow = (set: Set<string> | undefined) => {
+        const next = new Set<string>();
+        set?.forEach((id) => {
+          if (!ids || ids.has(id)) next.add(id);
+        });
+        ids = next;
+      };
+      if (q.tag != null) narrow(byTag.get(q.tag));
+      if (q.status != null) narrow(byStatus.get(q.status));
+
+      const out: Session[] = [];
+      for (const s of sorted()) {
+        if (q.to != null && s.createdAt >= q.to) continue;
+        if (q.from != null && s.createdAt < q.from) break; // sorted newest first
+        if (ids && !(ids as Set<string>).has(s.id)) continue;
+        if (s.deletedAt && !q.includeDeleted) continue;
+        out.push(s);
+        if (q.limit != null && out.length >= q.limit) break;
+      }
+      return out;
+    },
+
+    tags(): string[] {
+      return [...byTag.entries()]
+        .filter(([, ids]) => [...ids].some((id) => !byId.get(id)?.deletedAt))
+        .map(([t]) => t)
+        .sort();
+    },
+
+    size(): number {
+      return byId.size;
+    },
+
+    getMeta(key: string): string | undefined {
+      return backend.getString(`meta:${key}`);
+    },
+
+    setMeta(key: string, value: string) {
+      backend.set(`meta:${key}`, value);
+    },
+  };
+}
@@ -0,0 +1,132 @@
+import { useSyncExternalStore } from 'react';
+import { MMKV } from 'react-native-mmkv';
+import { z } from 'zod';
+
+/**
+ * App settings: one zod-validated document in MMKV. Every field has a
+ * default, and a field that fails validation (e.g. left over from an older
+ * build) falls back to it without losing the rest, so `getSettings()` always
+ * returns a complete, valid object.
+ *
+ * Modules read their section with `getSettings().<section>`; screens use
+ * `useSettings()` to re-render on change.
+ */
+
+export const VIDEO_QUALITIES = ['low', 'medium', 'high'] as const;
+export const MAX_LENGTH_CHOICES_MS = [0, 2 * 60_000, 5 * 60_000, 10 * 60_000, 20 * 60_000]; // 0 = no limit
+export const RETENTION_CHOICES_DAYS = [0, 30, 90, 365]; // 0 = keep forever
+
+const RecordingSchema = z.object({
+  cameraPosition: z.enum(['front', 'back']),
+  maxLengthMs: z.number().int().nonnegative(),
+  countdown: z.boolean(),                       // 3-2-1 before capture starts
+  audioOnly: z.boolean(),                       // record the mic only, no camera
+  quality: z.enum(VIDEO_QUALITIES),
+});
+
+const AsrSchema = z.object({
+  engine: z.enum(['stub', 'whisper']),
+});
+
+const SyncSchema = z.object({
+  enabled: z.boolean(),
+  serverUrl: z.string().refine((u) => u === '' || /^https?:\/\/\S+$/.test(u), 'must be an http(s) URL'),
+});
+
+const LockSchema = z.object({
+  enabled: z.boolean(),
+  biometrics: z.boolean(),
+  idleTimeoutMs: z.number().int().positive(),   // auto-lock after this long without a touch
+  recordOnly: z.boolean(),                      // while locked, still allow the Record tab
+});
+
+const RetentionSchema = z.object({
+  keepDays: z.number().int().nonnegative(),     // delete recordings older than this; 0 = never
+});
+
+const SECTIONS = {
+  recording: RecordingSchema,
+  asr: AsrSchema,
+  sync: SyncSchema,        // off unless the user turns it on
+  lock: LockSchema,
+  retention: RetentionSchema,
+};
+
+export type Settings = { [K in keyof typeof SECTIONS]: z.infer<(typeof SECTIONS)[K]> };
+export type SettingsSection = keyof Settings;
+export type VideoQuality = Settings['recording']['quality'];
+
+export const DEFAULT_SETTINGS: Settings = {
+  recording: { cameraPosition: 'back', maxLengthMs: 0, countdown: false, audioOnly: false, quality: 'high' },
+  asr: { engine: 'stub' },
+  sync: { enabled: false, serverUrl: '' },
+  lock: { enabled: false, biometrics: true, idleTimeoutMs: 60_000, recordOnly: false },
+  retention: { keepDays: 0 },
+};
+
+/** Keep every stored field that validates; the rest fall back to defaults. */
+function coerce(input: unknown): Settings {
+  const out = JSON.parse(JSON.stringify(DEFAULT_SETTINGS)) as Record<SettingsSection, Record<string, unknown>>;
+  const stored = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  for (const section of Object.keys(SECTIONS) as SettingsSection[]) {
+    const values = stored[section];
+    if (!values || typeof values !== 'object') continue;
+    for (const [key, field] of Object.entries(SECTIONS[section].shape)) {
+      const parsed = (field as z.ZodType).safeParse((values as Record<string, unknown>)[key]);
+      if (parsed.success) out[section][key] = parsed.data;
+    }
+  }
+  return out as Settings;
+}
+
+const storage = new MMKV({ id: 'settings' });
+const KEY = 'settings';
+
+let current: Settings | null = null;
+const listeners = new Set<() => void>();
+
+function load(): Settings {
+  const raw = storage.getString(KEY);
+  let input: unknown = {};
+  if (raw) {
+    try {
+      input = JSON.parse(raw);
+    } catch (e) {
+      console.warn('[Settings] unreadable, using defaults:', e);
+    }
+  }
+  const settings = coerce(input);
+  if (!raw) storage.set(KEY, JSON.stringify(settings));
+  return settings;
+}
+
+export function getSettings(): Settings {
+  current ??= load();
+  return current;
+}
+
+/**
+ * Merge `patch` into one section, validate and persist. Throws on values the
+ * schema rejects rather than silently replacing them with defaults.
+ */
+export function updateSettings<K extends SettingsSection>(section: K, patch: Partial<Settings[K]>): Settings {
+  const merged = { ...getSettings(), [section]: { ...getSettings()[section], ...patch } };
+  const parsed = SECTIONS[section].safeParse(merged[section]);
+  if (!parsed.success) throw new Error(`updateSettings: ${z.prettifyError(parsed.error)}`);
+  current = { ...merged, [section]: parsed.data };
+  storage.set(KEY, JSON.stringify(current));
+  listeners.forEach((fn) => fn());
+  return current;
+}
+
+/** Subscribe to settings changes; returns the unsubscribe function. */
+export function onSettingsChange(fn: () => void): () => void {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+export function useSettings(): Settings {
+  return useSyncExternalStore(onSettingsChange, getSettings);
+}
@@ -0,0 +1,205 @@
+/**
+ * @jest-environment node
+ */
+import { randomBytes } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import type { UploadPart } from '../../sessions/local';
+import { CHUNK_SIZE, SyncError, uploadFile } from '../upload';
+
+// the vault's File API, over the real file system
+jest.mock('expo-file-system/next', () => {
+  const fs = jest.requireActual<typeof import('fs')>('fs');
+  class File {
+    private readonly path: string;
+    constructor(uri: string) {
+      this.path = uri.replace(/^file:\/\//, '');
+    }
+    get exists() {
+      return fs.existsSync(this.path);
+    }
+    get size() {
+      return fs.statSync(this.path).size;
+    }
+    open() {
+      const fd = fs.openSync(this.path, 'r');
+      return {
+        offset: 0,
+        readBytes(n: number) {
+          const buf = Buffer.alloc(n);
+          const read = fs.readSync(fd, buf, 0, n, this.offset);
+          this.offset += read;
+          return new Uint8Array(buf.buffer, buf.byteOffset, read);
+        },
+        close: () => fs.closeSync(fd),
+      };
+    }
+  }
+  return { File };
+});
+jest.mock('../../sessions/local', () => ({}));
+jest.mock('../config', () => ({}));
+jest.mock('../../vault/vault', () => ({}));
+
+/** The upload API of backend/app/main.py, in memory. */
+type Upload = { uploadId: string; size: number; data: Buffer; status: 'uploading' | 'complete' };
+
+function mockServer() {
+  const uploads = new Map<string, Upload>();
+  // dropNextChunkResponse: store a chunk but fail the request, as if the response was lost
+  // staleStatus: report nothing received on the next status check
+  const faults = { dropNextChunkResponse: false, staleStatus: false };
+  let ids = 0;
+
+  const send = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  async function handle(req: IncomingMessage, res: ServerResponse) {
+    const chunks: Buffer[] = [];
+    for await (const c of req) chunks.push(c as Buffer);
+    const body = Buffer.concat(chunks);
+    const [, id, action] = /^\/v1\/sessions\/([^/]+)(?:\/(.+))?$/.exec(req.url ?? '') ?? [];
+
+    if (req.method === 'POST' && id === 'start') {
+      const { size } = JSON.parse(body.toString());
+      const sid = `s${++ids}`;
+      uploads.set(sid, { uploadId: `u${ids}`, size, data: Buffer.alloc(0), status: 'uploading' });
+      return send(res, 200, { session_id: sid, upload_id: `u${ids}` });
+    }
+    const up = uploads.get(id);
+    if (!up) return send(res, 404, { detail: 'session not found' });
+
+    if (req.method === 'GET' && !action) {
+      const received = faults.staleStatus ? 0 : up.data.length;
+      faults.staleStatus = false;
+      return send(res, 200, { status: up.status, size: up.status === 'complete' ? up.data.length : up.size, bytes_received: received });
+    }
+    if (req.method === 'POST' && action === 'upload-chunk') {
+      if (req.headers['upload-id'] !== up.uploadId) return send(res, 409, { detail: 'upload_id mismatch' });
+      const start = Number(/^bytes (\d+)-/.exec(String(req.headers['content-range']))?.[1]);
+      if (start !== up.data.length) {
+        return send(res, 409, { detail: { error: 'offset mismatch', bytes_received: up.data.length } });
+      }
+      up.data = Buffer.concat([up.data, body]);
+      if (faults.dropNextChunkResponse) {
+        faults.dropNextChunkResponse = false;
+        return send(res, 500, { detail: 'response lost' });
+      }
+      return send(res, 200, { ok: true, bytes_received: up.data.length });
+    }
+    if (req.method === 'POST' && action === 'finalize') {
+      up.status = 'complete';
+      return send(res, 200, { final_path: `/data/${id}`, size: up.data.length });
+    }
+    send(res, 405, { detail: 'method not allowed' });
+  }
+
+  const server = createServer((req, res) => void handle(req, res));
+  return { server, uploads, faults };
+}
+
+let server: Server;
+let mock: ReturnType<typeof mockServer>;
+let url: string;
+let dir: string;
+let file: string;
+let content: Buffer;
+
+beforeAll(async () => {
+  mock = mockServer();
+  server = mock.server;
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  dir = mkdtempSync(join(tmpdir(), 'upload-test-'));
+  file = join(dir, 'rec.mp4');
+  content = randomBytes(2 * CHUNK_SIZE + 1234);
+  writeFileSync(file, content);
+});
+
+afterAll(async () => {
+  rmSync(dir, { recursive: true, force: true });
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  mock.uploads.clear();
+  mock.faults.dropNextChunkResponse = false;
+  mock.faults.staleStatus = false;
+});
+
+const args = (extra: Partial<Parameters<typeof uploadFile>[0]> = {}) => ({
+  serverUrl: url,
+  path: `file://${file}`,
+  filename: 'rec.mp4',
+  mime: 'application/octet-stream',
+  ...extra,
+});
+
+describe('uploadFile', () => {
+  it('uploads the file in chunks and reports progress', async () => {
+    const progress: number[] = [];
+    const part = await uploadFile(args({ onProgress: (p) => void progress.push(p.bytesSent) }));
+
+    expect(part).toMatchObject({ complete: true, size: content.length, bytesSent: content.length, finalPath: '/data/s1' });
+    expect(progress).toEqual([0, CHUNK_SIZE, 2 * CHUNK_SIZE, content.length, content.length]);
+    expect(mock.uploads.get('s1')!.data.equals(content)).toBe(true);
+  });
+
+  it('resumes from the offset the server has', async () => {
+    let saved: UploadPart | undefined;
+    mock.faults.dropNextChunkResponse = true;
+    await expect(uploadFile(args({ onProgress: (p) => void (saved = p) }))).rejects.toThrow(SyncError);
+    expect(saved!.bytesSent).toBe(0);
+
+    const part = await uploadFile(args({ resume: saved }));
+    expect(part.remoteId).toBe(saved!.remoteId);
+    expect(mock.uploads.size).toBe(1);
+    expect(mock.uploads.get(part.remoteId)!.data.equals(content)).toBe(true);
+  });
+
+  it('realigns on an offset mismatch', async () => {
+    mock.uploads.set('s9', { uploadId: 'u9', size: content.length, data: content.subarray(0, CHUNK_SIZE), status: 'uploading' });
+    mock.faults.staleStatus = true;
+    const resume = { remoteId: 's9', uploadId: 'u9', size: content.length, bytesSent: 0, complete: false };
+    const sent: number[] = [];
+    const part = await uploadFile(args({ resume, onProgress: (p) => void sent.push(p.bytesSent) }));
+
+    expect(sent[0]).toBe(CHUNK_SIZE); // from the 409, not a re-sent first chunk
+    expect(part.complete).toBe(true);
+    expect(mock.uploads.get('s9')!.data.equals(content)).toBe(true);
+  });
+
+  it('takes a finalized upload as complete without sending it again', async () => {
+    const first = await uploadFile(args());
+    const resume = { ...first, complete: false }; // the final save never happened
+    const part = await uploadFile(args({ resume }));
+
+    expect(part).toMatchObject({ remoteId: first.remoteId, complete: true, bytesSent: content.length });
+    expect(mock.uploads.size).toBe(1);
+  });
+
+  it('starts over when the server forgot the upload', async () => {
+    const resume = { remoteId: 'gone', uploadId: 'u0', size: content.length, bytesSent: 5, complete: false };
+    const part = await uploadFile(args({ resume }));
+    expect(part.remoteId).not.toBe('gone');
+    expect(mock.uploads.get(part.remoteId)!.data.equals(content)).toBe(true);
+  });
+
+  it('skips a completed part and fails on a missing file', async () => {
+    const done = { remoteId: 'x', uploadId: 'u', size: 1, bytesSent: 1, complete: true };
+    expect(await uploadFile(args({ resume: done }))).toBe(done);
+    await expect(uploadFile(args({ path: `file://${dir}/missing.mp4` }))).rejects.toThrow('does not exist');
+  });
+
+  it('surfaces the server error detail', async () => {
+    const resume = { remoteId: 's1', uploadId: 'wrong', size: content.length, bytesSent: 0, complete: false };
+    mock.uploads.set('s1', { uploadId: 'u1', size: content.length, data: Buffer.alloc(0), status: 'uploading' });
+    await expect(uploadFile(args({ resume }))).rejects.toThrow('upload_id mismatch');
+  });
+});
@@ -0,0 +1,15 @@
+import { getSettings, updateSettings, type Settings } from '../settings/settings';
+
+/**
+ * Sync is off unless the user turns it on — recordings stay on-device by
+ * default. Stored with the rest of the app settings.
+ */
+export type SyncConfig = Settings['sync'];
+
+export function getSyncConfig(): SyncConfig {
+  return getSettings().sync;
+}
+
+export function setSyncConfig(patch: Partial<SyncConfig>): SyncConfig {
+  return updateSettings('sync', patch).sync;
+}
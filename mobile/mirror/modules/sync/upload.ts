@@ -0,0 +1,210 @@
+import { File } from 'expo-file-system/next';
+import { addSession, getSession, type UploadPart, type UploadState } from '../sessions/local';
+import { getSyncConfig } from './config';
+import { encryptInPlace } from '../vault/vault';
+
+/**
+ * Resumable chunked upload to the Mirror OS API (backend/app/main.py):
+ *
+ *   POST /v1/sessions/start               -> { session_id, upload_id }
+ *   POST /v1/sessions/{id}/upload-chunk   Upload-Id + Content-Range headers
+ *   GET  /v1/sessions/{id}                -> { bytes_received, status }
+ *   POST /v1/sessions/{id}/finalize
+ *
+ * Progress is written to `Session.upload` after every chunk, so an upload cut
+ * off by an app kill continues from the server's `bytes_received`.
+ */
+
+export const CHUNK_SIZE = 1024 * 1024;
+
+export class SyncError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly body?: unknown
+  ) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+// FastAPI error bodies: { detail: "message" } or { detail: { error, ... } }
+type ErrorDetail = string | { error?: string; bytes_received?: number };
+
+function errorDetail(body: unknown): ErrorDetail | undefined {
+  if (typeof body !== 'object' || body === null || !('detail' in body)) return undefined;
+  const { detail } = body;
+  return typeof detail === 'string' || (typeof detail === 'object' && detail !== null) ? (detail as ErrorDetail) : undefined;
+}
+
+async function request<T>(baseUrl: string, path: string, init: RequestInit): Promise<T> {
+  const res = await fetch(`${baseUrl.replace(/\/+$/, '')}${path}`, init);
+  const text = await res.text();
+  let body: unknown;
+  try {
+    body = text ? JSON.parse(text) : undefined;
+  } catch {
+    body = text;
+  }
+  if (!res.ok) {
+    const detail = errorDetail(body);
+    const message = typeof detail === 'string' ? detail : detail?.error;
+    throw new SyncError(res.status, `${init.method ?? 'GET'} ${path}: ${message ?? res.status}`, body);
+  }
+  return body as T;
+}
+
+export type UploadFileArgs = {
+  serverUrl: string;
+  path: string;                // file://…
+  filename: string;            // name the server stores it under
+  mime: string;
+  resume?: UploadPart;         // state from a previous, interrupted attempt
+  onProgress?: (part: UploadPart) => void | Promise<void>;
+};
+
+/** Upload (or resume uploading) one file. Resolves with the completed part. */
+export async function uploadFile(args: UploadFileArgs): Promise<UploadPart> {
+  const { serverUrl, path, filename, mime, onProgress } = args;
+  const file = new File(path);
+  if (!file.exists) throw new Error(`uploadFile: ${path} does not exist`);
+  const size = file.size ?? 0;
+
+  let part: UploadPart | null = null;
+  if (args.resume && !args.resume.complete && args.resume.size === size) {
+    try {
+      const status = await request<{ bytes_received: number; status: string; size: number | null }>(
+        serverUrl,
+        `/v1/sessions/${args.resume.remoteId}`,
+        { method: 'GET' }
+      );
+      if (status.status === 'uploading') part = { ...args.resume, bytesSent: status.bytes_received };
+      // finalized, but we never saved that: done, not a second copy
+      else if (status.status === 'complete' && status.size === size) {
+        part = { ...args.resume, bytesSent: size, complete: true };
+        await onProgress?.(part);
+        return part;
+      }
+    } catch (e) {
+      // server forgot the upload (404) -> start over below
+      if (!(e instanceof SyncError && e.status === 404)) throw e;
+    }
+  } else if (args.resume?.complete) {
+    return args.resume;
+  }
+
+  if (!part) {
+    const started = await request<{ session_id: string; upload_id: string }>(
+      serverUrl,
+      '/v1/sessions/start',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ filename, size, mime }),
+      }
+    );
+    part = { remoteId: started.session_id, uploadId: started.upload_id, size, bytesSent: 0, complete: false };
+    await onProgress?.(part);
+  }
+
+  const handle = file.open();
+  try {
+    while (part.bytesSent < size) {
+      const start = part.bytesSent;
+      const length = Math.min(CHUNK_SIZE, size - start);
+      handle.offset = start;
+      const chunk = handle.readBytes(length);
+      try {
+        const res: { bytes_received: number } = await request(
+          serverUrl,
+          `/v1/sessions/${part.remoteId}/upload-chunk`,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/octet-stream',
+              'Upload-Id': part.uploadId,
+              'Content-Range': `bytes ${start}-${start + length - 1}/${size}`,
+            },
+            body: chunk,
+          }
+        );
+        part = { ...part, bytesSent: res.bytes_received };
+      } catch (e) {
+        // server has a different offset (e.g. our last response was lost): realign
+        const detail = e instanceof SyncError && e.status === 409 ? errorDetail(e.body) : undefined;
+        const received = typeof detail === 'object' ? detail.bytes_received : undefined;
+        if (typeof received !== 'number') throw e;
+        part = { ...part, bytesSent: received };
+      }
+      await onProgress?.(part);
+    }
+  } finally {
+    handle.close();
+  }
+
+  const fin = await request<{ final_path: string; size: number }>(
+    serverUrl,
+    `/v1/sessions/${part.remoteId}/finalize`,
+    { method: 'POST' }
+  );
+  if (fin.size !== size) {
+    throw new SyncError(500, `finalize: server has ${fin.size} bytes, expected ${size}`);
+  }
+  part = { ...part, complete: true, finalPath: fin.final_path };
+  await onProgress?.(part);
+  return part;
+}
+
+const basename = (p: string) => p.split('/').pop() ?? p;
+
+/**
+ * Upload a session's recording and transcript. No-op unless sync is enabled.
+ * Only vault ciphertext is ever sent; a file still in plaintext (not yet
+ * migrated) is encrypted in place first.
+ * Safe to call again after a crash: finished parts are skipped and
+ * unfinished ones resume.
+ */
+export async function uploadSession(sessionId: string): Promise<void> {
+  const config = getSyncConfig();
+  if (!config.enabled || !config.serverUrl) return;
+
+  const session = await getSession(sessionId);
+  if (!session) throw new Error(`uploadSession: no session ${sessionId}`);
+
+  // a different server means a fresh upload
+  const prev = session.upload?.serverUrl === config.serverUrl ? session.upload : undefined;
+  let state: UploadState = { ...prev, serverUrl: config.serverUrl, lastError: undefined };
+  const save = async () => {
+    await addSession({ id: sessionId, upload: state });
+  };
+
+  const files: ['video' | 'transcript', string | undefined][] = [
+    ['video', session.videoPath],
+    ['transcript', session.transcriptPath],
+  ];
+
+  try {
+    for (const [key, path] of files) {
+      if (!path) continue;
+      if (await encryptInPlace(path)) state = { ...state, [key]: undefined }; // file changed
+      const done = await uploadFile({
+        serverUrl: config.serverUrl,
+        path,
+        filename: basename(path),
+        mime: 'application/octet-stream',
+        resume: state[key],
+        onProgress: async (part) => {
+          state = { ...state, [key]: part };
+          await save();
+        },
+      });
+      state = { ...state, [key]: done };
+    }
+    state = { ...state, completedAt: Date.now() };
+    await save();
+  } catch (e: any) {
+    state = { ...state, lastError: String(e?.message ?? e) };
+    await save();
+    throw e;
+  }
+}
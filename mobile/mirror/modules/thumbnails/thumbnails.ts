@@ -0,0 +1,97 @@
+import * as FileSystem from 'expo-file-system';
+import { File } from 'expo-file-system/next';
+import * as VideoThumbnails from 'expo-video-thumbnails';
+
+import { readBytes, withPlaintext, writeBytes } from '../vault/vault';
+
+/**
+ * Poster frames for the Videos list. One JPEG per recording, grabbed while
+ * the camera's plaintext file is still around (persist stage) and stored
+ * encrypted as `<id>.thumb.jpg`. The list decrypts them into memory as data
+ * URIs; nothing plaintext is left on disk.
+ */
+
+// far enough in to skip the first dark/blurry frames of a recording
+const POSTER_AT_MS = 1_000;
+const POSTER_QUALITY = 0.4;
+// decrypted posters kept in memory (~50–100 KB each)
+const CACHE_SIZE = 60;
+
+async function grabPoster(mediaPath: string, durationMs: number | undefined, thumbPath: string) {
+  const time = durationMs ? Math.min(POSTER_AT_MS, Math.floor(durationMs / 2)) : 0;
+  const { uri } = await VideoThumbnails.getThumbnailAsync(mediaPath, { time, quality: POSTER_QUALITY });
+  try {
+    await writeBytes(thumbPath, new File(uri).bytes());
+  } finally {
+    // a frame of the user in plaintext; don't leave it in the cache
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  }
+}
+
+/**
+ * Extract a poster frame and save it (encrypted) to `thumbnailPath`. Reads
+ * `sourcePath` (the camera's plaintext file) when given, otherwise a
+ * temporary decrypted copy of the recording. Returns the poster's path.
+ */
+export async function processAndSaveThumbnail(args: {
+  videoPath: string;
+  thumbnailPath: string;
+  durationMs?: number;
+  sourcePath?: string;
+}): Promise<string> {
+  const { videoPath, thumbnailPath, durationMs, sourcePath } = args;
+  if (sourcePath) await grabPoster(sourcePath, durationMs, thumbnailPath);
+  else await withPlaintext(videoPath, (plain) => grabPoster(plain, durationMs, thumbnailPath));
+  uris.delete(thumbnailPath);
+  return thumbnailPath;
+}
+
+// ---- display ----------------------------------------------------------------
+
+const B64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function bytesToBase64(bytes: Uint8Array): string {
+  const out: string[] = [];
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    out.push(
+      B64[(n >> 18) & 63] +
+        B64[(n >> 12) & 63] +
+        (i + 1 < bytes.length ? B64[(n >> 6) & 63] : '=') +
+        (i + 2 < bytes.length ? B64[n & 63] : '=')
+    );
+  }
+  return out.join('');
+}
+
+// insertion-ordered, so the first key is the least recently used
+const uris = new Map<string, string>();
+const loading = new Map<string, Promise<string>>();
+
+/** The poster at `thumbPath` as a `data:` URI, decrypted once and cached. */
+export function loadThumbnail(thumbPath: string): Promise<string> {
+  const cached = uris.get(thumbPath);
+  if (cached) {
+    uris.delete(thumbPath);
+    uris.set(thumbPath, cached);
+    return Promise.resolve(cached);
+  }
+  let pending = loading.get(thumbPath);
+  if (!pending) {
+    pending = readBytes(thumbPath)
+      .then((bytes) => {
+        const uri = `data:image/jpeg;base64,${bytesToBase64(bytes)}`;
+        uris.set(thumbPath, uri);
+        if (uris.size > CACHE_SIZE) uris.delete(uris.keys().next().value!);
+        return uri;
+      })
+      .finally(() => loading.delete(thumbPath));
+    loading.set(thumbPath, pending);
+  }
+  return pending;
+}
+
+/** Drop decrypted posters, e.g. when the app locks. */
+export function clearThumbnailCache() {
+  uris.clear();
+}
@@ -0,0 +1,35 @@
+import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+import { bytesToHex, hexToBytes } from '@noble/ciphers/utils';
+
+/**
+ * Per-device vault key. Generated on first use and kept in the platform
+ * keystore (Keychain / Android Keystore-backed SecureStore); it never leaves
+ * this device and is not included in backups.
+ */
+
+const KEY_NAME = 'mirror.vault.key.v1';
+export const KEY_BYTES = 32;
+
+let cached: Promise<Uint8Array> | null = null;
+
+async function loadOrCreate(): Promise<Uint8Array> {
+  const opts = { keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY };
+  const stored = await SecureStore.getItemAsync(KEY_NAME, opts);
+  if (stored) {
+    const key = hexToBytes(stored);
+    if (key.length === KEY_BYTES) return key;
+    throw new Error('vault: stored device key is corrupt');
+  }
+  const key = Crypto.getRandomBytes(KEY_BYTES);
+  await SecureStore.setItemAsync(KEY_NAME, bytesToHex(key), opts);
+  return key;
+}
+
+export function getDeviceKey(): Promise<Uint8Array> {
+  cached ??= loadOrCreate().catch((e) => {
+    cached = null;
+    throw e;
+  });
+  return cached;
+}
@@ -0,0 +1,40 @@
+import * as FileSystem from 'expo-file-system';
+import { listSessions, RECORDINGS_DIR } from '../sessions/local';
+import { encryptInPlace, isVaultScratch, recoverInPlace } from './vault';
+
+/**
+ * One pass over recordings/ that encrypts every session file still in
+ * plaintext (recorded before the vault existed) and finishes any in-place
+ * swap interrupted by a crash. Cheap once everything is encrypted: only the
+ * 9-byte header of each file is read.
+ */
+export async function migratePlaintextSessions(): Promise<{ encrypted: string[] }> {
+  const encrypted: string[] = [];
+  if (!(await FileSystem.getInfoAsync(RECORDINGS_DIR)).exists) return { encrypted };
+
+  const sessions = await listSessions({ includeDeleted: true });
+  const ids = sessions.map((s) => s.id);
+  const names = await FileSystem.readDirectoryAsync(RECORDINGS_DIR);
+
+  // finish interrupted swaps first so the real file is in place
+  const interrupted = new Set(
+    names.filter(isVaultScratch).map((n) => n.replace(/\.(vaulttmp|plainbak)$/, ''))
+  );
+  for (const base of interrupted) {
+    await recoverInPlace(`${RECORDINGS_DIR}/${base}`);
+  }
+
+  const owned = (name: string) => ids.some((id) => name.startsWith(`${id}.`) || name.startsWith(`${id}_`));
+  const current = await FileSystem.readDirectoryAsync(RECORDINGS_DIR);
+  for (const name of current) {
+    if (isVaultScratch(name) || !owned(name)) continue;
+    const uri = `${RECORDINGS_DIR}/${name}`;
+    try {
+      if (await encryptInPlace(uri)) encrypted.push(name);
+    } catch (e) {
+      console.warn('[Vault] could not encrypt', name, e);
+    }
+  }
+  if (encrypted.length) console.log(`[Vault] encrypted ${encrypted.length} legacy files`);
+  return { encrypted };
+}
@@ -0,0 +1,404 @@
+import * as FileSystem from 'expo-file-system';
+import { File } from 'expo-file-system/next';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { bytesToUtf8, nextTick, utf8ToBytes } from '@noble/ciphers/utils';
+import * as Crypto from 'expo-crypto';
+import { getDeviceKey } from './key';
+
+/**
+ * Encryption at rest for recordings, transcripts and derived files.
+ *
+ * File format (chunked so large videos never sit in memory at once):
+ *
+ *   "MVLT" | version u8 | chunkSize u32be
+ *   then per chunk: nonce (24) | XChaCha20-Poly1305(ciphertext + tag)
+ *
+ * Each chunk's AAD is its index plus a "last chunk" flag, so chunks cannot be
+ * reordered, dropped or the file truncated without failing authentication.
+ * Files keep their original names; readers detect the magic header, which
+ * also lets them read sessions that predate the vault.
+ */
+
+const MAGIC = [0x4d, 0x56, 0x4c, 0x54]; // "MVLT"
+const VERSION = 1;
+const HEADER_BYTES = 9;
+const NONCE_BYTES = 24;
+const TAG_BYTES = 16;
+const CHUNK_SIZE = 1024 * 1024;
+
+export class VaultError extends Error {
+  constructor(
+    readonly uri: string,
+    message: string
+  ) {
+    super(`${message} (${uri})`);
+    this.name = 'VaultError';
+  }
+}
+
+function aad(index: number, last: boolean) {
+  const out = new Uint8Array(5);
+  new DataView(out.buffer).setUint32(0, index);
+  out[4] = last ? 1 : 0;
+  return out;
+}
+
+function header() {
+  const out = new Uint8Array(HEADER_BYTES);
+  out.set(MAGIC, 0);
+  out[4] = VERSION;
+  new DataView(out.buffer).setUint32(5, CHUNK_SIZE);
+  return out;
+}
+
+function hasMagic(bytes: Uint8Array) {
+  return bytes.length >= HEADER_BYTES && MAGIC.every((b, i) => bytes[i] === b);
+}
+
+export async function isEncrypted(uri: string): Promise<boolean> {
+  const file = new File(uri);
+  if (!file.exists || (file.size ?? 0) < HEADER_BYTES) return false;
+  const h = file.open();
+  try {
+    return hasMagic(h.readBytes(HEADER_BYTES));
+  } finally {
+    h.close();
+  }
+}
+
+function freshFile(uri: string) {
+  const f = new File(uri);
+  f.create({ overwrite: true, intermediates: true });
+  return f;
+}
+
+export async function encryptFile(srcUri: string, dstUri: string): Promise<void> {
+  const key = await getDeviceKey();
+  const src = new File(srcUri);
+  if (!src.exists) throw new VaultError(srcUri, 'encrypt: source missing');
+  const size = src.size ?? 0;
+
+  const dst = freshFile(dstUri);
+  const input = src.open();
+  const output = dst.open();
+  try {
+    output.writeBytes(header());
+    let index = 0;
+    let offset = 0;
+    do {
+      const len = Math.min(CHUNK_SIZE, size - offset);
+      const plain = input.readBytes(len);
+      offset += len;
+      const last = offset >= size;
+      const nonce = Crypto.getRandomBytes(NONCE_BYTES);
+      output.writeBytes(nonce);
+      output.writeBytes(xchacha20poly1305(key, nonce, aad(index, last)).encrypt(plain));
+      index++;
+      await nextTick(); // keep the JS thread responsive on long videos
+    } while (offset < size);
+  } finally {
+    input.close();
+    output.close();
+  }
+}
+
+/** Authenticate and decrypt a vault file chunk by chunk. */
+async function decryptChunks(srcUri: string, onChunk: (plain: Uint8Array) => void | Promise<void>): Promise<void> {
+  const key = await getDeviceKey();
+  const src = new File(srcUri);
+  if (!src.exists) throw new VaultError(srcUri, 'decrypt: source missing');
+  const size = src.size ?? 0;
+  if (size < HEADER_BYTES) throw new VaultError(srcUri, 'decrypt: truncated file');
+
+  const input = src.open();
+  try {
+    const h = input.readBytes(HEADER_BYTES);
+    if (!hasMagic(h)) throw new VaultError(srcUri, 'decrypt: not a vault file');
+    if (h[4] !== VERSION) throw new VaultError(srcUri, `decrypt: unsupported version ${h[4]}`);
+    const chunkSize = new DataView(h.buffer, h.byteOffset).getUint32(5);
+
+    let offset = HEADER_BYTES;
+    let index = 0;
+    while (offset < size) {
+      const len = Math.min(NONCE_BYTES + chunkSize + TAG_BYTES, size - offset);
+      // a tail too short to hold a nonce and tag: cut off mid-chunk
+      if (len < NONCE_BYTES + TAG_BYTES) throw new VaultError(srcUri, `decrypt: truncated file at chunk ${index}`);
+      const nonce = input.readBytes(NONCE_BYTES);
+      const sealed = input.readBytes(len - NONCE_BYTES);
+      offset += len;
+      let plain: Uint8Array;
+      try {
+        plain = xchacha20poly1305(key, nonce, aad(index, offset >= size)).decrypt(sealed);
+      } catch {
+        throw new VaultError(srcUri, `decrypt: chunk ${index} failed authentication`);
+      }
+      await onChunk(plain);
+      index++;
+      await nextTick();
+    }
+    if (index === 0) throw new VaultError(srcUri, 'decrypt: truncated file');
+  } finally {
+    input.close();
+  }
+}
+
+export async function decryptFile(srcUri: string, dstUri: string): Promise<void> {
+  if (!new File(srcUri).exists) throw new VaultError(srcUri, 'decrypt: source missing');
+  const dst = freshFile(dstUri);
+  const output = dst.open();
+  try {
+    await decryptChunks(srcUri, (plain) => output.writeBytes(plain));
+  } catch (e) {
+    output.close();
+    dst.delete();
+    throw e;
+  }
+  output.close();
+}
+
+export type FileCheck = 'ok' | 'missing' | 'empty' | 'truncated' | 'corrupt';
+
+/**
+ * Integrity check without decrypting the whole file. A vault file's size must
+ * fit its chunk layout; with `deep`, the final chunk is also authenticated,
+ * which proves the file was not cut short at a chunk boundary. Plaintext
+ * files can only be checked for being empty.
+ */
+export async function checkFile(uri: string, opts: { deep?: boolean } = {}): Promise<FileCheck> {
+  const file = new File(uri);
+  if (!file.exists) return 'missing';
+  const size = file.size ?? 0;
+  if (size === 0) return 'empty';
+  if (size < HEADER_BYTES) return 'ok';
+
+  const handle = file.open();
+  try {
+    const h = handle.readBytes(HEADER_BYTES);
+    if (!hasMagic(h)) return 'ok';
+    if (h[4] !== VERSION) return 'corrupt';
+    const frame = NONCE_BYTES + new DataView(h.buffer, h.byteOffset).getUint32(5) + TAG_BYTES;
+    const body = size - HEADER_BYTES;
+    const rem = body % frame;
+    const chunks = Math.floor(body / frame) + (rem ? 1 : 0);
+    if (chunks === 0 || (rem !== 0 && rem < NONCE_BYTES + TAG_BYTES)) return 'truncated';
+    if (!opts.deep) return 'ok';
+
+    const lastLen = rem || frame;
+    handle.offset = size - lastLen;
+    const nonce = handle.readBytes(NONCE_BYTES);
+    const sealed = handle.readBytes(lastLen - NONCE_BYTES);
+    try {
+      xchacha20poly1305(await getDeviceKey(), nonce, aad(chunks - 1, true)).decrypt(sealed);
+      return 'ok';
+    } catch {
+      return 'truncated';
+    }
+  } finally {
+    handle.close();
+  }
+}
+
+const TMP_SUFFIX = '.vaulttmp';
+const BAK_SUFFIX = '.plainbak';
+
+/**
+ * Replace a plaintext file with its encrypted form. The swap is ordered so a
+ * crash never loses data; `recoverInPlace` finishes an interrupted swap.
+ */
+export async function encryptInPlace(uri: string): Promise<boolean> {
+  if (await isEncrypted(uri)) return false;
+  await encryptFile(uri, uri + TMP_SUFFIX);
+  await FileSystem.moveAsync({ from: uri, to: uri + BAK_SUFFIX });
+  await FileSystem.moveAsync({ from: uri + TMP_SUFFIX, to: uri });
+  await FileSystem.deleteAsync(uri + BAK_SUFFIX, { idempotent: true });
+  return true;
+}
+
+export async function recoverInPlace(uri: string): Promise<void> {
+  const exists = async (p: string) => (await FileSystem.getInfoAsync(p)).exists;
+  const [orig, tmp, bak] = await Promise.all([exists(uri), exists(uri + TMP_SUFFIX), exists(uri + BAK_SUFFIX)]);
+  if (!orig && tmp && bak) {
+    await FileSystem.moveAsync({ from: uri + TMP_SUFFIX, to: uri });
+  } else if (!orig && bak) {
+    await FileSystem.moveAsync({ from: uri + BAK_SUFFIX, to: uri });
+  }
+  await FileSystem.deleteAsync(uri + TMP_SUFFIX, { idempotent: true });
+  if (await exists(uri)) await FileSystem.deleteAsync(uri + BAK_SUFFIX, { idempotent: true });
+}
+
+export const isVaultScratch = (name: string) => name.endsWith(TMP_SUFFIX) || name.endsWith(BAK_SUFFIX);
+
+// ---- small files (JSON, thumbnails) -----------------------------------------
+
+/** Read a (possibly encrypted) small file. Plaintext files are returned as is. */
+export async function readBytes(uri: string): Promise<Uint8Array> {
+  const file = new File(uri);
+  if (!file.exists) throw new VaultError(uri, 'read: file missing');
+  const bytes = file.bytes();
+  if (!hasMagic(bytes)) return bytes;
+
+  const key = await getDeviceKey();
+  const chunkSize = new DataView(bytes.buffer, bytes.byteOffset).getUint32(5);
+  const parts: Uint8Array[] = [];
+  let offset = HEADER_BYTES;
+  for (let index = 0; offset < bytes.length; index++) {
+    const end = Math.min(offset + NONCE_BYTES + chunkSize + TAG_BYTES, bytes.length);
+    if (end - offset < NONCE_BYTES + TAG_BYTES) throw new VaultError(uri, `read: truncated file at chunk ${index}`);
+    const nonce = bytes.subarray(offset, offset + NONCE_BYTES);
+    try {
+      parts.push(xchacha20poly1305(key, nonce, aad(index, end >= bytes.length)).decrypt(bytes.subarray(offset + NONCE_BYTES, end)));
+    } catch {
+      throw new VaultError(uri, `read: chunk ${index} failed authentication`);
+    }
+    offset = end;
+  }
+  if (!parts.length) throw new VaultError(uri, 'read: truncated file');
+  const total = parts.reduce((n, p) => n + p.length, 0);
+  const out = new Uint8Array(total);
+  parts.reduce((o, p) => (out.set(p, o), o + p.length), 0);
+  return out;
+}
+
+/** Write a small file encrypted. */
+export async function writeBytes(uri: string, plain: Uint8Array): Promise<void> {
+  const key = await getDeviceKey();
+  const out = freshFile(uri).open();
+  try {
+    out.writeBytes(header());
+    let index = 0;
+    let offset = 0;
+    do {
+      const end = Math.min(offset + CHUNK_SIZE, plain.length);
+      const nonce = Crypto.getRandomBytes(NONCE_BYTES);
+      out.writeBytes(nonce);
+      out.writeBytes(xchacha20poly1305(key, nonce, aad(index, end >= plain.length)).encrypt(plain.subarray(offset, end)));
+      offset = end;
+      index++;
+    } while (offset < plain.length);
+  } finally {
+    out.close();
+  }
+}
+
+/** Read a (possibly encrypted) text file. Plaintext files are returned as is. */
+export async function readText(uri: string): Promise<string> {
+  return bytesToUtf8(await readBytes(uri));
+}
+
+/** Write a text file encrypted. */
+export async function writeText(uri: string, text: string): Promise<void> {
+  await writeBytes(uri, utf8ToBytes(text));
+}
+
+// ---- plaintext scratch copies -----------------------------------------------
+
+const PLAYBACK_DIR = `${FileSystem.cacheDirectory}vault`;
+
+/**
+ * Decrypt into the cache for a player or engine that needs a real file.
+ * Callers delete the copy with `releasePlaintext` when done; anything left
+ * over (e.g. after a crash) is wiped by `clearPlaintextCache` on launch.
+ */
+export async function decryptToCache(uri: string): Promise<string> {
+  if (!(await isEncrypted(uri))) return uri;
+  const name = uri.split('/').pop() ?? 'media';
+  const dst = `${PLAYBACK_DIR}/${Date.now()}_${name}`;
+  await decryptFile(uri, dst);
+  return dst;
+}
+
+export async function releasePlaintext(uri: string) {
+  if (uri.startsWith(PLAYBACK_DIR)) await FileSystem.deleteAsync(uri, { idempotent: true });
+}
+
+export async function clearPlaintextCache() {
+  await FileSystem.deleteAsync(PLAYBACK_DIR, { idempotent: true });
+}
+
+/** Run `fn` against a plaintext copy of `uri`, removing the copy afterwards. */
+export async function withPlaintext<T>(uri: string, fn: (plainUri: string) => Promise<T>): Promise<T> {
+  const plain = await decryptToCache(uri);
+  try {
+    return await fn(plain);
+  } finally {
+    await releasePlaintext(plain);
+  }
+}
+
+// ---- streaming --------------------------------------------------------------
+
+/**
+ * Feed the plaintext of a (possibly encrypted) file to `onChunk` piece by
+ * piece, so it can be streamed elsewhere without a decrypted copy on disk.
+ */
+export async function readPlainChunks(
+  uri: string,
+  onChunk: (plain: Uint8Array) => void | Promise<void>
+): Promise<void> {
+  if (await isEncrypted(uri)) return decryptChunks(uri, onChunk);
+  const file = new File(uri);
+  if (!file.exists) throw new VaultError(uri, 'read: file missing');
+  const size = file.size ?? 0;
+  const input = file.open();
+  try {
+    for (let offset = 0; offset < size; offset += CHUNK_SIZE) {
+      await onChunk(input.readBytes(Math.min(CHUNK_SIZE, size - offset)));
+      await nextTick();
+    }
+  } finally {
+    input.close();
+  }
+}
+
+export type VaultWriter = {
+  write(plain: Uint8Array): Promise<void>;
+  /** Seal the last chunk and close the file. */
+  close(): Promise<void>;
+  /** Close and delete the partial file. */
+  abort(): void;
+};
+
+/**
+ * Write an encrypted file from plaintext that arrives in pieces of any size
+ * (e.g. while unpacking an archive). Produces the same format as
+ * `encryptFile`; one chunk is held back until the next write or `close`, so
+ * the final chunk can be flagged as last.
+ */
+export async function createVaultWriter(uri: string): Promise<VaultWriter> {
+  const key = await getDeviceKey();
+  const dst = freshFile(uri);
+  const output = dst.open();
+  output.writeBytes(header());
+  let index = 0;
+  let pending = new Uint8Array(0);
+
+  const seal = (plain: Uint8Array, last: boolean) => {
+    const nonce = Crypto.getRandomBytes(NONCE_BYTES);
+    output.writeBytes(nonce);
+    output.writeBytes(xchacha20poly1305(key, nonce, aad(index++, last)).encrypt(plain));
+  };
+
+  return {
+    async write(plain) {
+      const joined = new Uint8Array(pending.length + plain.length);
+      joined.set(pending);
+      joined.set(plain, pending.length);
+      let offset = 0;
+      while (joined.length - offset > CHUNK_SIZE) {
+        seal(joined.subarray(offset, offset + CHUNK_SIZE), false);
+        offset += CHUNK_SIZE;
+      }
+      pending = joined.slice(offset);
+      await nextTick();
+    },
+    async close() {
+      seal(pending, true);
+      pending = new Uint8Array(0);
+      output.close();
+    },
+    abort() {
+      output.close();
+      dst.delete();
+    },
+  };
+}
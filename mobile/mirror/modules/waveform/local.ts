@@ -0,0 +1,51 @@
+import { readText, writeText } from '../vault/vault';
+import { downsample, WAVEFORM_PEAKS, WAVEFORM_SCHEMA_VERSION, type Waveform } from './peaks';
+
+// loaded waveforms are a few hundred bytes each
+const CACHE_SIZE = 200;
+// insertion-ordered, so the first key is the least recently used
+const cache = new Map<string, Waveform>();
+
+/**
+ * Save the levels metered during an audio recording (encrypted) to
+ * `waveformPath`. Returns the path.
+ */
+export async function saveWaveform(args: {
+  waveformPath: string;
+  levels: number[];
+  durationMs?: number;
+}): Promise<string> {
+  const { waveformPath, levels, durationMs } = args;
+  if (!levels.length) throw new Error('saveWaveform: no levels were metered');
+  const waveform: Waveform = {
+    schemaVersion: WAVEFORM_SCHEMA_VERSION,
+    type: 'waveform',
+    createdAt: Date.now(),
+    durationMs,
+    peaks: downsample(levels, WAVEFORM_PEAKS),
+  };
+  await writeText(waveformPath, JSON.stringify(waveform));
+  cache.delete(waveformPath);
+  return waveformPath;
+}
+
+export async function loadWaveform(path: string): Promise<Waveform> {
+  const cached = cache.get(path);
+  if (cached) {
+    cache.delete(path);
+    cache.set(path, cached);
+    return cached;
+  }
+  const waveform = JSON.parse(await readText(path)) as Waveform;
+  if (waveform.type !== 'waveform' || waveform.schemaVersion !== WAVEFORM_SCHEMA_VERSION) {
+    throw new Error(`loadWaveform: unsupported file ${path}`);
+  }
+  cache.set(path, waveform);
+  if (cache.size > CACHE_SIZE) cache.delete(cache.keys().next().value!);
+  return waveform;
+}
+
+/** Drop loaded waveforms, e.g. when the app locks. */
+export function clearWaveformCache() {
+  cache.clear();
+}
@@ -0,0 +1,42 @@
+/**
+ * Waveforms for audio-only sessions. Pure functions, like ../face/features.
+ *
+ * The recorder's metering (dBFS, roughly -160…0) is sampled while recording;
+ * there is no audio decoder on the JS side, so this is the only level data
+ * we get. Levels are mapped to 0…1 and reduced to a fixed number of peaks.
+ */
+
+export const WAVEFORM_SCHEMA_VERSION = 1;
+export const WAVEFORM_PEAKS = 120;
+// metering interval while recording
+export const METERING_INTERVAL_MS = 100;
+// quieter than this draws as silence
+const FLOOR_DB = -50;
+
+export type Waveform = {
+  schemaVersion: typeof WAVEFORM_SCHEMA_VERSION;
+  type: 'waveform';
+  createdAt: number;
+  durationMs?: number;
+  peaks: number[];     // 0…1, evenly spaced over the recording
+};
+
+/** A metering reading as a 0…1 level. Missing readings are silence. */
+export function levelFromDb(db: number | undefined): number {
+  if (db == null || !Number.isFinite(db)) return 0;
+  return Math.min(1, Math.max(0, (db - FLOOR_DB) / -FLOOR_DB));
+}
+
+/** Reduce `levels` to at most `count` bars, keeping the loudest of each bucket. */
+export function downsample(levels: number[], count: number): number[] {
+  if (levels.length <= count) return levels.map((l) => Math.round(l * 100) / 100);
+  const out: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const from = Math.floor((i * levels.length) / count);
+    const to = Math.floor(((i + 1) * levels.length) / count);
+    let peak = 0;
+    for (let j = from; j < to; j++) peak = Math.max(peak, levels[j]);
+    out.push(Math.round(peak * 100) / 100);
+  }
+  return out;
+}